@@ -3,17 +3,22 @@ import dotenv from "dotenv";
 import express, { Application, Request, Response } from "express";
 import morgan from "morgan";
 import connectDB from "./config/db.config";
-import { handleStripeWebhook } from "./controllers/payment.controller";
+import { handlePaymentWebhook } from "./controllers/payment.controller";
 import authRoutes from "./routes/auth.routes";
 import campaignRoutes from "./routes/campaign.routes";
 import causeRoutes from "./routes/cause.routes";
 import dashboardRoutes from "./routes/dashboard.routes";
 import donationRoutes from "./routes/donation.routes";
+import fundraisingPageRoutes from "./routes/fundraisingPage.routes";
+import progressUpdateRoutes from "./routes/progressUpdate.routes";
+import ledgerRoutes from "./routes/ledger.routes";
 import messageRoutes from "./routes/message.routes";
 import notificationRoutes from "./routes/notification.routes";
 import organizationRoutes from "./routes/organization.routes";
 import paymentRoutes from "./routes/payment.routes";
 import profileRoutes from "./routes/profile.routes";
+import recurringDonationRoutes from "./routes/recurringDonation.routes";
+import taxReceiptRoutes from "./routes/taxReceipt.routes";
 import uploadRoutes from "./routes/upload.routes";
 import voiceCommandRoutes from "./routes/voiceCommand.routes";
 
@@ -34,7 +39,7 @@ app.use(
 app.post(
 	"/api/payments/webhook",
 	express.raw({ type: "application/json" }),
-	handleStripeWebhook
+	handlePaymentWebhook
 );
 
 // Body parsing middleware (MUST be before ALL routes that need JSON parsing)
@@ -61,6 +66,11 @@ app.use("/api/donations", donationRoutes);
 app.use("/api/organizations", organizationRoutes);
 app.use("/api/upload", uploadRoutes);
 app.use("/api/payments", paymentRoutes);
+app.use("/api/recurring-donations", recurringDonationRoutes);
+app.use("/api/ledger", ledgerRoutes);
+app.use("/api/tax-receipts", taxReceiptRoutes);
+app.use("/api/fundraising-pages", fundraisingPageRoutes);
+app.use("/api/updates", progressUpdateRoutes);
 app.use("/api/voice-commands", voiceCommandRoutes);
 
 // Health check route
@@ -0,0 +1,11 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export const CAMPAIGN_CONFIG = {
+	// How often the lifecycle job activates and completes campaigns whose
+	// start or end date has passed; 0 disables it
+	lifecycleIntervalMinutes: Number(
+		process.env.CAMPAIGN_LIFECYCLE_INTERVAL_MINUTES ?? 15
+	),
+};
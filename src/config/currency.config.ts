@@ -0,0 +1,44 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// Units of the base currency per unit of each accepted currency
+const DEFAULT_FX_RATES: Record<string, number> = {
+	INR: 1,
+	USD: 83,
+	GBP: 105,
+	EUR: 90,
+};
+
+const baseCurrency = (process.env.BASE_CURRENCY || "INR").toUpperCase();
+
+// FX_RATES overrides or extends the defaults, e.g. {"USD":83.2,"AUD":55}
+const parseFxRates = (): Record<string, number> => {
+	const rates: Record<string, number> = { ...DEFAULT_FX_RATES };
+
+	if (process.env.FX_RATES) {
+		let overrides: Record<string, unknown>;
+		try {
+			overrides = JSON.parse(process.env.FX_RATES);
+		} catch (error) {
+			throw new Error("FX_RATES must be a JSON object of currency rates");
+		}
+		Object.entries(overrides).forEach(([currency, rate]) => {
+			if (typeof rate !== "number" || rate <= 0) {
+				throw new Error(`Invalid FX rate for ${currency}`);
+			}
+			rates[currency.toUpperCase()] = rate;
+		});
+	}
+
+	if (rates[baseCurrency] !== 1) {
+		throw new Error(`FX rate for base currency ${baseCurrency} must be 1`);
+	}
+
+	return rates;
+};
+
+export const CURRENCY_CONFIG = {
+	baseCurrency,
+	fxRates: parseFxRates(),
+};
@@ -0,0 +1,36 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export type PaymentProviderName = "stripe" | "fake";
+
+const provider = (process.env.PAYMENT_PROVIDER || "stripe").toLowerCase();
+
+if (provider !== "stripe" && provider !== "fake") {
+	throw new Error(`Unsupported PAYMENT_PROVIDER "${provider}"`);
+}
+
+export const PAYMENT_CONFIG = {
+	provider: provider as PaymentProviderName,
+	frontendUrl: process.env.FRONTEND_URL || "http://localhost:3000",
+	apiUrl: process.env.API_URL || `http://localhost:${process.env.PORT || 8080}`,
+	// Signs webhooks emitted by the in-process fake provider
+	fakeWebhookSecret: process.env.FAKE_PAYMENT_WEBHOOK_SECRET || "fake_whsec",
+	// Fee model applied to monetary donations. Percentages are of the gross
+	// charge; the fixed processing fee is in the base currency.
+	fees: {
+		platformPercent: Number(process.env.PLATFORM_FEE_PERCENT ?? 2),
+		processingPercent: Number(process.env.PROCESSING_FEE_PERCENT ?? 2.9),
+		processingFixed: Number(process.env.PROCESSING_FEE_FIXED ?? 0),
+	},
+	// How often the reconciliation job compares the last window of payments;
+	// 0 disables it
+	reconciliationIntervalHours: Number(
+		process.env.RECONCILIATION_INTERVAL_HOURS ?? 24
+	),
+	// A webhook event still PROCESSING after this long is treated as
+	// abandoned (e.g. the server crashed mid-handler) and may be run again
+	webhookProcessingLeaseMinutes: Number(
+		process.env.WEBHOOK_PROCESSING_LEASE_MINUTES ?? 5
+	),
+};
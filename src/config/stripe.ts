@@ -1,20 +1,29 @@
 import Stripe from "stripe";
 
-// Validate required environment variables
-if (!process.env.STRIPE_SECRET_KEY) {
-	throw new Error("STRIPE_SECRET_KEY is required");
-}
+// Created on first use so that other payment providers can run without Stripe keys
+let stripeClient: Stripe | null = null;
 
-if (!process.env.STRIPE_WEBHOOK_SECRET) {
-	console.warn("STRIPE_WEBHOOK_SECRET is not configured - webhooks will not work");
-}
+export const getStripeClient = (): Stripe => {
+	if (stripeClient) {
+		return stripeClient;
+	}
 
-export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-	apiVersion: "2023-10-16",
-});
+	// Validate required environment variables
+	if (!process.env.STRIPE_SECRET_KEY) {
+		throw new Error("STRIPE_SECRET_KEY is required");
+	}
+
+	if (!process.env.STRIPE_WEBHOOK_SECRET) {
+		console.warn("STRIPE_WEBHOOK_SECRET is not configured - webhooks will not work");
+	}
+
+	stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY, {
+		apiVersion: "2023-10-16",
+	});
+	return stripeClient;
+};
 
 export const STRIPE_CONFIG = {
-	currency: "inr", // INR currency for Indian Rupee (₹)
 	automatic_payment_methods: {
 		enabled: true,
 	},
@@ -0,0 +1,21 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// Indian financial years run April to March in IST; both are configurable
+// for organizations filing elsewhere
+const fiscalYearStartMonth = Number(process.env.FISCAL_YEAR_START_MONTH ?? 4);
+
+if (
+	!Number.isInteger(fiscalYearStartMonth) ||
+	fiscalYearStartMonth < 1 ||
+	fiscalYearStartMonth > 12
+) {
+	throw new Error("FISCAL_YEAR_START_MONTH must be a month from 1 to 12");
+}
+
+export const TAX_RECEIPT_CONFIG = {
+	fiscalYearStartMonth,
+	// Offset of the filing timezone from UTC, used for fiscal year boundaries
+	utcOffsetMinutes: Number(process.env.FISCAL_YEAR_UTC_OFFSET_MINUTES ?? 330),
+};
@@ -3,16 +3,29 @@ import mongoose from "mongoose";
 import Campaign from "../models/campaign.model";
 import Cause from "../models/cause.model";
 import Donation from "../models/donation.model";
+import Organization from "../models/organization.model";
 import { catchAsync } from "../utils/catchAsync";
 import { AppError } from "../utils/appError";
 import { IUser } from "../types";
 import { ICampaign } from "../types/campaign";
 import { DonationType } from "../types";
+import { formatMatchingPools } from "../services/matchingService";
+import { getLedgerBalance, getLedgerBalances } from "../services/ledgerService";
+import { getRecentSupporters } from "../services/supporterFeedService";
+import {
+	formatAllocation,
+	normalizeAllocation,
+} from "../services/allocationService";
+import {
+	normalizeMilestones,
+	validateStretchTarget,
+} from "../services/milestoneService";
 interface AuthRequest extends Omit<Request, "user"> {
 	user?: IUser;
 }
 
-// Helper function to calculate campaign totals with separate money and item tracking
+// Helper function to calculate campaign totals with separate money and item
+// tracking. Money comes from the funds ledger.
 const calculateCampaignTotals = async (campaignId: string) => {
 	try {
 		// Get all donations for causes in this campaign
@@ -20,6 +33,8 @@ const calculateCampaignTotals = async (campaignId: string) => {
 		if (!campaign) {
 			return {
 				totalRaisedAmount: 0,
+				donorRaisedAmount: 0,
+				totalMatchedAmount: 0,
 				totalItemDonations: 0,
 				totalSupporters: 0,
 			};
@@ -27,29 +42,14 @@ const calculateCampaignTotals = async (campaignId: string) => {
 
 		const causeIds = campaign.causes.map((cause: any) => cause._id);
 
-		// Calculate money donations
-		const moneyResult = await Donation.aggregate([
-			{
-				$match: {
-					cause: { $in: causeIds },
-					status: { $in: ["APPROVED", "RECEIVED", "CONFIRMED"] },
-					type: "MONEY",
-				},
-			},
-			{
-				$group: {
-					_id: null,
-					totalRaisedAmount: { $sum: "$amount" },
-				},
-			},
-		]);
-
 		// Calculate item donations
 		const itemResult = await Donation.aggregate([
 			{
 				$match: {
 					cause: { $in: causeIds },
-					status: { $in: ["APPROVED", "RECEIVED", "CONFIRMED"] },
+					status: {
+						$in: ["APPROVED", "RECEIVED", "CONFIRMED", "PARTIALLY_REFUNDED"],
+					},
 					type: { $ne: "MONEY" },
 				},
 			},
@@ -64,18 +64,29 @@ const calculateCampaignTotals = async (campaignId: string) => {
 		// Calculate unique supporters (both money and items)
 		const uniqueDonors = await Donation.distinct("donor", {
 			cause: { $in: causeIds },
-			status: { $in: ["APPROVED", "RECEIVED", "CONFIRMED"] },
+			status: {
+				$in: ["APPROVED", "RECEIVED", "CONFIRMED", "PARTIALLY_REFUNDED"],
+			},
 		});
 
+		const balance = await getLedgerBalance("campaign", campaignId);
+
 		return {
-			totalRaisedAmount:
-				moneyResult.length > 0 ? moneyResult[0].totalRaisedAmount || 0 : 0,
+			totalRaisedAmount: balance.raised,
+			donorRaisedAmount: balance.donorRaised,
+			totalMatchedAmount: balance.matches,
 			totalItemDonations:
 				itemResult.length > 0 ? itemResult[0].totalItemDonations || 0 : 0,
 			totalSupporters: uniqueDonors.length,
 		};
 	} catch (error) {
-		return { totalRaisedAmount: 0, totalItemDonations: 0, totalSupporters: 0 };
+		return {
+			totalRaisedAmount: 0,
+			donorRaisedAmount: 0,
+			totalMatchedAmount: 0,
+			totalItemDonations: 0,
+			totalSupporters: 0,
+		};
 	}
 };
 
@@ -83,9 +94,14 @@ const calculateCampaignTotals = async (campaignId: string) => {
 const formatCampaignResponse = async (
 	campaign: ICampaign & { _id: mongoose.Types.ObjectId }
 ) => {
-	// Calculate real-time totals from donations with separate tracking
-	const { totalRaisedAmount, totalItemDonations, totalSupporters } =
-		await calculateCampaignTotals(campaign._id.toString());
+	// Calculate real-time totals with separate tracking
+	const {
+		totalRaisedAmount,
+		donorRaisedAmount,
+		totalMatchedAmount,
+		totalItemDonations,
+		totalSupporters,
+	} = await calculateCampaignTotals(campaign._id.toString());
 
 	// Extract organization info from the first organization (assuming single org per campaign for now)
 	const firstOrg =
@@ -100,6 +116,7 @@ const formatCampaignResponse = async (
 		startDate: campaign.startDate.toISOString(),
 		endDate: campaign.endDate.toISOString(),
 		status: campaign.status,
+		autoActivate: campaign.autoActivate,
 		causes: campaign.causes, // Populated by Mongoose
 		organizationId: firstOrg
 			? (firstOrg._id || firstOrg.id || firstOrg).toString()
@@ -109,7 +126,14 @@ const formatCampaignResponse = async (
 				? (firstOrg as any).name || "Unknown Organization"
 				: "Unknown Organization",
 		totalTargetAmount: campaign.totalTargetAmount,
-		totalRaisedAmount: totalRaisedAmount, // Money raised
+		milestones: campaign.milestones || [],
+		stretchTarget: campaign.stretchTarget ?? null,
+		stretchReachedAt: campaign.stretchReachedAt ?? null,
+		totalRaisedAmount, // Money raised, including sponsor matches
+		donorRaisedAmount,
+		totalMatchedAmount,
+		matchingPools: formatMatchingPools(campaign.matchingPools),
+		allocation: formatAllocation(campaign.allocation),
 		totalItemDonations: totalItemDonations, // Items donated
 		donorCount: totalSupporters, // Total unique donors
 		imageUrl: campaign.imageUrl,
@@ -205,6 +229,40 @@ export const getCampaigns = catchAsync(async (req: Request, res: Response) => {
 	});
 });
 
+// Public feed of recent supporters across a campaign's causes
+export const getCampaignSupporters = catchAsync(
+	async (req: Request, res: Response) => {
+		const { campaignId } = req.params;
+
+		if (!mongoose.Types.ObjectId.isValid(campaignId)) {
+			throw new AppError("Invalid campaign ID", 400);
+		}
+
+		const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+		const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+		const campaign = await Campaign.findById(campaignId).select("causes");
+		if (!campaign) {
+			throw new AppError("Campaign not found", 404);
+		}
+
+		const { supporters, total } = await getRecentSupporters(campaign.causes, {
+			page,
+			limit,
+		});
+
+		res.status(200).json({
+			success: true,
+			data: supporters,
+			pagination: {
+				total,
+				page,
+				pages: Math.ceil(total / limit),
+			},
+		});
+	}
+);
+
 // Get a single campaign by ID
 export const getCampaignById = catchAsync(
 	async (req: Request, res: Response) => {
@@ -299,6 +357,8 @@ export const createCampaign = catchAsync(
 			imageUrl,
 			status,
 			organizations,
+			autoActivate,
+			milestones,
 		} = req.body;
 
 		if (
@@ -368,6 +428,11 @@ export const createCampaign = catchAsync(
 			totalTargetAmount,
 			imageUrl: imageUrl || "https://placehold.co/600x400?text=Campaign",
 			status: status || "draft",
+			autoActivate: Boolean(autoActivate),
+			...(milestones !== undefined && {
+				milestones: normalizeMilestones(milestones),
+			}),
+			activatedAt: status === "active" ? new Date() : undefined,
 			// totalRaisedAmount and totalSupporters removed - calculated dynamically
 		});
 
@@ -417,6 +482,9 @@ export const updateCampaign = catchAsync(
 			acceptedDonationTypes,
 			status,
 			causes,
+			autoActivate,
+			milestones,
+			stretchTarget,
 		} = req.body;
 
 		if (startDate && endDate && new Date(startDate) >= new Date(endDate)) {
@@ -491,7 +559,33 @@ export const updateCampaign = catchAsync(
 				acceptedDonationTypes || campaign.acceptedDonationTypes,
 			status: status || campaign.status,
 			causes: causes || campaign.causes,
+			autoActivate:
+				autoActivate !== undefined
+					? Boolean(autoActivate)
+					: campaign.autoActivate,
 		});
+		if (milestones !== undefined) {
+			campaign.milestones = normalizeMilestones(
+				milestones,
+				campaign.milestones
+			);
+		}
+		if (stretchTarget !== undefined) {
+			campaign.stretchTarget = validateStretchTarget(
+				stretchTarget,
+				campaign.totalTargetAmount,
+				(await getLedgerBalance("campaign", campaign._id)).raised
+			);
+			campaign.stretchReachedAt = undefined;
+		}
+		if (campaign.isModified("status")) {
+			if (campaign.status === "active" && !campaign.activatedAt) {
+				campaign.activatedAt = new Date();
+			}
+			if (campaign.status === "completed") {
+				campaign.completedAt = new Date();
+			}
+		}
 
 		await campaign.save();
 
@@ -720,13 +814,22 @@ export const getCampaignDetailsWithDonations = catchAsync(
 		// Get all donations for this campaign
 		const campaignDonations = await Donation.find({
 			campaign: campaignId,
-			status: { $in: ["APPROVED", "RECEIVED", "CONFIRMED"] }, // Only count confirmed donations
+			status: {
+				$in: ["APPROVED", "RECEIVED", "CONFIRMED", "PARTIALLY_REFUNDED"],
+			}, // Only count confirmed donations
 		}).populate("donor", "name email");
 
-		// Calculate campaign-level statistics
-		const totalRaisedAmount = campaignDonations
-			.filter((donation) => donation.type === DonationType.MONEY)
-			.reduce((sum, donation) => sum + (donation.amount || 0), 0);
+		// Calculate campaign-level statistics; money comes from the funds ledger
+		const [campaignBalance, causeBalances] = await Promise.all([
+			getLedgerBalance("campaign", campaignId),
+			getLedgerBalances(
+				"cause",
+				campaign.causes.map((cause: any) => cause._id)
+			),
+		]);
+		const donorRaisedAmount = campaignBalance.donorRaised;
+		const totalMatchedAmount = campaignBalance.matches;
+		const totalRaisedAmount = campaignBalance.raised;
 
 		const uniqueDonors = new Set(
 			campaignDonations.map((d) => d.donor.toString())
@@ -739,13 +842,14 @@ export const getCampaignDetailsWithDonations = catchAsync(
 				// Get donations for this specific cause
 				const causeDonations = await Donation.find({
 					cause: cause._id,
-					status: { $in: ["APPROVED", "RECEIVED", "CONFIRMED"] },
+					status: {
+						$in: ["APPROVED", "RECEIVED", "CONFIRMED", "PARTIALLY_REFUNDED"],
+					},
 				}).populate("donor", "name email");
 
-				// Calculate raised amount for this cause
-				const causeRaisedAmount = causeDonations
-					.filter((donation) => donation.type === DonationType.MONEY)
-					.reduce((sum, donation) => sum + (donation.amount || 0), 0);
+				// Raised amount for this cause
+				const causeRaisedAmount =
+					causeBalances.get(cause._id.toString())?.raised || 0;
 
 				// Calculate progress percentage
 				const progressPercentage =
@@ -780,9 +884,10 @@ export const getCampaignDetailsWithDonations = catchAsync(
 						.slice(0, 5) // Get 5 most recent donations
 						.map((donation) => ({
 							id: donation._id,
-							donor: donation.donor,
+							donor: donation.isAnonymous ? null : donation.donor,
 							type: donation.type,
-							amount: donation.amount,
+							amount: donation.hideAmount ? null : donation.amount,
+							isAnonymous: donation.isAnonymous,
 							description: donation.description,
 							status: donation.status,
 							createdAt: donation.createdAt,
@@ -811,9 +916,10 @@ export const getCampaignDetailsWithDonations = catchAsync(
 			.slice(0, 10)
 			.map((donation) => ({
 				id: donation._id,
-				donor: donation.donor,
+				donor: donation.isAnonymous ? null : donation.donor,
 				type: donation.type,
-				amount: donation.amount,
+				amount: donation.hideAmount ? null : donation.amount,
+				isAnonymous: donation.isAnonymous,
 				description: donation.description,
 				status: donation.status,
 				createdAt: donation.createdAt,
@@ -837,6 +943,9 @@ export const getCampaignDetailsWithDonations = catchAsync(
 			campaign: {
 				...campaign.toObject(),
 				totalRaisedAmount,
+				donorRaisedAmount,
+				totalMatchedAmount,
+				matchingPools: formatMatchingPools(campaign.matchingPools),
 				donorCount,
 				progressPercentage: Math.round(campaignProgress * 10) / 10,
 				daysRemaining,
@@ -854,9 +963,9 @@ export const getCampaignDetailsWithDonations = catchAsync(
 				averageDonationAmount:
 					campaignDonations.filter((d) => d.type === DonationType.MONEY)
 						.length > 0
-						? totalRaisedAmount /
-						campaignDonations.filter((d) => d.type === DonationType.MONEY)
-							.length
+						? donorRaisedAmount /
+							campaignDonations.filter((d) => d.type === DonationType.MONEY)
+								.length
 						: 0,
 				causesWithProgress: causesWithStats.filter(
 					(cause) => cause.progressPercentage > 0
@@ -874,3 +983,229 @@ export const getCampaignDetailsWithDonations = catchAsync(
 		});
 	}
 );
+
+// Organization profile of the authenticated organization user; campaigns
+// list their hosts by organization ID, not user ID
+const getOwnOrganization = async (req: AuthRequest) => {
+	const organization = await Organization.findOne({ userId: req.user!._id });
+	if (!organization) {
+		throw new AppError("Organization not found for the logged-in user", 404);
+	}
+	return organization;
+};
+
+// Check that the authenticated organization runs this campaign
+const assertCampaignManager = async (campaign: ICampaign, req: AuthRequest) => {
+	const organization = await getOwnOrganization(req);
+	if (!campaign.organizations.some((orgId) => organization._id.equals(orgId))) {
+		throw new AppError(
+			"Unauthorized: You do not have permission to modify this campaign",
+			403
+		);
+	}
+};
+
+// The first listed organization created the campaign and is its primary host
+const assertCampaignPrimaryHost = async (
+	campaign: ICampaign,
+	req: AuthRequest
+) => {
+	const organization = await getOwnOrganization(req);
+	const primaryHost = campaign.organizations[0];
+	if (!primaryHost || !organization._id.equals(primaryHost)) {
+		throw new AppError(
+			"Unauthorized: Only the campaign's primary host can change how donations are shared",
+			403
+		);
+	}
+};
+
+// Validate eligible causes against the campaign's causes
+const parseEligibleCauses = (
+	campaign: ICampaign,
+	eligibleCauses: unknown
+): mongoose.Types.ObjectId[] => {
+	if (eligibleCauses === undefined || eligibleCauses === null) {
+		return [];
+	}
+	if (!Array.isArray(eligibleCauses)) {
+		throw new AppError("eligibleCauses must be an array", 400);
+	}
+
+	const campaignCauseIds = campaign.causes.map((cause: any) =>
+		(cause._id || cause).toString()
+	);
+	const invalid = eligibleCauses.filter(
+		(causeId) => !campaignCauseIds.includes(String(causeId))
+	);
+	if (invalid.length > 0) {
+		throw new AppError(
+			`Causes not part of this campaign: ${invalid.join(", ")}`,
+			400
+		);
+	}
+
+	return eligibleCauses.map(
+		(causeId) => new mongoose.Types.ObjectId(String(causeId))
+	);
+};
+
+// Attach a sponsor matching pool to a campaign
+export const addMatchingPool = catchAsync(
+	async (req: AuthRequest, res: Response) => {
+		if (!req.user || req.user.role !== "organization") {
+			throw new AppError(
+				"Unauthorized: Only organizations can modify campaigns",
+				403
+			);
+		}
+
+		const { campaignId } = req.params;
+		const campaign = await Campaign.findById(campaignId);
+		if (!campaign) {
+			throw new AppError("Campaign not found", 404);
+		}
+
+		await assertCampaignManager(campaign, req);
+
+		const { sponsorName, sponsorEmail, ratio, cap, eligibleCauses, expiresAt } =
+			req.body;
+
+		if (!sponsorName || cap === undefined || !expiresAt) {
+			throw new AppError("sponsorName, cap and expiresAt are required", 400);
+		}
+
+		if (typeof cap !== "number" || cap <= 0) {
+			throw new AppError("Match cap must be a positive number", 400);
+		}
+
+		if (ratio !== undefined && (typeof ratio !== "number" || ratio <= 0)) {
+			throw new AppError("Match ratio must be a positive number", 400);
+		}
+
+		const expiry = new Date(expiresAt);
+		if (isNaN(expiry.getTime())) {
+			throw new AppError("Invalid expiry date", 400);
+		}
+		if (expiry <= new Date()) {
+			throw new AppError("Expiry date must be in the future", 400);
+		}
+
+		campaign.matchingPools.push({
+			sponsorName,
+			sponsorEmail,
+			ratio: ratio ?? 1,
+			cap,
+			matchedAmount: 0,
+			eligibleCauses: parseEligibleCauses(campaign, eligibleCauses),
+			expiresAt: expiry,
+			status: "active",
+			draws: [],
+		});
+		await campaign.save();
+
+		res.status(201).json({
+			success: true,
+			data: formatMatchingPools(campaign.matchingPools).pop(),
+		});
+	}
+);
+
+// Update, pause or cancel a sponsor matching pool
+export const updateMatchingPool = catchAsync(
+	async (req: AuthRequest, res: Response) => {
+		if (!req.user || req.user.role !== "organization") {
+			throw new AppError(
+				"Unauthorized: Only organizations can modify campaigns",
+				403
+			);
+		}
+
+		const { campaignId, poolId } = req.params;
+		const campaign = await Campaign.findById(campaignId);
+		if (!campaign) {
+			throw new AppError("Campaign not found", 404);
+		}
+
+		await assertCampaignManager(campaign, req);
+
+		const pool = campaign.matchingPools.find(
+			(candidate) => candidate._id?.toString() === poolId
+		);
+		if (!pool) {
+			throw new AppError("Matching pool not found", 404);
+		}
+
+		if (pool.status === "cancelled") {
+			throw new AppError("Cancelled matching pools cannot be changed", 400);
+		}
+
+		const { cap, expiresAt, status, eligibleCauses } = req.body;
+
+		if (cap !== undefined) {
+			if (typeof cap !== "number" || cap < pool.matchedAmount) {
+				throw new AppError(
+					"Match cap cannot be lower than the amount already matched",
+					400
+				);
+			}
+			pool.cap = cap;
+		}
+
+		if (expiresAt !== undefined) {
+			const expiry = new Date(expiresAt);
+			if (isNaN(expiry.getTime())) {
+				throw new AppError("Invalid expiry date", 400);
+			}
+			pool.expiresAt = expiry;
+		}
+
+		if (status !== undefined) {
+			if (!["active", "paused", "cancelled"].includes(status)) {
+				throw new AppError("Invalid matching pool status", 400);
+			}
+			pool.status = status;
+		}
+
+		if (eligibleCauses !== undefined) {
+			pool.eligibleCauses = parseEligibleCauses(campaign, eligibleCauses);
+		}
+
+		await campaign.save();
+
+		res.status(200).json({
+			success: true,
+			data: formatMatchingPools([pool])[0],
+		});
+	}
+);
+
+// Set how money given to the campaign is shared between its co-hosts. Applies
+// to donations that settle from now on.
+export const updateCampaignAllocation = catchAsync(
+	async (req: AuthRequest, res: Response) => {
+		if (!req.user || req.user.role !== "organization") {
+			throw new AppError(
+				"Unauthorized: Only organizations can modify campaigns",
+				403
+			);
+		}
+
+		const { campaignId } = req.params;
+		const campaign = await Campaign.findById(campaignId);
+		if (!campaign) {
+			throw new AppError("Campaign not found", 404);
+		}
+
+		// A co-host must not be able to route the others' share to itself
+		await assertCampaignPrimaryHost(campaign, req);
+
+		campaign.allocation = normalizeAllocation(campaign, req.body);
+		await campaign.save();
+
+		res.status(200).json({
+			success: true,
+			data: formatAllocation(campaign.allocation),
+		});
+	}
+);
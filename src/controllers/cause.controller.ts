@@ -7,6 +7,21 @@ import Organization from "../models/organization.model";
 import { catchAsync } from "../utils/catchAsync";
 import { AppError } from "../utils/appError";
 import { AuthRequest, AuthUser } from "../types";
+import { getRecentSupporters } from "../services/supporterFeedService";
+import { getLedgerBalance } from "../services/ledgerService";
+import {
+	normalizeMilestones,
+	validateStretchTarget,
+} from "../services/milestoneService";
+import {
+	getBaseCurrency,
+	getCurrencyBreakdown,
+} from "../services/currencyService";
+import {
+	formatNeeds,
+	normalizeNeeds,
+	unmetNeedsFilter,
+} from "../services/causeNeedService";
 
 // Extended Request interface with user property
 interface RequestWithUser extends Request {
@@ -53,26 +68,11 @@ const mapDonationItemToType = (item: string): string => {
 	}
 };
 
-// Helper function to calculate raised amount for a cause (money only)
+// Helper function to get the raised amount for a cause (money only), derived
+// from the funds ledger: donor gifts net of refunds plus sponsor matches
 const calculateRaisedAmount = async (causeId: string): Promise<number> => {
 	try {
-		const result = await Donation.aggregate([
-			{
-				$match: {
-					cause: new mongoose.Types.ObjectId(causeId),
-					status: { $in: ["APPROVED", "RECEIVED", "CONFIRMED"] },
-					type: "MONEY",
-				},
-			},
-			{
-				$group: {
-					_id: null,
-					totalAmount: { $sum: "$amount" },
-				},
-			},
-		]);
-
-		return result.length > 0 ? result[0].totalAmount || 0 : 0;
+		return (await getLedgerBalance("cause", causeId)).raised;
 	} catch (error) {
 		return 0;
 	}
@@ -85,7 +85,9 @@ const calculateItemDonations = async (causeId: string): Promise<number> => {
 			{
 				$match: {
 					cause: new mongoose.Types.ObjectId(causeId),
-					status: { $in: ["APPROVED", "RECEIVED", "CONFIRMED"] },
+					status: {
+						$in: ["APPROVED", "RECEIVED", "CONFIRMED", "PARTIALLY_REFUNDED"],
+					},
 					type: { $ne: "MONEY" }, // Count all non-monetary donations
 				},
 			},
@@ -109,7 +111,9 @@ const calculateDonorCount = async (causeId: string): Promise<number> => {
 	try {
 		const uniqueDonors = await Donation.distinct("donor", {
 			cause: new mongoose.Types.ObjectId(causeId),
-			status: { $in: ["APPROVED", "RECEIVED", "CONFIRMED"] },
+			status: {
+				$in: ["APPROVED", "RECEIVED", "CONFIRMED", "PARTIALLY_REFUNDED"],
+			},
 		});
 
 		return uniqueDonors.length;
@@ -132,7 +136,11 @@ const formatCauseResponse = async (cause: any) => {
 		title: cause.title,
 		description: cause.description,
 		targetAmount: cause.targetAmount,
-		raisedAmount: raisedAmount, // Money raised
+		raisedAmount: raisedAmount, // Money raised, in the base currency
+		milestones: cause.milestones || [],
+		stretchTarget: cause.stretchTarget ?? null,
+		stretchReachedAt: cause.stretchReachedAt ?? null,
+		currency: getBaseCurrency(),
 		itemDonations: itemDonations, // Number of items donated
 		donorCount: donorCount, // Total unique donors
 		imageUrl: cause.imageUrl,
@@ -145,6 +153,7 @@ const formatCauseResponse = async (cause: any) => {
 		organizationUserId: cause.organizationId?.userId?.toString() || "", // Include organization's userId for messaging
 		acceptanceType: cause.acceptanceType || "money",
 		donationItems: cause.donationItems || [],
+		needs: formatNeeds(cause.needs),
 		acceptedDonationTypes: cause.acceptedDonationTypes || ["MONEY"],
 		createdAt: cause.createdAt.toISOString(),
 		updatedAt: cause.updatedAt.toISOString(),
@@ -159,6 +168,8 @@ export const getCauses = catchAsync(async (req: Request, res: Response) => {
 	const tag = req.query.tag as string;
 	const donationType = req.query.donationType as string;
 	const acceptanceType = req.query.acceptanceType as string;
+	const unmetNeeds = req.query.unmetNeeds === "true";
+	const needType = req.query.needType as string;
 
 	const query: any = {};
 
@@ -191,6 +202,14 @@ export const getCauses = catchAsync(async (req: Request, res: Response) => {
 		query.acceptanceType = acceptanceType;
 	}
 
+	// Causes still short on at least one item need, optionally of one type
+	if (unmetNeeds || needType) {
+		Object.assign(
+			query,
+			unmetNeedsFilter(needType ? needType.toUpperCase() : undefined)
+		);
+	}
+
 	const skip = (page - 1) * limit;
 
 	const [causes, total] = await Promise.all([
@@ -234,16 +253,58 @@ export const getCauseById = catchAsync(
 				throw new AppError("Cause not found", 404);
 			}
 
-			const formattedCause = await formatCauseResponse(cause);
+			const [formattedCause, raisedByCurrency] = await Promise.all([
+				formatCauseResponse(cause),
+				getCurrencyBreakdown({
+					cause: cause._id,
+					status: {
+						$in: ["APPROVED", "RECEIVED", "CONFIRMED", "PARTIALLY_REFUNDED"],
+					},
+					type: "MONEY",
+				}),
+			]);
 
 			res.status(200).json({
-				cause: formattedCause,
+				cause: { ...formattedCause, raisedByCurrency },
 			});
 		} catch (error) {
 			throw error;
 		}
 	}
 );
+// Public feed of recent supporters for a cause
+export const getCauseSupporters = catchAsync(
+	async (req: Request, res: Response) => {
+		const causeId = req.params.id;
+
+		if (!mongoose.Types.ObjectId.isValid(causeId)) {
+			throw new AppError("Invalid cause ID", 400);
+		}
+
+		const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+		const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+		const cause = await Cause.exists({ _id: causeId });
+		if (!cause) {
+			throw new AppError("Cause not found", 404);
+		}
+
+		const { supporters, total } = await getRecentSupporters(
+			[new mongoose.Types.ObjectId(causeId)],
+			{ page, limit }
+		);
+
+		res.status(200).json({
+			supporters,
+			pagination: {
+				total,
+				page,
+				pages: Math.ceil(total / limit),
+			},
+		});
+	}
+);
+
 // Create a new cause (organization only)
 
 export const createCause = catchAsync(
@@ -261,6 +322,8 @@ export const createCause = catchAsync(
 			acceptanceType,
 			donationItems,
 			acceptedDonationTypes,
+			milestones,
+			needs,
 		} = req.body;
 
 		// Validate required fields
@@ -281,9 +344,15 @@ export const createCause = catchAsync(
 			throw new AppError("Target amount cannot be negative", 400);
 		}
 
+		const finalNeeds =
+			needs !== undefined && finalAcceptanceType !== "money"
+				? normalizeNeeds(needs)
+				: [];
+
 		if (
 			(finalAcceptanceType === "items" || finalAcceptanceType === "both") &&
-			(!donationItems || donationItems.length === 0)
+			(!donationItems || donationItems.length === 0) &&
+			finalNeeds.length === 0
 		) {
 			throw new AppError(
 				"At least one donation item must be selected for item-based causes",
@@ -313,11 +382,15 @@ export const createCause = catchAsync(
 								),
 							]
 						: acceptedDonationTypes;
-			} else if (finalDonationItems.length > 0) {
-				// If no acceptedDonationTypes provided but donationItems exist, infer types
-				const inferredTypes = finalDonationItems.map((item: string) =>
-					mapDonationItemToType(item)
-				);
+			} else if (finalDonationItems.length > 0 || finalNeeds.length > 0) {
+				// If no acceptedDonationTypes provided but donationItems or needs
+				// exist, infer types
+				const inferredTypes = [
+					...finalDonationItems.map((item: string) =>
+						mapDonationItemToType(item)
+					),
+					...finalNeeds.map((need) => need.itemType),
+				];
 
 				// Remove duplicates from inferred types
 				const uniqueInferredTypes = [...new Set(inferredTypes)];
@@ -339,7 +412,11 @@ export const createCause = catchAsync(
 			organizationId: organization._id,
 			acceptanceType: finalAcceptanceType,
 			donationItems: finalDonationItems,
+			needs: finalNeeds,
 			acceptedDonationTypes: finalAcceptedDonationTypes,
+			...(milestones !== undefined && {
+				milestones: normalizeMilestones(milestones),
+			}),
 		});
 
 		await cause.populate("organizationId", "name userId");
@@ -379,6 +456,9 @@ export const updateCause = catchAsync(
 			acceptanceType,
 			donationItems,
 			acceptedDonationTypes,
+			milestones,
+			stretchTarget,
+			needs,
 		} = req.body;
 
 		const cause = causeId;
@@ -455,6 +535,23 @@ export const updateCause = catchAsync(
 			}),
 		});
 
+		if (milestones !== undefined) {
+			cause.milestones = normalizeMilestones(milestones, cause.milestones);
+		}
+		if (cause.acceptanceType === "money") {
+			cause.needs = [];
+		} else if (needs !== undefined) {
+			cause.needs = normalizeNeeds(needs, cause.needs);
+		}
+		if (stretchTarget !== undefined) {
+			cause.stretchTarget = validateStretchTarget(
+				stretchTarget,
+				cause.targetAmount,
+				await calculateRaisedAmount(cause._id.toString())
+			);
+			cause.stretchReachedAt = undefined;
+		}
+
 		await cause.save();
 
 		await cause.populate("organizationId", "name userId");
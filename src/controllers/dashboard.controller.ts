@@ -8,10 +8,31 @@ import {
 	AuthRequest,
 	DashboardStatsResponse,
 	DonationStats,
+	FeeStats,
 	CampaignStats,
 	CauseStats,
 } from "../types/dashboard";
 import { DonationStatus, DonationType } from "../types";
+import {
+	getBaseCurrency,
+	getCurrencyBreakdown,
+} from "../services/currencyService";
+import { getLedgerBalance, getLedgerBalances } from "../services/ledgerService";
+
+// Donations that went through: paid money, including gifts later partly
+// refunded, and received items. Checkouts that are still pending, failed
+// or were abandoned are left out of totals.
+const SETTLED_STATUSES = [
+	DonationStatus.CONFIRMED,
+	DonationStatus.RECEIVED,
+	DonationStatus.PARTIALLY_REFUNDED,
+];
+
+// What a donation still amounts to after refunds
+const NET_AMOUNT = {
+	$subtract: ["$amount", { $ifNull: ["$refundedAmount", 0] }],
+};
+
 // Helper functions
 const calculateGrowthPercentage = (
 	current: number,
@@ -44,14 +65,14 @@ const getMonthlyDonationTrends = async (matchQuery: object) => {
 			$match: {
 				...matchQuery,
 				type: DonationType.MONEY,
-				status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+				status: { $in: SETTLED_STATUSES },
 				createdAt: { $gte: sixMonthsAgo },
 			},
 		},
 		{
 			$group: {
 				_id: { year: { $year: "$createdAt" }, month: { $month: "$createdAt" } },
-				amount: { $sum: "$amount" },
+				amount: { $sum: NET_AMOUNT },
 				count: { $sum: 1 },
 			},
 		},
@@ -64,7 +85,7 @@ const getDonationsByType = async (matchQuery: object) => {
 		{
 			$match: {
 				...matchQuery,
-				status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+				status: { $in: SETTLED_STATUSES },
 			},
 		},
 		{
@@ -73,7 +94,7 @@ const getDonationsByType = async (matchQuery: object) => {
 				count: { $sum: 1 },
 				totalAmount: {
 					$sum: {
-						$cond: [{ $eq: ["$type", DonationType.MONEY] }, "$amount", 0],
+						$cond: [{ $eq: ["$type", DonationType.MONEY] }, NET_AMOUNT, 0],
 					},
 				},
 			},
@@ -87,7 +108,7 @@ const getTopCauses = async (matchQuery: object) => {
 			$match: {
 				...matchQuery,
 				type: DonationType.MONEY,
-				status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+				status: { $in: SETTLED_STATUSES },
 			},
 		},
 		{
@@ -103,7 +124,7 @@ const getTopCauses = async (matchQuery: object) => {
 			$group: {
 				_id: "$cause",
 				causeName: { $first: "$causeInfo.title" },
-				totalAmount: { $sum: "$amount" },
+				totalAmount: { $sum: NET_AMOUNT },
 				donationCount: { $sum: 1 },
 			},
 		},
@@ -118,7 +139,7 @@ const getTopDonors = async (organizationId: mongoose.Types.ObjectId) => {
 			$match: {
 				organization: organizationId,
 				type: DonationType.MONEY,
-				status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+				status: { $in: SETTLED_STATUSES },
 			},
 		},
 		{
@@ -136,7 +157,7 @@ const getTopDonors = async (organizationId: mongoose.Types.ObjectId) => {
 				firstName: { $first: "$donorInfo.firstName" },
 				lastName: { $first: "$donorInfo.lastName" },
 				donorEmail: { $first: "$donorInfo.email" },
-				totalAmount: { $sum: "$amount" },
+				totalAmount: { $sum: NET_AMOUNT },
 				donationCount: { $sum: 1 },
 			},
 		},
@@ -271,10 +292,10 @@ export const getDonorDashboardStats = async (
 				$match: {
 					donor: donorId,
 					type: DonationType.MONEY,
-					status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+					status: { $in: SETTLED_STATUSES },
 				},
 			},
-			{ $group: { _id: null, total: { $sum: "$amount" } } },
+			{ $group: { _id: null, total: { $sum: NET_AMOUNT } } },
 		]);
 
 		// Calculate donation growth
@@ -289,26 +310,22 @@ export const getDonorDashboardStats = async (
 					$match: {
 						donor: donorId,
 						type: DonationType.MONEY,
-						status: {
-							$in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED],
-						},
+						status: { $in: SETTLED_STATUSES },
 						createdAt: { $gte: lastMonth },
 					},
 				},
-				{ $group: { _id: null, total: { $sum: "$amount" } } },
+				{ $group: { _id: null, total: { $sum: NET_AMOUNT } } },
 			]),
 			Donation.aggregate([
 				{
 					$match: {
 						donor: donorId,
 						type: DonationType.MONEY,
-						status: {
-							$in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED],
-						},
+						status: { $in: SETTLED_STATUSES },
 						createdAt: { $gte: twoMonthsAgo, $lt: lastMonth },
 					},
 				},
-				{ $group: { _id: null, total: { $sum: "$amount" } } },
+				{ $group: { _id: null, total: { $sum: NET_AMOUNT } } },
 			]),
 		]);
 
@@ -331,32 +348,38 @@ export const getDonorDashboardStats = async (
 		] = await Promise.all([
 			Donation.distinct("type", {
 				donor: donorId,
-				status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+				status: { $in: SETTLED_STATUSES },
 			}),
 			Donation.distinct("type", {
 				donor: donorId,
-				status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+				status: { $in: SETTLED_STATUSES },
 				createdAt: {
 					$gte: new Date(new Date().setMonth(new Date().getMonth() - 1)),
 				},
 			}),
 			Donation.distinct("organization", {
 				donor: donorId,
-				status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+				status: { $in: SETTLED_STATUSES },
 			}),
 			Donation.countDocuments({
 				donor: donorId,
-				status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+				status: { $in: SETTLED_STATUSES },
 			}),
 			getMonthlyDonationTrends({ donor: donorId }),
 			getDonationsByType({ donor: donorId }),
 			getTopCauses({ donor: donorId }),
 		]);
 
+		const donationsByCurrency = await getCurrencyBreakdown({
+			donor: donorId,
+			type: DonationType.MONEY,
+			status: { $in: SETTLED_STATUSES },
+		});
+
 		// Get recent activity
 		const recentActivity = await Donation.find({
 			donor: donorId,
-			status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+			status: { $in: SETTLED_STATUSES },
 		})
 			.sort({ createdAt: -1 })
 			.limit(5)
@@ -383,6 +406,8 @@ export const getDonorDashboardStats = async (
 					organizationsCount: organizationsSupported.length,
 					supportingOrganizations: organizationsSupported.length,
 					totalDonationCount: allDonationsCount,
+					baseCurrency: getBaseCurrency(),
+					donationsByCurrency,
 				},
 				charts: {
 					monthlyTrends: monthlyTrends.map((trend) => ({
@@ -405,6 +430,8 @@ export const getDonorDashboardStats = async (
 					id: activity._id.toString(),
 					type: "donation",
 					amount: activity.amount,
+					currency: activity.currency || getBaseCurrency(),
+					originalAmount: activity.originalAmount ?? activity.amount,
 					campaignName: activity.description,
 					timestamp: activity.createdAt,
 					organizationId: activity.organization?._id.toString() || "",
@@ -452,16 +479,23 @@ export const getOrganizationDashboardStats = async (
 			campaignPerformance,
 			recentDonations,
 			recentCampaigns,
+			donationsByCurrency,
+			feeStats,
 		] = await Promise.all([
 			// Donation stats
 			Donation.aggregate<DonationStats>([
-				{ $match: { organization: organizationId } },
+				{
+					$match: {
+						organization: organizationId,
+						status: { $in: SETTLED_STATUSES },
+					},
+				},
 				{
 					$group: {
 						_id: null,
-						totalAmount: { $sum: "$amount" },
+						totalAmount: { $sum: NET_AMOUNT },
 						totalDonations: { $sum: 1 },
-						averageDonation: { $avg: "$amount" },
+						averageDonation: { $avg: NET_AMOUNT },
 					},
 				},
 				{
@@ -593,16 +627,87 @@ export const getOrganizationDashboardStats = async (
 				.populate("organizations", "name logo")
 				.populate("causes", "title")
 				.lean(),
+			// Money received per donor currency
+			getCurrencyBreakdown({
+				organization: organizationId,
+				type: DonationType.MONEY,
+				status: { $in: SETTLED_STATUSES },
+			}),
+			// Fees taken from settled monetary donations
+			Donation.aggregate<FeeStats>([
+				{
+					$match: {
+						organization: organizationId,
+						type: DonationType.MONEY,
+						status: {
+							$in: [
+								DonationStatus.CONFIRMED,
+								DonationStatus.PARTIALLY_REFUNDED,
+							],
+						},
+						"fees.grossAmount": { $exists: true },
+					},
+				},
+				{
+					$group: {
+						_id: null,
+						grossAmount: { $sum: "$fees.grossAmount" },
+						processingFees: { $sum: "$fees.processingFee" },
+						platformFees: { $sum: "$fees.platformFee" },
+						netAmount: { $sum: "$fees.netAmount" },
+						coveredByDonorCount: {
+							$sum: { $cond: ["$fees.coveredByDonor", 1, 0] },
+						},
+					},
+				},
+				{ $project: { _id: 0 } },
+			]),
 		]);
 
+		// Money raised comes from the funds ledger rather than stored totals.
+		// Co-hosted campaigns also report this organization's allocated share.
+		const campaignIds = campaignPerformance.map((campaign) => campaign._id);
+		const [fundsBalance, campaignBalances, allocatedBalances] =
+			await Promise.all([
+				getLedgerBalance("organization", organizationId),
+				getLedgerBalances("campaign", campaignIds),
+				getLedgerBalances("campaign", campaignIds, {
+					organization: organizationId,
+				}),
+			]);
+		const causeTotals = causeStats[0] || {
+			totalCauses: 0,
+			totalTargetAmount: 0,
+			totalRaisedAmount: 0,
+			achievementRate: 0,
+		};
+		causeTotals.totalRaisedAmount = fundsBalance.raised;
+		causeTotals.achievementRate =
+			causeTotals.totalTargetAmount > 0
+				? Math.round(
+						(fundsBalance.raised / causeTotals.totalTargetAmount) * 1000
+					) / 10
+				: 0;
+
 		return res.status(200).json({
 			success: true,
 			data: {
 				stats: {
-					donations: donationStats[0] || {
-						totalAmount: 0,
-						totalDonations: 0,
-						averageDonation: 0,
+					donations: {
+						...(donationStats[0] || {
+							totalAmount: 0,
+							totalDonations: 0,
+							averageDonation: 0,
+						}),
+						baseCurrency: getBaseCurrency(),
+						byCurrency: donationsByCurrency,
+						fees: feeStats[0] || {
+							grossAmount: 0,
+							processingFees: 0,
+							platformFees: 0,
+							netAmount: 0,
+							coveredByDonorCount: 0,
+						},
 					},
 					campaigns: campaignStats[0] || {
 						totalCampaigns: 0,
@@ -614,12 +719,8 @@ export const getOrganizationDashboardStats = async (
 						avgSupporters: 0,
 						achievementRate: 0,
 					},
-					causes: causeStats[0] || {
-						totalCauses: 0,
-						totalTargetAmount: 0,
-						totalRaisedAmount: 0,
-						achievementRate: 0,
-					},
+					causes: causeTotals,
+					funds: fundsBalance,
 				},
 				charts: {
 					monthlyTrends: monthlyDonationTrends.map((trend) => ({
@@ -644,7 +745,10 @@ export const getOrganizationDashboardStats = async (
 						imageUrl: campaign.imageUrl,
 						status: campaign.status,
 						targetAmount: campaign.totalTargetAmount,
-						raisedAmount: campaign.totalRaisedAmount,
+						raisedAmount:
+							campaignBalances.get(campaign._id.toString())?.raised || 0,
+						allocatedAmount:
+							allocatedBalances.get(campaign._id.toString())?.raised || 0,
 						supporters: campaign.totalSupporters,
 						achievementRate: campaign.achievementRate,
 						daysRemaining: campaign.daysRemaining,
@@ -659,6 +763,9 @@ export const getOrganizationDashboardStats = async (
 						id: donation._id.toString(),
 						type: "donation",
 						amount: donation.amount,
+						currency: donation.currency || getBaseCurrency(),
+						originalAmount: donation.originalAmount ?? donation.amount,
+						netAmount: donation.fees?.netAmount ?? donation.amount,
 						campaignName:
 							donation.campaign &&
 							typeof donation.campaign === "object" &&
@@ -1,11 +1,69 @@
 import { Request, Response } from "express";
 import mongoose from "mongoose";
-import Donation from "../models/donation.model";
+import Donation, { IDonationLineItem } from "../models/donation.model";
 import Organization from "../models/organization.model";
+import DonorProfile from "../models/donor.model";
 import { sendEmail } from "../utils/email";
-import { generateDonationReceipt } from "../utils/pdfGenerator";
+import {
+	generateDonationReceipt,
+	generatePickupRunSheet,
+} from "../utils/pdfGenerator";
 import { IUser } from "../types";
 import { DonationStatus, DonationType } from "../types";
+import {
+	DonationTransitionError,
+	toDonationActorRole,
+	transitionDonation,
+} from "../services/donationLifecycleService";
+import {
+	assertPickupSlotAvailable,
+	bookPickupSlot,
+} from "../services/pickupAvailabilityService";
+import { AppError } from "../utils/appError";
+import { buildPickupRunSheet } from "../services/pickupRunService";
+import {
+	convertToBase,
+	getBaseCurrency,
+	getCurrencyBreakdown,
+	normalizeCurrency,
+} from "../services/currencyService";
+import { calculateFees } from "../services/feeService";
+import {
+	ANONYMOUS_DONOR_NAME,
+	getDonorNameForOrganization,
+} from "../services/supporterFeedService";
+import {
+	LineItemReview,
+	applyLineItemReviews,
+	buildLineItems,
+	parseJsonArray,
+	summarizeLineItems,
+} from "../services/donationLineItemService";
+import { recordReceivedNeeds } from "../services/causeNeedService";
+
+// Answer a rejected lifecycle move with its own status code; returns false
+// for any other error so the caller can handle it
+const sendTransitionError = (res: Response, error: unknown): boolean => {
+	if (!(error instanceof DonationTransitionError)) {
+		return false;
+	}
+	res.status(error.statusCode).json({
+		success: false,
+		message: error.message,
+		code: error.code,
+	});
+	return true;
+};
+
+// Count received items toward the cause's needs; a failure here must not
+// undo the status change that has already been saved
+const countReceivedNeeds = async (donation: any) => {
+	try {
+		await recordReceivedNeeds(donation);
+	} catch (error) {
+		console.error(" Failed to update cause needs:", error);
+	}
+};
 
 export const createDonation = async (req: Request, res: Response) => {
 	try {
@@ -20,8 +78,6 @@ export const createDonation = async (req: Request, res: Response) => {
 			type,
 			amount,
 			description,
-			quantity,
-			unit,
 			scheduledDate,
 			scheduledTime,
 			pickupAddress,
@@ -30,6 +86,9 @@ export const createDonation = async (req: Request, res: Response) => {
 			contactPhone,
 			contactEmail,
 			notes,
+			isAnonymous,
+			hideAmount,
+			currency,
 		} = req.body;
 
 		// Validate that the organization exists and get the organization document
@@ -41,18 +100,37 @@ export const createDonation = async (req: Request, res: Response) => {
 			});
 		}
 
+		const isMoney = type === DonationType.MONEY;
+
+		// Item donations carry one or more line items
+		const lineItems = isMoney ? [] : buildLineItems(req.body);
+		const itemSummary = isMoney ? null : summarizeLineItems(lineItems);
+
+		// Money is stored in the base currency alongside what the donor gave
+		const donationCurrency = isMoney ? normalizeCurrency(currency) : undefined;
+		const conversion = isMoney
+			? convertToBase(Number(amount) || 0, donationCurrency)
+			: null;
+
 		// Create new donation
 		const donation = new Donation({
 			donor: req.user._id,
 			organization: organizationDoc._id, // Use the Organization document ID
 			campaign,
 			cause,
-			type,
+			type: isMoney ? DonationType.MONEY : itemSummary.type,
 			status: DonationStatus.PENDING,
-			amount: type === DonationType.MONEY ? amount : undefined,
+			amount: isMoney ? conversion.baseAmount : undefined,
+			currency: donationCurrency,
+			originalAmount: isMoney ? amount : undefined,
+			fxRate: conversion?.fxRate,
+			fees: isMoney
+				? calculateFees(Number(amount) || 0, donationCurrency)
+				: undefined,
 			description,
-			quantity: type !== DonationType.MONEY ? quantity : undefined,
-			unit: type !== DonationType.MONEY ? unit : undefined,
+			quantity: isMoney ? undefined : itemSummary.quantity,
+			unit: isMoney ? undefined : itemSummary.unit,
+			lineItems,
 			scheduledDate: type !== DonationType.MONEY ? scheduledDate : undefined,
 			scheduledTime: type !== DonationType.MONEY ? scheduledTime : undefined,
 			pickupAddress: type !== DonationType.MONEY ? pickupAddress : undefined,
@@ -61,9 +139,30 @@ export const createDonation = async (req: Request, res: Response) => {
 			contactPhone,
 			contactEmail,
 			notes,
+			isAnonymous: Boolean(isAnonymous),
+			hideAmount: Boolean(hideAmount),
+			statusHistory: [
+				{
+					to: DonationStatus.PENDING,
+					changedBy: req.user._id,
+					role: "donor",
+					changedAt: new Date(),
+				},
+			],
 		});
 
-		await donation.save();
+		// Item donations must land in one of the organization's open slots
+		if (isMoney) {
+			await donation.save();
+		} else {
+			await bookPickupSlot(
+				organizationDoc,
+				scheduledDate,
+				scheduledTime,
+				Boolean(isPickup),
+				() => donation.save()
+			);
+		}
 
 		const populatedDonation = await Donation.findById(donation._id)
 			.populate<{ donor: IUser }>("donor", "name email")
@@ -84,8 +183,11 @@ export const createDonation = async (req: Request, res: Response) => {
 					).notificationService.createDonationReceivedNotification(
 						orgDoc.userId.toString(),
 						{
-							donorName: populatedDonation.donor?.name || "Anonymous Donor",
-							amount: type === DonationType.MONEY ? amount || 0 : 0,
+							donorName: getDonorNameForOrganization(
+								donation,
+								populatedDonation.donor?.name || ANONYMOUS_DONOR_NAME
+							),
+							amount: isMoney ? conversion.baseAmount : 0,
 							cause:
 								(populatedDonation.cause as any)?.title || "your organization",
 							donationId: donation._id.toString(),
@@ -108,8 +210,8 @@ export const createDonation = async (req: Request, res: Response) => {
 					donation._id.toString(),
 					DonationStatus.PENDING,
 					amount,
-					quantity,
-					unit
+					donation.quantity,
+					donation.unit
 				);
 				orgEmailStatus = "Email sent successfully to organization";
 			} catch (emailError) {
@@ -124,6 +226,12 @@ export const createDonation = async (req: Request, res: Response) => {
 			orgEmailStatus,
 		});
 	} catch (error: any) {
+		if (error instanceof AppError) {
+			return res.status(error.statusCode).json({
+				success: false,
+				message: error.message,
+			});
+		}
 		res.status(500).json({
 			success: false,
 			message: "Error creating donation",
@@ -172,6 +280,37 @@ export const getDonorDonations = async (req: Request, res: Response) => {
 	}
 };
 
+// Donors see their own donations, organizations the ones made to them, and
+// admins everything
+const canViewDonation = async (
+	req: Request,
+	donation: { donor: any; organization: any }
+): Promise<boolean> => {
+	if (!req.user?._id) {
+		return true;
+	}
+
+	const userId = req.user._id.toString();
+	const donorId = donation.donor._id.toString();
+
+	if (userId === donorId || req.user.role === "admin") {
+		return true;
+	}
+
+	if (req.user.role === "organization") {
+		const organization = await Organization.findOne({
+			userId: req.user._id,
+		});
+		if (organization) {
+			return (
+				organization._id.toString() === donation.organization._id.toString()
+			);
+		}
+	}
+
+	return false;
+};
+
 // Get a single donation by ID with full details
 export const getDonationById = async (req: Request, res: Response) => {
 	try {
@@ -198,51 +337,94 @@ export const getDonationById = async (req: Request, res: Response) => {
 			});
 		}
 
-		if (req.user?._id) {
-			const userId = req.user._id.toString();
-			const donorId = donation.donor._id.toString();
+		if (!(await canViewDonation(req, donation))) {
+			return res.status(403).json({
+				success: false,
+				message: "You don't have permission to view this donation",
+			});
+		}
 
-			const isDonor = userId === donorId;
+		res.status(200).json({
+			success: true,
+			data: donation,
+		});
+	} catch (error: any) {
+		res.status(500).json({
+			success: false,
+			message: "Error fetching donation",
+			error: error?.message || "Unknown error occurred",
+		});
+	}
+};
 
-			let isOrganization = false;
-			if (req.user.role === "organization") {
-				const organization = await Organization.findOne({
-					userId: req.user._id,
-				});
-				if (organization) {
-					isOrganization =
-						organization._id.toString() ===
-						donation.organization._id.toString();
-				}
-			}
+// Get the status history of a donation, oldest first
+export const getDonationTimeline = async (req: Request, res: Response) => {
+	try {
+		const { id } = req.params;
 
-			if (!isDonor && !isOrganization && req.user.role !== "admin") {
-				return res.status(403).json({
-					success: false,
-					message: "You don't have permission to view this donation",
-				});
-			}
+		if (!mongoose.Types.ObjectId.isValid(id)) {
+			return res.status(400).json({
+				success: false,
+				message: "Invalid donation ID",
+			});
+		}
+
+		const donation = await Donation.findById(id)
+			.select("donor organization type status statusHistory createdAt")
+			.populate("statusHistory.changedBy", "email role");
+
+		if (!donation) {
+			return res.status(404).json({
+				success: false,
+				message: "Donation not found",
+			});
+		}
+
+		if (!(await canViewDonation(req, donation))) {
+			return res.status(403).json({
+				success: false,
+				message: "You don't have permission to view this donation",
+			});
 		}
 
+		const timeline = [...(donation.statusHistory || [])].sort(
+			(a, b) =>
+				new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime()
+		);
+
 		res.status(200).json({
 			success: true,
-			data: donation,
+			data: {
+				donationId: donation._id,
+				type: donation.type,
+				currentStatus: donation.status,
+				createdAt: donation.createdAt,
+				timeline,
+			},
 		});
 	} catch (error: any) {
 		res.status(500).json({
 			success: false,
-			message: "Error fetching donation",
+			message: "Error fetching donation timeline",
 			error: error?.message || "Unknown error occurred",
 		});
 	}
 };
 
+// Donations that count toward stats; partly refunded gifts count net of
+// what was refunded
+const SETTLED_STATUSES = [
+	DonationStatus.CONFIRMED,
+	DonationStatus.RECEIVED,
+	DonationStatus.PARTIALLY_REFUNDED,
+];
+
 export const getDonorStats = async (req: Request, res: Response) => {
 	try {
 		const userId = req.user?._id;
 
 		const baseMatchCondition: any = {
-			status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+			status: { $in: SETTLED_STATUSES },
 		};
 
 		if (userId) {
@@ -254,6 +436,9 @@ export const getDonorStats = async (req: Request, res: Response) => {
 			type: DonationType.MONEY,
 		};
 
+		const netAmount = {
+			$subtract: ["$amount", { $ifNull: ["$refundedAmount", 0] }],
+		};
 		const moneyDonationStats = await Donation.aggregate([
 			{
 				$match: moneyMatchCondition,
@@ -261,8 +446,8 @@ export const getDonorStats = async (req: Request, res: Response) => {
 			{
 				$group: {
 					_id: null,
-					totalDonated: { $sum: "$amount" },
-					averageDonation: { $avg: "$amount" },
+					totalDonated: { $sum: netAmount },
+					averageDonation: { $avg: netAmount },
 					donationCount: { $sum: 1 },
 				},
 			},
@@ -330,12 +515,16 @@ export const getDonorStats = async (req: Request, res: Response) => {
 		const totalItemDonations =
 			await Donation.countDocuments(itemMatchCondition);
 
+		const currencyBreakdown = await getCurrencyBreakdown(moneyMatchCondition);
+
 		// Combine the results
 		const response = {
 			monetary: {
 				totalDonated: moneyDonationStats[0]?.totalDonated || 0,
 				averageDonation: moneyDonationStats[0]?.averageDonation || 0,
 				donationCount: moneyDonationStats[0]?.donationCount || 0,
+				baseCurrency: getBaseCurrency(),
+				byCurrency: currencyBreakdown,
 			},
 			items: {
 				totalDonations: totalItemDonations,
@@ -356,6 +545,56 @@ export const getDonorStats = async (req: Request, res: Response) => {
 	}
 };
 
+// Lines the organization accepted, with the quantity actually received
+const getReceivedLineItems = (donation: { lineItems?: IDonationLineItem[] }) =>
+	(donation.lineItems || [])
+		.filter((line) => line.status !== "REJECTED")
+		.map((line) => ({
+			type: line.type,
+			quantity: line.receivedQuantity ?? line.quantity,
+			unit: line.unit,
+			condition: line.condition,
+		}));
+
+// Unwind item donations into their received line items. Donations created
+// before line items existed count as a single line.
+const receivedLineItemStages = (
+	lineType?: DonationType
+): mongoose.PipelineStage[] => [
+	{
+		$addFields: {
+			lineItems: {
+				$cond: [
+					{ $gt: [{ $size: { $ifNull: ["$lineItems", []] } }, 0] },
+					"$lineItems",
+					[
+						{
+							type: "$type",
+							quantity: "$quantity",
+							unit: "$unit",
+							status: "RECEIVED",
+						},
+					],
+				],
+			},
+		},
+	},
+	{ $unwind: "$lineItems" },
+	{
+		$match: {
+			"lineItems.status": { $ne: "REJECTED" },
+			...(lineType ? { "lineItems.type": lineType } : {}),
+		},
+	},
+	{
+		$addFields: {
+			lineQuantity: {
+				$ifNull: ["$lineItems.receivedQuantity", "$lineItems.quantity"],
+			},
+		},
+	},
+];
+
 export const getItemDonationTypeAnalytics = async (
 	req: Request,
 	res: Response
@@ -374,8 +613,8 @@ export const getItemDonationTypeAnalytics = async (
 		const userRole = req.user?.role;
 
 		const matchCondition: any = {
-			status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
-			type: type,
+			status: { $in: SETTLED_STATUSES },
+			$or: [{ type: type }, { "lineItems.type": type }],
 		};
 
 		// Filter based on user role
@@ -405,18 +644,19 @@ export const getItemDonationTypeAnalytics = async (
 			{
 				$match: matchCondition,
 			},
+			...receivedLineItemStages(type as DonationType),
 			{
 				$group: {
 					_id: null,
-					totalDonations: { $sum: 1 },
-					totalQuantity: { $sum: "$quantity" },
-					avgQuantity: { $avg: "$quantity" },
+					donations: { $addToSet: "$_id" },
+					totalQuantity: { $sum: "$lineQuantity" },
+					avgQuantity: { $avg: "$lineQuantity" },
 				},
 			},
 			{
 				$project: {
 					_id: 0,
-					totalDonations: 1,
+					totalDonations: { $size: "$donations" },
 					totalQuantity: 1,
 					avgQuantity: { $round: ["$avgQuantity", 2] },
 				},
@@ -435,6 +675,7 @@ export const getItemDonationTypeAnalytics = async (
 					createdAt: { $gte: sixMonthsAgo },
 				},
 			},
+			...receivedLineItemStages(type as DonationType),
 			{
 				$group: {
 					_id: {
@@ -442,7 +683,7 @@ export const getItemDonationTypeAnalytics = async (
 						month: { $month: "$createdAt" },
 					},
 					count: { $sum: 1 },
-					totalQuantity: { $sum: "$quantity" },
+					totalQuantity: { $sum: "$lineQuantity" },
 				},
 			},
 			{
@@ -463,6 +704,7 @@ export const getItemDonationTypeAnalytics = async (
 			{
 				$match: matchCondition,
 			},
+			...receivedLineItemStages(type as DonationType),
 			{
 				$lookup: {
 					from: "causes",
@@ -478,8 +720,8 @@ export const getItemDonationTypeAnalytics = async (
 				$group: {
 					_id: "$cause",
 					causeName: { $first: "$causeInfo.title" },
-					count: { $sum: 1 },
-					totalQuantity: { $sum: "$quantity" },
+					donations: { $addToSet: "$_id" },
+					totalQuantity: { $sum: "$lineQuantity" },
 				},
 			},
 			{
@@ -487,7 +729,7 @@ export const getItemDonationTypeAnalytics = async (
 					_id: 0,
 					causeId: "$_id",
 					causeName: 1,
-					count: 1,
+					count: { $size: "$donations" },
 					totalQuantity: 1,
 				},
 			},
@@ -547,7 +789,7 @@ export const getItemDonationAnalytics = async (req: Request, res: Response) => {
 		const userRole = req.user?.role;
 
 		const matchCondition: any = {
-			status: { $in: [DonationStatus.CONFIRMED, DonationStatus.RECEIVED] },
+			status: { $in: SETTLED_STATUSES },
 			type: { $ne: DonationType.MONEY },
 		};
 
@@ -568,17 +810,25 @@ export const getItemDonationAnalytics = async (req: Request, res: Response) => {
 			{
 				$match: matchCondition,
 			},
+			...receivedLineItemStages(),
 			{
 				$group: {
-					_id: "$type",
-					count: { $sum: 1 },
-					totalQuantity: { $sum: "$quantity" },
+					_id: "$lineItems.type",
+					count: { $sum: 1 }, // Line items of this type
+					donations: { $addToSet: "$_id" },
+					totalQuantity: { $sum: "$lineQuantity" },
+					units: { $addToSet: "$lineItems.unit" },
+					conditions: { $push: "$lineItems.condition" },
 					items: {
 						$push: {
 							id: "$_id",
-							description: "$description",
-							quantity: "$quantity",
-							unit: "$unit",
+							lineItemId: "$lineItems._id",
+							description: {
+								$ifNull: ["$lineItems.description", "$description"],
+							},
+							quantity: "$lineQuantity",
+							unit: "$lineItems.unit",
+							condition: "$lineItems.condition",
 							status: "$status",
 							createdAt: "$createdAt",
 						},
@@ -590,7 +840,15 @@ export const getItemDonationAnalytics = async (req: Request, res: Response) => {
 					_id: 0,
 					type: "$_id",
 					count: 1,
+					donationCount: { $size: "$donations" },
 					totalQuantity: 1,
+					units: 1,
+					conditions: {
+						$filter: {
+							input: "$conditions",
+							cond: { $ne: ["$$this", null] },
+						},
+					},
 					items: { $slice: ["$items", 5] }, // Limit to 5 most recent items per type
 				},
 			},
@@ -611,15 +869,16 @@ export const getItemDonationAnalytics = async (req: Request, res: Response) => {
 					createdAt: { $gte: sixMonthsAgo },
 				},
 			},
+			...receivedLineItemStages(),
 			{
 				$group: {
 					_id: {
 						year: { $year: "$createdAt" },
 						month: { $month: "$createdAt" },
-						type: "$type",
+						type: "$lineItems.type",
 					},
 					count: { $sum: 1 },
-					totalQuantity: { $sum: "$quantity" },
+					totalQuantity: { $sum: "$lineQuantity" },
 				},
 			},
 			{
@@ -642,6 +901,7 @@ export const getItemDonationAnalytics = async (req: Request, res: Response) => {
 			{
 				$match: matchCondition,
 			},
+			...receivedLineItemStages(),
 			{
 				$lookup: {
 					from: "causes",
@@ -657,9 +917,9 @@ export const getItemDonationAnalytics = async (req: Request, res: Response) => {
 				$group: {
 					_id: "$cause",
 					causeName: { $first: "$causeInfo.title" },
-					count: { $sum: 1 },
-					totalQuantity: { $sum: "$quantity" },
-					types: { $addToSet: "$type" },
+					donations: { $addToSet: "$_id" },
+					totalQuantity: { $sum: "$lineQuantity" },
+					types: { $addToSet: "$lineItems.type" },
 				},
 			},
 			{
@@ -667,7 +927,7 @@ export const getItemDonationAnalytics = async (req: Request, res: Response) => {
 					_id: 0,
 					causeId: "$_id",
 					causeName: 1,
-					count: 1,
+					count: { $size: "$donations" },
 					totalQuantity: 1,
 					types: 1,
 				},
@@ -829,6 +1089,90 @@ export const findOrganizationPendingDonations = async (
 		});
 	}
 };
+
+// Scheduled pickups for the authenticated organization, grouped into a daily run sheet
+export const getPickupRunSheet = async (req: Request, res: Response) => {
+	try {
+		if (!req.user?._id) {
+			return res.status(401).json({
+				success: false,
+				message: "User not authenticated",
+			});
+		}
+
+		const organization = await Organization.findOne({
+			userId: req.user._id,
+		});
+
+		if (!organization) {
+			return res.status(404).json({
+				success: false,
+				message: "Organization not found",
+			});
+		}
+
+		// Defaults to today; pass from/to (YYYY-MM-DD) for a longer range
+		const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+		const today = new Date().toISOString().split("T")[0];
+		const from =
+			(req.query.from as string) || (req.query.date as string) || today;
+		const to = (req.query.to as string) || from;
+
+		if (!datePattern.test(from) || !datePattern.test(to)) {
+			return res.status(400).json({
+				success: false,
+				message: "Dates must be in YYYY-MM-DD format",
+			});
+		}
+
+		const fromDate = new Date(from);
+		const toDate = new Date(to);
+
+		if (toDate < fromDate) {
+			return res.status(400).json({
+				success: false,
+				message: "'to' must not be before 'from'",
+			});
+		}
+
+		if (toDate.getTime() - fromDate.getTime() > 30 * 24 * 60 * 60 * 1000) {
+			return res.status(400).json({
+				success: false,
+				message: "Run sheets can cover at most 31 days",
+			});
+		}
+
+		const runSheet = await buildPickupRunSheet(organization, {
+			from: fromDate,
+			to: toDate,
+			includePending: req.query.includePending === "true",
+		});
+
+		if (req.query.format === "pdf") {
+			const pdf = await generatePickupRunSheet(runSheet);
+			res.setHeader("Content-Type", "application/pdf");
+			res.setHeader(
+				"Content-Disposition",
+				`attachment; filename="run-sheet-${from}${
+					to === from ? "" : `-to-${to}`
+				}.pdf"`
+			);
+			res.setHeader("Cache-Control", "no-store");
+			return res.status(200).send(pdf);
+		}
+
+		res.status(200).json({
+			success: true,
+			data: runSheet,
+		});
+	} catch (error: any) {
+		res.status(500).json({
+			success: false,
+			message: "Error building pickup run sheet",
+			error: error?.message || "Unknown error occurred",
+		});
+	}
+};
 export const updateDonationStatus = async (req: Request, res: Response) => {
 	try {
 		// Check if user is authenticated
@@ -841,7 +1185,7 @@ export const updateDonationStatus = async (req: Request, res: Response) => {
 
 		// Get donation ID from request params
 		const { donationId } = req.params;
-		const { status } = req.body;
+		const { status, note } = req.body;
 
 		// Validate input
 		if (!donationId || !mongoose.Types.ObjectId.isValid(donationId)) {
@@ -858,14 +1202,6 @@ export const updateDonationStatus = async (req: Request, res: Response) => {
 			});
 		}
 
-		// Prevent organizations from cancelling donations
-		if (status === DonationStatus.CANCELLED) {
-			return res.status(403).json({
-				success: false,
-				message: "Organizations cannot cancel donations",
-			});
-		}
-
 		// Find the donation
 		const donation = await Donation.findById(donationId)
 			.populate<{ donor: IUser }>("donor", "name email")
@@ -892,16 +1228,27 @@ export const updateDonationStatus = async (req: Request, res: Response) => {
 			});
 		}
 
-		// Check if the current status is PENDING
-		if (donation.status !== DonationStatus.PENDING) {
+		// Only pending donations are reviewed here. Receiving and confirming
+		// have their own endpoints, which require the photo, line-item review
+		// and receipt those steps record; donors cancel through theirs.
+		if (
+			donation.status !== DonationStatus.PENDING ||
+			status === DonationStatus.CANCELLED
+		) {
 			return res.status(400).json({
 				success: false,
-				message: "Only pending donations can be updated",
+				message:
+					status === DonationStatus.CANCELLED
+						? "Organizations cannot cancel donations"
+						: "Only pending donations can be updated",
 			});
 		}
 
-		// Update donation status
-		donation.status = status;
+		transitionDonation(donation, status, {
+			role: toDonationActorRole(req.user.role),
+			userId: req.user._id.toString(),
+			note,
+		});
 
 		await donation.save();
 
@@ -956,6 +1303,9 @@ export const updateDonationStatus = async (req: Request, res: Response) => {
 			notificationStatus,
 		});
 	} catch (error: any) {
+		if (sendTransitionError(res, error)) {
+			return;
+		}
 		res.status(500).json({
 			success: false,
 			message: "Error updating donation status",
@@ -1022,17 +1372,19 @@ export const markDonationAsReceived = async (req: Request, res: Response) => {
 			});
 		}
 
-		// Check if the current status is APPROVED or PENDING
-		if (donation.status !== DonationStatus.APPROVED) {
-			return res.status(400).json({
-				success: false,
-				message: "Only approved can be marked as received",
-			});
-		}
-
 		const photoUrl = cloudinaryUrl;
 
-		donation.status = DonationStatus.RECEIVED;
+		applyLineItemReviews(
+			donation,
+			parseJsonArray(req.body?.lineItems, "lineItems") as LineItemReview[]
+		);
+
+		transitionDonation(donation, DonationStatus.RECEIVED, {
+			role: toDonationActorRole(req.user.role),
+			userId: req.user._id.toString(),
+			note: req.body?.note,
+			attachmentUrl: photoUrl,
+		});
 		donation.receiptImage = photoUrl;
 
 		// Store photo metadata for better tracking (including Cloudinary info)
@@ -1047,6 +1399,8 @@ export const markDonationAsReceived = async (req: Request, res: Response) => {
 		};
 		await donation.save();
 
+		await countReceivedNeeds(donation);
+
 		// Send email notification to donor
 		let emailStatus = "No email sent";
 		if (donation.donor?.email) {
@@ -1101,6 +1455,15 @@ export const markDonationAsReceived = async (req: Request, res: Response) => {
 			photoUrl,
 		});
 	} catch (error: any) {
+		if (sendTransitionError(res, error)) {
+			return;
+		}
+		if (error instanceof AppError) {
+			return res.status(error.statusCode).json({
+				success: false,
+				message: error.message,
+			});
+		}
 		console.error("Error marking donation as received:", error);
 
 		// Determine the appropriate status code
@@ -1164,13 +1527,12 @@ export const confirmDonationReceipt = async (req: Request, res: Response) => {
 			});
 		}
 
-		// Check if the current status is RECEIVED
-		if (donation.status !== DonationStatus.RECEIVED) {
-			return res.status(400).json({
-				success: false,
-				message: "Only received donations can be confirmed",
-			});
-		}
+		// Validate the move before doing any receipt work
+		transitionDonation(donation, DonationStatus.CONFIRMED, {
+			role: toDonationActorRole(req.user.role),
+			userId: req.user._id.toString(),
+			note: req.body?.note,
+		});
 
 		// Generate PDF receipt for the donor
 		let pdfReceiptUrl = "";
@@ -1184,12 +1546,18 @@ export const confirmDonationReceipt = async (req: Request, res: Response) => {
 				organizationEmail:
 					(donation.organization as any)?.email || "No email provided",
 				amount: donation.amount,
+				currency: donation.currency,
+				originalAmount: donation.originalAmount,
+				fxRate: donation.fxRate,
+				fees: donation.fees,
+				tribute: donation.tribute,
 				quantity: donation.quantity,
 				unit: donation.unit,
 				type: donation.type,
 				description: donation.description || "No description provided",
 				receivedDate: new Date(),
 				cause: (donation.cause as any)?.title || undefined,
+				lineItems: getReceivedLineItems(donation),
 			};
 
 			pdfReceiptUrl = await generateDonationReceipt(donationData);
@@ -1199,10 +1567,6 @@ export const confirmDonationReceipt = async (req: Request, res: Response) => {
 			// Continue with the process even if PDF generation fails
 		}
 
-		// Update donation status and confirmation date
-		donation.status = DonationStatus.CONFIRMED;
-		donation.confirmationDate = new Date();
-
 		// Store the PDF receipt URL if generated successfully
 		if (pdfReceiptUrl) {
 			donation.pdfReceiptUrl = pdfReceiptUrl;
@@ -1315,6 +1679,9 @@ export const confirmDonationReceipt = async (req: Request, res: Response) => {
 			pdfReceiptUrl: pdfReceiptUrl || null,
 		});
 	} catch (error: any) {
+		if (sendTransitionError(res, error)) {
+			return;
+		}
 		console.error("Error confirming donation:", error);
 		res.status(500).json({
 			success: false,
@@ -1373,12 +1740,13 @@ export const markDonationAsConfirmed = async (req: Request, res: Response) => {
 			});
 		}
 
-		if (donation.status !== DonationStatus.RECEIVED) {
-			return res.status(400).json({
-				success: false,
-				message: "Only received donations can be marked as confirmed",
-			});
-		}
+		// Validate the move before doing any receipt work
+		transitionDonation(donation, DonationStatus.CONFIRMED, {
+			role: toDonationActorRole(req.user.role),
+			userId: req.user._id.toString(),
+			note: req.body?.note,
+			attachmentUrl: req.cloudinaryUrl,
+		});
 
 		let pdfReceiptUrl = "";
 		try {
@@ -1391,12 +1759,18 @@ export const markDonationAsConfirmed = async (req: Request, res: Response) => {
 				organizationEmail:
 					(donation.organization as any)?.email || "No email provided",
 				amount: donation.amount,
+				currency: donation.currency,
+				originalAmount: donation.originalAmount,
+				fxRate: donation.fxRate,
+				fees: donation.fees,
+				tribute: donation.tribute,
 				quantity: donation.quantity,
 				unit: donation.unit,
 				type: donation.type,
 				description: donation.description || "No description provided",
 				receivedDate: new Date(),
 				cause: (donation.cause as any)?.title || undefined,
+				lineItems: getReceivedLineItems(donation),
 			};
 
 			pdfReceiptUrl = await generateDonationReceipt(donationData);
@@ -1405,10 +1779,6 @@ export const markDonationAsConfirmed = async (req: Request, res: Response) => {
 			// Continue with the process even if PDF generation fails
 		}
 
-		// Update donation status to confirmed
-		donation.status = DonationStatus.CONFIRMED;
-		donation.confirmationDate = new Date();
-
 		// Store the PDF receipt URL if generated successfully
 		if (pdfReceiptUrl) {
 			donation.pdfReceiptUrl = pdfReceiptUrl;
@@ -1495,6 +1865,9 @@ export const markDonationAsConfirmed = async (req: Request, res: Response) => {
 			pdfReceiptUrl: pdfReceiptUrl || null,
 		});
 	} catch (error: any) {
+		if (sendTransitionError(res, error)) {
+			return;
+		}
 		console.error("Error marking donation as confirmed:", error);
 		res.status(500).json({
 			success: false,
@@ -1503,3 +1876,459 @@ export const markDonationAsConfirmed = async (req: Request, res: Response) => {
 		});
 	}
 };
+
+// Work out which side of an item donation the current user is on
+const getDonationParty = async (
+	req: Request,
+	donation: { donor: any; organization: any }
+): Promise<"donor" | "organization" | null> => {
+	if (!req.user?._id) {
+		return null;
+	}
+
+	if (donation.donor._id.toString() === req.user._id.toString()) {
+		return "donor";
+	}
+
+	if (req.user.role === "organization") {
+		const organization = await Organization.findOne({
+			_id: donation.organization._id,
+			userId: req.user._id,
+		});
+		if (organization) {
+			return "organization";
+		}
+	}
+
+	return null;
+};
+
+const getDonorDisplayName = async (
+	donorId: string,
+	isAnonymous = false
+): Promise<string> => {
+	if (isAnonymous) {
+		return ANONYMOUS_DONOR_NAME;
+	}
+	const profile = await DonorProfile.findOne({ userId: donorId });
+	if (profile?.firstName) {
+		return `${profile.firstName} ${profile.lastName || ""}`.trim();
+	}
+	return "A donor";
+};
+
+// Cancel an item donation (donor only)
+export const cancelDonation = async (req: Request, res: Response) => {
+	try {
+		if (!req.user?._id) {
+			return res.status(401).json({
+				success: false,
+				message: "User not authenticated",
+			});
+		}
+
+		const { donationId } = req.params;
+		const { reason } = req.body;
+
+		if (!donationId || !mongoose.Types.ObjectId.isValid(donationId)) {
+			return res.status(400).json({
+				success: false,
+				message: "Valid donation ID is required",
+			});
+		}
+
+		const donation = await Donation.findById(donationId)
+			.populate("organization", "_id name email userId")
+			.populate("cause", "title");
+
+		if (!donation) {
+			return res.status(404).json({
+				success: false,
+				message: "Donation not found",
+			});
+		}
+
+		if (donation.donor.toString() !== req.user._id.toString()) {
+			return res.status(403).json({
+				success: false,
+				message: "You do not have permission to cancel this donation",
+			});
+		}
+
+		transitionDonation(donation, DonationStatus.CANCELLED, {
+			role: toDonationActorRole(req.user.role),
+			userId: req.user._id.toString(),
+			note: reason,
+		});
+		donation.cancellationReason = reason;
+
+		// Any open reschedule proposal is moot once the donation is cancelled
+		donation.rescheduleProposals.forEach((proposal) => {
+			if (proposal.status === "PENDING") {
+				proposal.status = "SUPERSEDED";
+				proposal.respondedAt = new Date();
+			}
+		});
+
+		await donation.save();
+
+		const organizationData = donation.organization as any;
+
+		let notificationStatus = "No notification created";
+		if (organizationData?.userId && req.notificationService) {
+			try {
+				await req.notificationService.createDonationCancelledNotification(
+					organizationData.userId.toString(),
+					{
+						donationId: donation._id.toString(),
+						donorName: await getDonorDisplayName(
+							req.user._id.toString(),
+							donation.isAnonymous
+						),
+						cause: (donation.cause as any)?.title || "your organization",
+						reason,
+					}
+				);
+				notificationStatus = "Real-time notification created successfully";
+			} catch (notificationError) {
+				notificationStatus = "Failed to create real-time notification";
+			}
+		}
+
+		let orgEmailStatus = "No email sent to organization";
+		if (organizationData?.email) {
+			try {
+				await sendEmail(
+					organizationData.email,
+					donation._id.toString(),
+					DonationStatus.CANCELLED,
+					donation.amount,
+					donation.quantity,
+					donation.unit
+				);
+				orgEmailStatus = "Email sent successfully to organization";
+			} catch (emailError) {
+				orgEmailStatus = "Failed to send email to organization";
+			}
+		}
+
+		res.status(200).json({
+			success: true,
+			data: donation,
+			message: "Donation cancelled",
+			notificationStatus,
+			orgEmailStatus,
+		});
+	} catch (error: any) {
+		if (sendTransitionError(res, error)) {
+			return;
+		}
+		res.status(500).json({
+			success: false,
+			message: "Error cancelling donation",
+			error: error?.message || "Unknown error occurred",
+		});
+	}
+};
+
+// A donation that was received, cancelled or otherwise closed keeps its schedule
+const RESCHEDULABLE_STATUSES = [
+	DonationStatus.PENDING,
+	DonationStatus.APPROVED,
+];
+
+// Propose a new pickup/drop-off schedule. Donors can propose at any time
+// while the donation is open; organizations can only counter a pending
+// donor proposal.
+export const proposeDonationReschedule = async (
+	req: Request,
+	res: Response
+) => {
+	try {
+		if (!req.user?._id) {
+			return res.status(401).json({
+				success: false,
+				message: "User not authenticated",
+			});
+		}
+
+		const { donationId } = req.params;
+		const { scheduledDate, scheduledTime, note } = req.body;
+
+		if (!donationId || !mongoose.Types.ObjectId.isValid(donationId)) {
+			return res.status(400).json({
+				success: false,
+				message: "Valid donation ID is required",
+			});
+		}
+
+		const proposedDate = new Date(scheduledDate);
+		if (!scheduledDate || isNaN(proposedDate.getTime()) || !scheduledTime) {
+			return res.status(400).json({
+				success: false,
+				message: "Valid scheduledDate and scheduledTime are required",
+			});
+		}
+
+		if (proposedDate.getTime() < Date.now()) {
+			return res.status(400).json({
+				success: false,
+				message: "Scheduled date must be in the future",
+			});
+		}
+
+		const donation = await Donation.findById(donationId).populate(
+			"organization",
+			"_id name userId pickupWindows blackoutDates"
+		);
+
+		if (!donation) {
+			return res.status(404).json({
+				success: false,
+				message: "Donation not found",
+			});
+		}
+
+		const party = await getDonationParty(req, donation);
+		if (!party) {
+			return res.status(403).json({
+				success: false,
+				message: "You do not have permission to reschedule this donation",
+			});
+		}
+
+		if (donation.type === DonationType.MONEY) {
+			return res.status(400).json({
+				success: false,
+				message: "Only item donations can be rescheduled",
+			});
+		}
+
+		if (!RESCHEDULABLE_STATUSES.includes(donation.status)) {
+			return res.status(400).json({
+				success: false,
+				message: "Only pending or approved donations can be rescheduled",
+			});
+		}
+
+		const pendingProposal = donation.rescheduleProposals.find(
+			(proposal) => proposal.status === "PENDING"
+		);
+
+		if (
+			party === "organization" &&
+			pendingProposal?.proposedByRole !== "donor"
+		) {
+			return res.status(400).json({
+				success: false,
+				message: "Organizations can only counter a donor's proposal",
+			});
+		}
+
+		await assertPickupSlotAvailable(
+			donation.organization as any,
+			proposedDate,
+			scheduledTime,
+			donation.isPickup,
+			donation._id.toString()
+		);
+
+		if (pendingProposal) {
+			pendingProposal.status = "SUPERSEDED";
+			pendingProposal.respondedAt = new Date();
+		}
+
+		donation.rescheduleProposals.push({
+			scheduledDate: proposedDate,
+			scheduledTime,
+			note,
+			proposedBy: new mongoose.Types.ObjectId(req.user._id),
+			proposedByRole: party,
+			status: "PENDING",
+			proposedAt: new Date(),
+		});
+
+		await donation.save();
+
+		const isCounter =
+			!!pendingProposal && pendingProposal.proposedByRole !== party;
+		const organizationData = donation.organization as any;
+		const recipientId =
+			party === "donor"
+				? organizationData?.userId?.toString()
+				: donation.donor.toString();
+
+		let notificationStatus = "No notification created";
+		if (recipientId && req.notificationService) {
+			try {
+				await req.notificationService.createDonationRescheduleNotification(
+					recipientId,
+					{
+						donationId: donation._id.toString(),
+						action: isCounter ? "countered" : "proposed",
+						actorName:
+							party === "donor"
+								? await getDonorDisplayName(
+										req.user._id.toString(),
+										donation.isAnonymous
+									)
+								: organizationData?.name || "Organization",
+						scheduledDate: proposedDate,
+						scheduledTime,
+						note,
+					}
+				);
+				notificationStatus = "Real-time notification created successfully";
+			} catch (notificationError) {
+				notificationStatus = "Failed to create real-time notification";
+			}
+		}
+
+		res.status(201).json({
+			success: true,
+			data: donation,
+			message: isCounter ? "Counter-proposal sent" : "Reschedule proposal sent",
+			notificationStatus,
+		});
+	} catch (error: any) {
+		if (error instanceof AppError) {
+			return res.status(error.statusCode).json({
+				success: false,
+				message: error.message,
+			});
+		}
+		res.status(500).json({
+			success: false,
+			message: "Error proposing new schedule",
+			error: error?.message || "Unknown error occurred",
+		});
+	}
+};
+
+// Accept the pending reschedule proposal made by the other party
+export const acceptDonationReschedule = async (req: Request, res: Response) => {
+	try {
+		if (!req.user?._id) {
+			return res.status(401).json({
+				success: false,
+				message: "User not authenticated",
+			});
+		}
+
+		const { donationId } = req.params;
+
+		if (!donationId || !mongoose.Types.ObjectId.isValid(donationId)) {
+			return res.status(400).json({
+				success: false,
+				message: "Valid donation ID is required",
+			});
+		}
+
+		const donation = await Donation.findById(donationId).populate(
+			"organization",
+			"_id name userId pickupWindows blackoutDates"
+		);
+
+		if (!donation) {
+			return res.status(404).json({
+				success: false,
+				message: "Donation not found",
+			});
+		}
+
+		const party = await getDonationParty(req, donation);
+		if (!party) {
+			return res.status(403).json({
+				success: false,
+				message: "You do not have permission to reschedule this donation",
+			});
+		}
+
+		if (!RESCHEDULABLE_STATUSES.includes(donation.status)) {
+			return res.status(400).json({
+				success: false,
+				message: "Only pending or approved donations can be rescheduled",
+			});
+		}
+
+		const pendingProposal = donation.rescheduleProposals.find(
+			(proposal) => proposal.status === "PENDING"
+		);
+
+		if (!pendingProposal) {
+			return res.status(400).json({
+				success: false,
+				message: "There is no pending reschedule proposal",
+			});
+		}
+
+		if (pendingProposal.proposedByRole === party) {
+			return res.status(400).json({
+				success: false,
+				message: "You cannot accept your own proposal",
+			});
+		}
+
+		pendingProposal.status = "ACCEPTED";
+		pendingProposal.respondedAt = new Date();
+		donation.scheduledDate = pendingProposal.scheduledDate;
+		donation.scheduledTime = pendingProposal.scheduledTime;
+
+		// The slot may have filled up since the proposal was made
+		await bookPickupSlot(
+			donation.organization as any,
+			pendingProposal.scheduledDate,
+			pendingProposal.scheduledTime,
+			donation.isPickup,
+			() => donation.save(),
+			donation._id.toString()
+		);
+
+		const organizationData = donation.organization as any;
+		const recipientId = pendingProposal.proposedBy.toString();
+
+		let notificationStatus = "No notification created";
+		if (req.notificationService) {
+			try {
+				await req.notificationService.createDonationRescheduleNotification(
+					recipientId,
+					{
+						donationId: donation._id.toString(),
+						action: "accepted",
+						actorName:
+							party === "donor"
+								? await getDonorDisplayName(
+										req.user._id.toString(),
+										donation.isAnonymous
+									)
+								: organizationData?.name || "Organization",
+						scheduledDate: pendingProposal.scheduledDate,
+						scheduledTime: pendingProposal.scheduledTime,
+					}
+				);
+				notificationStatus = "Real-time notification created successfully";
+			} catch (notificationError) {
+				notificationStatus = "Failed to create real-time notification";
+			}
+		}
+
+		res.status(200).json({
+			success: true,
+			data: donation,
+			message: "New schedule accepted",
+			notificationStatus,
+		});
+	} catch (error: any) {
+		if (error instanceof AppError) {
+			return res.status(error.statusCode).json({
+				success: false,
+				message: error.message,
+			});
+		}
+		res.status(500).json({
+			success: false,
+			message: "Error accepting new schedule",
+			error: error?.message || "Unknown error occurred",
+		});
+	}
+};
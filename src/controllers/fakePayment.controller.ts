@@ -0,0 +1,106 @@
+import { Request, Response } from "express";
+import { FakePaymentProvider } from "../services/fakePaymentProvider";
+import { getPaymentProvider } from "../services/paymentProvider";
+import { ingestPaymentEvent } from "./payment.controller";
+
+// Only mounted when PAYMENT_PROVIDER=fake
+const getFakeProvider = (): FakePaymentProvider =>
+	getPaymentProvider() as FakePaymentProvider;
+
+// Deliver queued fake webhooks through the same verification and processing
+// path as real ones
+const flushWebhooks = async (req: Request) => {
+	const provider = getFakeProvider();
+	const webhooks = provider.drainWebhooks();
+
+	for (const webhook of webhooks) {
+		const event = provider.constructWebhookEvent(
+			webhook.rawBody,
+			webhook.headers
+		);
+		await ingestPaymentEvent(req, event);
+	}
+
+	return webhooks.length;
+};
+
+// Stand-in for the hosted checkout page: ?outcome=cancel abandons the session
+// and ?outcome=fail declines the payment, leaving the session open for a retry
+export const completeFakeCheckout = async (req: Request, res: Response) => {
+	try {
+		const provider = getFakeProvider();
+		const session = provider.getSession(req.params.sessionId);
+		if (!session) {
+			return res.status(404).json({
+				success: false,
+				message: "Checkout session not found",
+			});
+		}
+
+		if (req.query.outcome === "cancel") {
+			return res.redirect(session.cancelUrl);
+		}
+
+		if (req.query.outcome === "fail") {
+			provider.failCheckout(session.id);
+			await flushWebhooks(req);
+			return res.redirect(session.cancelUrl);
+		}
+
+		provider.completeCheckout(session.id);
+		await flushWebhooks(req);
+
+		res.redirect(session.successUrl);
+	} catch (err: any) {
+		console.error(err);
+		res.status(400).json({
+			success: false,
+			message: err?.message || "Error completing checkout",
+		});
+	}
+};
+
+export const flushFakeWebhooks = async (req: Request, res: Response) => {
+	try {
+		const delivered = await flushWebhooks(req);
+		res.status(200).json({ success: true, data: { delivered } });
+	} catch (err: any) {
+		console.error(err);
+		res.status(500).json({
+			success: false,
+			message: err?.message || "Error delivering webhooks",
+		});
+	}
+};
+
+// Simulate the provider expiring an abandoned checkout session
+export const expireFakeCheckout = async (req: Request, res: Response) => {
+	try {
+		getFakeProvider().expireCheckout(req.params.sessionId);
+		const delivered = await flushWebhooks(req);
+		res.status(200).json({ success: true, data: { delivered } });
+	} catch (err: any) {
+		console.error(err);
+		res.status(400).json({
+			success: false,
+			message: err?.message || "Error expiring checkout",
+		});
+	}
+};
+
+// Simulate the next monthly charge of a pledge
+export const chargeFakeSubscription = async (req: Request, res: Response) => {
+	try {
+		const payment = getFakeProvider().chargeSubscription(
+			req.params.subscriptionId
+		);
+		await flushWebhooks(req);
+		res.status(200).json({ success: true, data: payment });
+	} catch (err: any) {
+		console.error(err);
+		res.status(400).json({
+			success: false,
+			message: err?.message || "Error charging subscription",
+		});
+	}
+};
@@ -0,0 +1,277 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Campaign from "../models/campaign.model";
+import Cause from "../models/cause.model";
+import DonorProfile from "../models/donor.model";
+import FundraisingPage, {
+	IFundraisingPage,
+} from "../models/fundraisingPage.model";
+import { DonationType } from "../types";
+import { AppError } from "../utils/appError";
+import { catchAsync } from "../utils/catchAsync";
+import { getBaseCurrency } from "../services/currencyService";
+import {
+	createPageSlug,
+	getCampaignLeaderboard,
+	getPageStats,
+} from "../services/fundraisingPageService";
+import { toPublicName } from "../services/supporterFeedService";
+
+// Look a page up by ID or slug
+const findPage = async (idOrSlug: string) => {
+	const page = mongoose.Types.ObjectId.isValid(idOrSlug)
+		? await FundraisingPage.findById(idOrSlug)
+		: await FundraisingPage.findOne({ slug: idOrSlug.toLowerCase() });
+	if (!page) {
+		throw new AppError("Fundraising page not found", 404);
+	}
+	return page;
+};
+
+// Load a page the authenticated donor runs
+const findOwnPage = async (req: Request) => {
+	if (!req.user?._id) {
+		throw new AppError("User not authenticated", 401);
+	}
+	const page = await findPage(req.params.id);
+	if (page.owner.toString() !== req.user._id.toString()) {
+		throw new AppError("You can only manage your own fundraising pages", 403);
+	}
+	return page;
+};
+
+const formatPages = async (pages: IFundraisingPage[]) => {
+	const [stats, profiles, campaigns] = await Promise.all([
+		getPageStats(pages.map((page) => page._id)),
+		DonorProfile.find({ userId: { $in: pages.map((page) => page.owner) } }),
+		Campaign.find({ _id: { $in: pages.map((page) => page.campaign) } }).select(
+			"title status"
+		),
+	]);
+
+	return pages.map((page) => {
+		const profile = profiles.find(
+			(p) => p.userId.toString() === page.owner.toString()
+		);
+		const campaign = campaigns.find(
+			(c) => c._id.toString() === page.campaign.toString()
+		);
+		const { raisedAmount, supporterCount } = stats.get(page._id.toString());
+
+		return {
+			id: page._id.toString(),
+			slug: page.slug,
+			title: page.title,
+			story: page.story,
+			imageUrl: page.imageUrl || null,
+			status: page.status,
+			campaign: campaign
+				? {
+						id: campaign._id.toString(),
+						title: campaign.title,
+						status: campaign.status,
+					}
+				: null,
+			causeId: page.cause.toString(),
+			organizationId: page.organization.toString(),
+			fundraiserName: toPublicName(profile),
+			targetAmount: page.targetAmount,
+			raisedAmount,
+			supporterCount,
+			progressPercentage:
+				page.targetAmount > 0
+					? Math.round((raisedAmount / page.targetAmount) * 100)
+					: 0,
+			currency: getBaseCurrency(),
+			createdAt: page.createdAt.toISOString(),
+		};
+	});
+};
+
+// Start a personal fundraiser for an active campaign
+export const createFundraisingPage = catchAsync(
+	async (req: Request, res: Response) => {
+		if (!req.user?._id) {
+			throw new AppError("User not authenticated", 401);
+		}
+
+		const { campaignId, causeId, title, story, imageUrl, targetAmount } =
+			req.body;
+
+		if (!campaignId || !mongoose.Types.ObjectId.isValid(campaignId)) {
+			throw new AppError("Valid campaign ID is required", 400);
+		}
+		if (!title || !story || !(Number(targetAmount) > 0)) {
+			throw new AppError(
+				"Title, story and a positive target are required",
+				400
+			);
+		}
+
+		const campaign = await Campaign.findById(campaignId);
+		if (!campaign) {
+			throw new AppError("Campaign not found", 404);
+		}
+		if (campaign.status !== "active") {
+			throw new AppError(
+				"Fundraisers can only be started for active campaigns",
+				400
+			);
+		}
+		if (!campaign.acceptedDonationTypes.includes(DonationType.MONEY)) {
+			throw new AppError("This campaign does not accept money donations", 400);
+		}
+
+		// Gifts go to the chosen campaign cause, or its first one
+		const chosenCauseId = causeId || campaign.causes[0]?.toString();
+		if (
+			!chosenCauseId ||
+			!campaign.causes.some((id) => id.toString() === chosenCauseId)
+		) {
+			throw new AppError("Cause is not part of this campaign", 400);
+		}
+		const cause = await Cause.findById(chosenCauseId).select("organizationId");
+		if (!cause) {
+			throw new AppError("Cause not found", 404);
+		}
+
+		const page = await FundraisingPage.create({
+			campaign: campaign._id,
+			cause: cause._id,
+			organization: cause.organizationId,
+			owner: req.user._id,
+			slug: createPageSlug(title),
+			title,
+			story,
+			imageUrl,
+			targetAmount: Number(targetAmount),
+		});
+
+		const [formattedPage] = await formatPages([page]);
+
+		res.status(201).json({
+			success: true,
+			data: formattedPage,
+		});
+	}
+);
+
+// Public list of fundraisers, optionally for one campaign
+export const getFundraisingPages = catchAsync(
+	async (req: Request, res: Response) => {
+		const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+		const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+		const query: Record<string, any> = { status: "active" };
+		if (req.query.campaign) {
+			if (!mongoose.Types.ObjectId.isValid(req.query.campaign as string)) {
+				throw new AppError("Invalid campaign ID", 400);
+			}
+			query.campaign = req.query.campaign;
+		}
+
+		const [pages, total] = await Promise.all([
+			FundraisingPage.find(query)
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit),
+			FundraisingPage.countDocuments(query),
+		]);
+
+		res.status(200).json({
+			success: true,
+			data: await formatPages(pages),
+			pagination: {
+				total,
+				page,
+				pages: Math.ceil(total / limit),
+			},
+		});
+	}
+);
+
+// Fundraisers the authenticated donor runs, including closed ones
+export const getMyFundraisingPages = catchAsync(
+	async (req: Request, res: Response) => {
+		if (!req.user?._id) {
+			throw new AppError("User not authenticated", 401);
+		}
+
+		const pages = await FundraisingPage.find({ owner: req.user._id }).sort({
+			createdAt: -1,
+		});
+
+		res.status(200).json({
+			success: true,
+			data: await formatPages(pages),
+		});
+	}
+);
+
+export const getFundraisingPage = catchAsync(
+	async (req: Request, res: Response) => {
+		const page = await findPage(req.params.id);
+		const [formattedPage] = await formatPages([page]);
+
+		res.status(200).json({
+			success: true,
+			data: formattedPage,
+		});
+	}
+);
+
+// Update the story, target or image, or close the fundraiser
+export const updateFundraisingPage = catchAsync(
+	async (req: Request, res: Response) => {
+		const page = await findOwnPage(req);
+		const { title, story, imageUrl, targetAmount, status } = req.body;
+
+		if (targetAmount !== undefined && !(Number(targetAmount) > 0)) {
+			throw new AppError("Target amount must be positive", 400);
+		}
+		if (status !== undefined && !["active", "closed"].includes(status)) {
+			throw new AppError("Status must be active or closed", 400);
+		}
+
+		page.set({
+			title: title || page.title,
+			story: story || page.story,
+			imageUrl: imageUrl !== undefined ? imageUrl : page.imageUrl,
+			targetAmount:
+				targetAmount !== undefined ? Number(targetAmount) : page.targetAmount,
+			status: status || page.status,
+		});
+		await page.save();
+
+		const [formattedPage] = await formatPages([page]);
+
+		res.status(200).json({
+			success: true,
+			data: formattedPage,
+		});
+	}
+);
+
+// Where this page stands among every fundraiser for its campaign
+export const getFundraisingPageLeaderboard = catchAsync(
+	async (req: Request, res: Response) => {
+		const page = await findPage(req.params.id);
+		const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+		const leaderboard = await getCampaignLeaderboard(page.campaign);
+		const current = leaderboard.find(
+			(entry) => entry.pageId === page._id.toString()
+		);
+
+		res.status(200).json({
+			success: true,
+			data: {
+				campaignId: page.campaign.toString(),
+				currency: getBaseCurrency(),
+				totalFundraisers: leaderboard.length,
+				currentPage: current || null,
+				leaders: leaderboard.slice(0, limit),
+			},
+		});
+	}
+);
@@ -0,0 +1,160 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Campaign from "../models/campaign.model";
+import LedgerEntry, { LedgerEntryType } from "../models/ledgerEntry.model";
+import Organization from "../models/organization.model";
+import { AppError } from "../utils/appError";
+import { catchAsync } from "../utils/catchAsync";
+import {
+	LedgerScope,
+	backfillLedger,
+	getLedgerBalance,
+	recordPayout,
+} from "../services/ledgerService";
+
+const LEDGER_SCOPES: LedgerScope[] = ["cause", "campaign", "organization"];
+
+// Organizations only see their own funds; admins see everything
+const getOwnOrganizationId = async (req: Request): Promise<string | null> => {
+	if (!req.user?._id) {
+		throw new AppError("User not authenticated", 401);
+	}
+	if (req.user.role === "admin") {
+		return null;
+	}
+
+	const organization = await Organization.findOne({ userId: req.user._id });
+	if (!organization) {
+		throw new AppError("Organization not found", 404);
+	}
+	return organization._id.toString();
+};
+
+// Balance of a cause, campaign or organization, derived from the ledger
+export const getBalance = catchAsync(async (req: Request, res: Response) => {
+	const { scope, id } = req.params;
+
+	if (!LEDGER_SCOPES.includes(scope as LedgerScope)) {
+		throw new AppError(`Scope must be one of ${LEDGER_SCOPES.join(", ")}`, 400);
+	}
+	if (!mongoose.Types.ObjectId.isValid(id)) {
+		throw new AppError("Invalid ID", 400);
+	}
+
+	const ownOrganizationId = await getOwnOrganizationId(req);
+	if (
+		scope === "organization" &&
+		ownOrganizationId &&
+		ownOrganizationId !== id
+	) {
+		throw new AppError("You can only view your own organization's funds", 403);
+	}
+
+	const balance = await getLedgerBalance(scope as LedgerScope, id);
+
+	res.status(200).json({
+		success: true,
+		data: balance,
+	});
+});
+
+// Ledger entries, newest first, filtered by cause, campaign or type
+export const getEntries = catchAsync(async (req: Request, res: Response) => {
+	const page = parseInt(req.query.page as string) || 1;
+	const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+	const query: Record<string, any> = {};
+	const ownOrganizationId = await getOwnOrganizationId(req);
+	const organizationId = ownOrganizationId || req.query.organization;
+
+	for (const [field, value] of Object.entries({
+		organization: organizationId,
+		cause: req.query.cause,
+		campaign: req.query.campaign,
+		donation: req.query.donation,
+	})) {
+		if (!value) {
+			continue;
+		}
+		if (!mongoose.Types.ObjectId.isValid(value as string)) {
+			throw new AppError(`Invalid ${field} ID`, 400);
+		}
+		query[field] = new mongoose.Types.ObjectId(value as string);
+	}
+
+	// Campaign entries are those of its causes, matching its balance
+	if (query.campaign) {
+		const campaign = await Campaign.findById(query.campaign).select("causes");
+		if (!campaign) {
+			throw new AppError("Campaign not found", 404);
+		}
+		query.cause = query.cause
+			? { $in: campaign.causes.filter((id) => id.equals(query.cause)) }
+			: { $in: campaign.causes };
+		delete query.campaign;
+	}
+
+	if (req.query.type) {
+		const type = (req.query.type as string).toUpperCase();
+		if (!Object.values(LedgerEntryType).includes(type as LedgerEntryType)) {
+			throw new AppError("Invalid ledger entry type", 400);
+		}
+		query.type = type;
+	}
+
+	const [entries, total] = await Promise.all([
+		LedgerEntry.find(query)
+			.sort({ createdAt: -1 })
+			.skip((page - 1) * limit)
+			.limit(limit)
+			.lean(),
+		LedgerEntry.countDocuments(query),
+	]);
+
+	res.status(200).json({
+		success: true,
+		data: entries,
+		pagination: {
+			total,
+			page,
+			pages: Math.ceil(total / limit),
+		},
+	});
+});
+
+// Record funds transferred to an organization
+export const createPayout = catchAsync(async (req: Request, res: Response) => {
+	const { organizationId, amount, reference, description } = req.body;
+
+	if (!organizationId || !mongoose.Types.ObjectId.isValid(organizationId)) {
+		throw new AppError("Valid organization ID is required", 400);
+	}
+	if (!(await Organization.exists({ _id: organizationId }))) {
+		throw new AppError("Organization not found", 404);
+	}
+
+	const entry = await recordPayout({
+		organizationId,
+		amount,
+		reference,
+		description,
+		recordedBy: req.user?._id?.toString(),
+	});
+
+	res.status(201).json({
+		success: true,
+		data: entry,
+	});
+});
+
+// Record entries for money that settled before the ledger existed
+export const runLedgerBackfill = catchAsync(
+	async (req: Request, res: Response) => {
+		const result = await backfillLedger();
+
+		res.status(200).json({
+			success: true,
+			data: result,
+		});
+	}
+);
@@ -14,6 +14,12 @@ import {
 	CampaignResponse,
 } from "../types/organization";
 import { DonationStatus, DonationType } from "../types";
+import { getLedgerBalance } from "../services/ledgerService";
+import { ANONYMOUS_DONOR_NAME } from "../services/supporterFeedService";
+import {
+	getPickupSlots,
+	validatePickupWindows,
+} from "../services/pickupAvailabilityService";
 const formatOrganizationResponse = (
 	organization: IOrganization & { _id: mongoose.Types.ObjectId }
 ): OrganizationResponse => ({
@@ -163,8 +169,11 @@ export const getOrganizationDonors = catchAsync(
 				},
 			},
 			{
+				// Anonymous gifts are pooled so they cannot be traced back to a donor
 				$group: {
-					_id: "$donor",
+					_id: {
+						$cond: [{ $eq: ["$isAnonymous", true] }, null, "$donor"],
+					},
 					totalDonated: {
 						$sum: {
 							$cond: [{ $eq: ["$type", DonationType.MONEY] }, "$amount", 0],
@@ -269,9 +278,10 @@ export const getOrganizationDonors = catchAsync(
 
 		// Format response
 		const formattedDonors: DonorResponse[] = paginatedDonors.map((donor) => ({
-			id: donor._id.toString(),
-			name: donor.donorName,
-			email: donor.email,
+			id: donor._id ? donor._id.toString() : "anonymous",
+			name: donor._id ? donor.donorName : ANONYMOUS_DONOR_NAME,
+			isAnonymous: !donor._id,
+			email: donor._id ? donor.email : null,
 			phoneNumber: donor.phoneNumber || null,
 			address: {
 				street: donor.address || null,
@@ -324,34 +334,23 @@ export const getOrganizationDonors = catchAsync(
 );
 
 /**
- * Helper function to calculate campaign totals from donations
+ * Helper function to calculate campaign totals; money comes from the funds
+ * ledger and supporters from donations
  */
 const calculateCampaignTotals = async (campaignId: string) => {
-	const result = await Donation.aggregate([
-		{
-			$match: {
-				campaign: new mongoose.Types.ObjectId(campaignId),
-				status: { $ne: "CANCELLED" },
-			},
-		},
-		{
-			$group: {
-				_id: null,
-				totalRaisedAmount: { $sum: "$amount" },
-				totalSupporters: { $addToSet: "$donor" },
-			},
-		},
-		{
-			$project: {
-				totalRaisedAmount: 1,
-				totalSupporters: { $size: "$totalSupporters" },
-			},
-		},
+	const [balance, supporters] = await Promise.all([
+		getLedgerBalance("campaign", campaignId),
+		Donation.distinct("donor", {
+			campaign: new mongoose.Types.ObjectId(campaignId),
+			status: { $ne: "CANCELLED" },
+		}),
 	]);
 
 	return {
-		totalRaisedAmount: result[0]?.totalRaisedAmount || 0,
-		totalSupporters: result[0]?.totalSupporters || 0,
+		totalRaisedAmount: balance.raised,
+		donorRaisedAmount: balance.donorRaised,
+		totalMatchedAmount: balance.matches,
+		totalSupporters: supporters.length,
 	};
 };
 
@@ -361,9 +360,12 @@ const calculateCampaignTotals = async (campaignId: string) => {
 const formatCampaignResponse = async (
 	campaign: ICampaign & { _id: mongoose.Types.ObjectId }
 ): Promise<CampaignResponse> => {
-	const { totalRaisedAmount, totalSupporters } = await calculateCampaignTotals(
-		campaign._id.toString()
-	);
+	const {
+		totalRaisedAmount,
+		donorRaisedAmount,
+		totalMatchedAmount,
+		totalSupporters,
+	} = await calculateCampaignTotals(campaign._id.toString());
 
 	return {
 		id: campaign._id.toString(),
@@ -374,6 +376,8 @@ const formatCampaignResponse = async (
 		status: campaign.status,
 		totalTargetAmount: campaign.totalTargetAmount,
 		totalRaisedAmount,
+		donorRaisedAmount,
+		totalMatchedAmount,
 		totalSupporters,
 		imageUrl: campaign.imageUrl,
 		tags: campaign.tags || [],
@@ -436,3 +440,127 @@ export const getOrganizationCampaigns = catchAsync(
 		});
 	}
 );
+
+const formatPickupAvailability = (organization: IOrganization) => ({
+	organizationId: organization._id.toString(),
+	windows: (organization.pickupWindows || []).map((window) => ({
+		dayOfWeek: window.dayOfWeek,
+		startTime: window.startTime,
+		endTime: window.endTime,
+		slotMinutes: window.slotMinutes,
+		capacity: window.capacity,
+		mode: window.mode,
+	})),
+	blackoutDates: (organization.blackoutDates || []).map((blackout) => ({
+		date: blackout.date.toISOString().split("T")[0],
+		reason: blackout.reason || null,
+	})),
+});
+
+/**
+ * Replace the authenticated organization's pickup/drop-off windows and blackout dates
+ */
+export const updatePickupAvailability = catchAsync(
+	async (req: AuthRequest, res: Response) => {
+		if (!req.user) {
+			throw new AppError("Unauthorized", 401);
+		}
+
+		const organization = await Organization.findOne({ userId: req.user.id });
+		if (!organization) {
+			throw new AppError("Organization profile not found", 404);
+		}
+
+		const { windows, blackoutDates } = req.body;
+
+		if (windows !== undefined) {
+			if (!Array.isArray(windows)) {
+				throw new AppError("windows must be an array", 400);
+			}
+			validatePickupWindows(windows);
+			organization.pickupWindows = windows;
+		}
+
+		if (blackoutDates !== undefined) {
+			if (!Array.isArray(blackoutDates)) {
+				throw new AppError("blackoutDates must be an array", 400);
+			}
+			organization.blackoutDates = blackoutDates.map((blackout: any) => {
+				const date = new Date(blackout.date);
+				if (isNaN(date.getTime())) {
+					throw new AppError(`Invalid blackout date: ${blackout.date}`, 400);
+				}
+				return { date, reason: blackout.reason };
+			});
+		}
+
+		await organization.save();
+
+		res.status(200).json({
+			message: "Pickup availability updated",
+			availability: formatPickupAvailability(organization),
+		});
+	}
+);
+
+/**
+ * Get an organization's weekly pickup/drop-off windows and blackout dates
+ */
+export const getPickupAvailability = catchAsync(
+	async (req: Request, res: Response) => {
+		const { id } = req.params;
+
+		if (!mongoose.Types.ObjectId.isValid(id)) {
+			throw new AppError("Invalid organization ID format", 400);
+		}
+
+		const organization = await Organization.findById(id);
+		if (!organization) {
+			throw new AppError("Organization not found", 404);
+		}
+
+		res.status(200).json({
+			availability: formatPickupAvailability(organization),
+		});
+	}
+);
+
+/**
+ * List bookable pickup or drop-off slots for an organization on a given date
+ */
+export const getPickupSlotsForDate = catchAsync(
+	async (req: Request, res: Response) => {
+		const { id } = req.params;
+		const { date, mode = "pickup" } = req.query;
+
+		if (!mongoose.Types.ObjectId.isValid(id)) {
+			throw new AppError("Invalid organization ID format", 400);
+		}
+
+		if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+			throw new AppError("date must be in YYYY-MM-DD format", 400);
+		}
+
+		if (mode !== "pickup" && mode !== "dropoff") {
+			throw new AppError("mode must be either pickup or dropoff", 400);
+		}
+
+		const organization = await Organization.findById(id);
+		if (!organization) {
+			throw new AppError("Organization not found", 404);
+		}
+
+		const slots = await getPickupSlots(
+			organization,
+			new Date(date),
+			mode === "pickup"
+		);
+
+		res.status(200).json({
+			date,
+			mode,
+			configured: organization.pickupWindows.length > 0,
+			slots: slots.filter((slot) => slot.remaining > 0),
+		});
+	}
+);
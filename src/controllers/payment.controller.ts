@@ -1,15 +1,73 @@
 import { Request, Response } from "express";
-import Stripe from "stripe";
-import Cause from "../models/cause.model";
-import Donation from "../models/donation.model";
+import mongoose from "mongoose";
+import Donation, { TributeType } from "../models/donation.model";
+import DonorProfile from "../models/donor.model";
+import Organization from "../models/organization.model";
+import RecurringDonation, {
+	RecurringDonationStatus,
+} from "../models/recurringDonation.model";
 import { NotificationType } from "../types/notification";
 import { NotificationService } from "../services/notificationService";
-import { sendEmail } from "../utils/email";
+import { sendEmail, sendTributeCard } from "../utils/email";
+import { generateDonationReceipt } from "../utils/pdfGenerator";
+import { getDonorNameForOrganization } from "../services/supporterFeedService";
 import { DonationStatus, DonationType } from "../types";
+import { transitionDonation } from "../services/donationLifecycleService";
+import {
+	applyDonationMatches,
+	reverseDonationMatches,
+} from "../services/matchingService";
+import { checkDonationMilestones } from "../services/milestoneService";
+import { getDonatablePage } from "../services/fundraisingPageService";
+import { getCampaignAllocation } from "../services/allocationService";
+import {
+	PaymentWebhookEvent,
+	getPaymentProvider,
+} from "../services/paymentProvider";
+import { PAYMENT_CONFIG } from "../config/payment.config";
+import {
+	convertFromBase,
+	convertToBase,
+	describeDonationAmount,
+	formatMoney,
+	normalizeCurrency,
+	roundMoney,
+} from "../services/currencyService";
+import { AppError } from "../utils/appError";
+import { calculateFees, grossUpForFees } from "../services/feeService";
+import {
+	recordDonationEntries,
+	recordRefundEntry,
+} from "../services/ledgerService";
+import {
+	runWebhookEvent,
+	storeWebhookEvent,
+} from "../services/webhookEventService";
+import {
+	IWebhookEvent,
+	WebhookEventStatus,
+} from "../models/webhookEvent.model";
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-	apiVersion: "2023-10-16",
-});
+type CheckoutCompletedEvent = Extract<
+	PaymentWebhookEvent,
+	{ type: "checkout.completed" }
+>;
+type SubscriptionPaymentEvent = Extract<
+	PaymentWebhookEvent,
+	{ type: "subscription.payment_succeeded" }
+>;
+type CheckoutExpiredEvent = Extract<
+	PaymentWebhookEvent,
+	{ type: "checkout.expired" }
+>;
+type PaymentFailedEvent = Extract<
+	PaymentWebhookEvent,
+	{ type: "payment.failed" }
+>;
+type PaymentRefundedEvent = Extract<
+	PaymentWebhookEvent,
+	{ type: "payment.refunded" }
+>;
 
 // Helper function to send notifications via webhook
 const sendWebhookNotifications = async (
@@ -17,8 +75,7 @@ const sendWebhookNotifications = async (
 	donation: any,
 	organizationId: string,
 	donorId: string,
-	causeId: string,
-	amount: number
+	causeId: string
 ) => {
 	try {
 		// Get populated data
@@ -32,6 +89,11 @@ const sendWebhookNotifications = async (
 		const causeData = populatedDonation?.cause as any;
 
 		if (organizationData && donorData) {
+			const donorName = getDonorNameForOrganization(
+				populatedDonation,
+				`${donorData.firstName} ${donorData.lastName}`
+			);
+
 			// Get Socket.IO instance
 			const io = req.app.get("io");
 			const notificationService = new NotificationService(io);
@@ -41,11 +103,13 @@ const sendWebhookNotifications = async (
 				recipient: organizationData.userId.toString(),
 				type: NotificationType.DONATION_RECEIVED,
 				title: "Payment Confirmed - New Donation!",
-				message: `Payment confirmed! You received ₹${amount} from ${donorData.firstName} ${donorData.lastName} for ${causeData?.title || "your cause"}.`,
+				message: `Payment confirmed! You received ${describeDonationAmount(donation)} from ${donorName} for ${causeData?.title || "your cause"}.`,
 				data: {
 					donationId: donation._id.toString(),
-					amount: amount,
-					donorName: `${donorData.firstName} ${donorData.lastName}`,
+					amount: donation.amount,
+					currency: donation.currency,
+					originalAmount: donation.originalAmount,
+					donorName,
 					causeName: causeData?.title,
 					status: DonationStatus.CONFIRMED,
 					paymentConfirmed: true,
@@ -57,7 +121,12 @@ const sendWebhookNotifications = async (
 				organizationData.email,
 				donation._id.toString(),
 				DonationStatus.APPROVED,
-				amount
+				donation.originalAmount ?? donation.amount,
+				undefined,
+				undefined,
+				undefined,
+				undefined,
+				donation.currency
 			);
 		}
 	} catch (error) {
@@ -65,103 +134,682 @@ const sendWebhookNotifications = async (
 	}
 };
 
-export const handleStripeWebhook = async (req: Request, res: Response) => {
-	const sig = req.headers["stripe-signature"] as string;
-	let event: Stripe.Event;
+// Draw sponsor matches for a confirmed donation without failing the webhook
+const recordSponsorMatches = async (donation: any) => {
+	try {
+		await applyDonationMatches(donation);
+	} catch (error) {
+		console.error(" Failed to record sponsor matches:", error);
+	}
+};
 
+// Announce cause and campaign milestones a settled donation pushed past
+const announceMilestones = async (req: Request, donation: any) => {
 	try {
-		event = stripe.webhooks.constructEvent(
-			req.body,
-			sig,
-			process.env.STRIPE_WEBHOOK_SECRET
+		await checkDonationMilestones(req.app.get("io"), donation);
+	} catch (error) {
+		console.error(" Failed to check goal milestones:", error);
+	}
+};
+
+/**
+ * Once a tribute gift is paid, issue its receipt (which records the
+ * dedication) and send the e-card. Each step runs once, so redelivered
+ * webhooks are safe, and neither failure affects the payment.
+ */
+const completeTributeDonation = async (donationId: string) => {
+	const donation: any = await Donation.findById(donationId)
+		.populate("donor", "email")
+		.populate("organization", "name email")
+		.populate("cause", "title");
+	const tribute = donation?.tribute;
+	if (!tribute?.honoreeName || donation.status !== DonationStatus.CONFIRMED) {
+		return;
+	}
+
+	const profile = await DonorProfile.findOne({ userId: donation.donor?._id });
+	const donorName = profile
+		? `${profile.firstName} ${profile.lastName}`
+		: "Donor";
+
+	if (!donation.pdfReceiptUrl) {
+		try {
+			donation.pdfReceiptUrl = await generateDonationReceipt({
+				donationId: donation._id.toString(),
+				donorName,
+				donorEmail: donation.donor?.email || donation.contactEmail,
+				organizationName: donation.organization?.name || "Organization",
+				organizationEmail: donation.organization?.email || "No email provided",
+				amount: donation.amount,
+				currency: donation.currency,
+				originalAmount: donation.originalAmount,
+				fxRate: donation.fxRate,
+				fees: donation.fees,
+				tribute,
+				type: donation.type,
+				description: donation.description,
+				receivedDate: donation.confirmationDate || new Date(),
+				cause: donation.cause?.title,
+			});
+			await donation.save();
+		} catch (error) {
+			console.error(" Failed to generate tribute receipt:", error);
+		}
+	}
+
+	if (tribute.recipientEmail && !tribute.ecardSentAt) {
+		try {
+			await sendTributeCard({
+				to: tribute.recipientEmail,
+				donationId: donation._id.toString(),
+				recipientName: tribute.recipientName,
+				honoreeName: tribute.honoreeName,
+				inMemory: tribute.type === TributeType.IN_MEMORY,
+				donorName: donation.isAnonymous ? "A donor" : donorName,
+				organizationName: donation.organization?.name || "Organization",
+				causeTitle: donation.cause?.title,
+				message: tribute.message,
+			});
+			tribute.ecardSentAt = new Date();
+			await donation.save();
+		} catch (error) {
+			console.error(" Failed to send tribute e-card:", error);
+		}
+	}
+};
+
+interface MoneyDonationData {
+	donorId: string;
+	organizationId: string;
+	causeId: string;
+	campaignId?: string;
+	amount: number; // Charged, in the currency the donor paid
+	currency: string;
+	description: string;
+	contactPhone: string;
+	contactEmail: string;
+	recurringDonationId?: string;
+	fundraisingPageId?: string; // Personal fundraiser the gift was made through
+	isAnonymous?: boolean;
+	hideAmount?: boolean;
+	coverFees?: boolean; // The charge already includes the fees on top of the gift
+	tribute?: {
+		type: TributeType;
+		honoreeName: string;
+		recipientName?: string;
+		recipientEmail?: string;
+		message?: string;
+	};
+}
+
+// Build an unsaved PENDING monetary donation, stored in the base currency
+// alongside what the donor pays and the fees taken from it
+const buildPendingMoneyDonation = (data: MoneyDonationData) => {
+	const currency = normalizeCurrency(data.currency);
+	const { baseAmount, fxRate } = convertToBase(data.amount, currency);
+
+	return new Donation({
+		donor: data.donorId,
+		organization: data.organizationId,
+		campaign: data.campaignId || undefined,
+		cause: data.causeId,
+		type: DonationType.MONEY,
+		status: DonationStatus.PENDING,
+		amount: baseAmount,
+		currency,
+		originalAmount: data.amount,
+		fxRate,
+		fees: calculateFees(data.amount, currency, Boolean(data.coverFees)),
+		tribute: data.tribute,
+		description: data.description,
+		contactPhone: data.contactPhone,
+		contactEmail: data.contactEmail,
+		paymentProvider: getPaymentProvider().name,
+		recurringDonation: data.recurringDonationId,
+		fundraisingPage: data.fundraisingPageId || undefined,
+		isAnonymous: Boolean(data.isAnonymous),
+		hideAmount: Boolean(data.hideAmount),
+		isPickup: false,
+		statusHistory: [
+			{
+				to: DonationStatus.PENDING,
+				changedBy: data.donorId,
+				role: "donor",
+				changedAt: new Date(),
+			},
+		],
+	});
+};
+
+// Walk a pending or previously declined donation through capture and
+// settlement, then credit the ledger and draw sponsor matches. The campaign's
+// co-host split is fixed at settlement so later rule changes do not move
+// money already received.
+const settleMoneyDonation = async (donation: any) => {
+	transitionDonation(donation, DonationStatus.APPROVED, {
+		role: "system",
+		note: `Payment captured by ${getPaymentProvider().name}`,
+	});
+	transitionDonation(donation, DonationStatus.CONFIRMED, {
+		role: "system",
+	});
+	donation.failureReason = undefined;
+	const allocation = await getCampaignAllocation(
+		donation.campaign,
+		donation.cause
+	);
+	donation.allocation = allocation.length > 0 ? allocation : undefined;
+	await donation.save();
+
+	await recordDonationEntries(donation);
+	await recordSponsorMatches(donation);
+
+	return donation;
+};
+
+// Create a monetary donation for a captured payment that has no pending
+// donation, such as a recurring charge
+const createConfirmedMoneyDonation = async (
+	data: MoneyDonationData & { paymentIntentId: string; paymentStatus: string }
+) => {
+	const donation = buildPendingMoneyDonation(data);
+	donation.paymentIntentId = data.paymentIntentId;
+	donation.paymentStatus = data.paymentStatus;
+
+	return settleMoneyDonation(donation);
+};
+
+// The pending donation created when a one-off checkout started
+const findCheckoutDonation = async (ref: {
+	donationId?: string;
+	sessionId?: string;
+	paymentId?: string;
+}) => {
+	if (ref.donationId && mongoose.Types.ObjectId.isValid(ref.donationId)) {
+		const donation = await Donation.findById(ref.donationId);
+		if (donation) {
+			return donation;
+		}
+	}
+	if (ref.sessionId) {
+		const donation = await Donation.findOne({
+			checkoutSessionId: ref.sessionId,
+		});
+		if (donation) {
+			return donation;
+		}
+	}
+	return ref.paymentId
+		? Donation.findOne({ paymentIntentId: ref.paymentId })
+		: null;
+};
+
+// Find the pledge behind a provider subscription. Payment events can arrive
+// before checkout completion, so fall back to the pledge ID we attach to the
+// subscription metadata at checkout.
+const findRecurringDonationForSubscription = async (subscriptionId: string) => {
+	let pledge = await RecurringDonation.findOne({
+		stripeSubscriptionId: subscriptionId,
+	});
+
+	if (!pledge) {
+		const subscription =
+			await getPaymentProvider().getSubscription(subscriptionId);
+		const pledgeId = subscription?.metadata?.recurringDonationId;
+		if (pledgeId) {
+			pledge = await RecurringDonation.findById(pledgeId);
+			if (pledge) {
+				pledge.stripeSubscriptionId = subscriptionId;
+				pledge.stripeCustomerId = subscription.customerId;
+			}
+		}
+	}
+
+	return pledge;
+};
+
+const activateRecurringDonation = async (event: CheckoutCompletedEvent) => {
+	const pledge = await RecurringDonation.findById(
+		event.metadata?.recurringDonationId
+	);
+	if (!pledge) {
+		console.error(
+			` No recurring donation found for session ${event.sessionId}`
 		);
-		console.log("---------------", req.body);
-	} catch (err) {
-		console.error("Webhook signature verification failed.", err);
-		return res.sendStatus(400);
+		return;
+	}
+
+	pledge.stripeSubscriptionId = event.subscriptionId;
+	pledge.stripeCustomerId = event.customerId;
+	if (pledge.status === RecurringDonationStatus.INCOMPLETE) {
+		pledge.status = RecurringDonationStatus.ACTIVE;
 	}
+	await pledge.save();
+};
+
+// Record a completed one-off checkout as a confirmed donation
+const recordCheckoutPayment = async (
+	req: Request,
+	event: CheckoutCompletedEvent
+) => {
+	const organizationId = event.metadata?.organizationId;
+	const causeId = event.metadata?.causeId;
+	const campaignId = event.metadata?.campaignId;
+	const donorId = event.metadata?.donorId;
+	const contactEmail =
+		event.customerEmail || event.metadata?.contactEmail || "";
+	const contactPhone = event.metadata?.contactPhone || "";
+	const description = event.metadata?.description || "";
+	const isAnonymous = event.metadata?.isAnonymous === "true";
+	const hideAmount = event.metadata?.hideAmount === "true";
+	const coverFees = event.metadata?.coverFees === "true";
+	const paymentIntentId = event.paymentId;
+	const paymentStatus = event.paymentStatus;
+	const amount = event.amount;
+
+	let donation: any = await findCheckoutDonation({
+		donationId: event.metadata?.donationId,
+		sessionId: event.sessionId,
+		paymentId: paymentIntentId,
+	});
 
-	if (event.type === "checkout.session.completed") {
-		const session = event.data.object as Stripe.Checkout.Session;
+	if (donation) {
+		// Providers may deliver the same event more than once; a replay after a
+		// failed attempt still completes the ledger
+		if (
+			donation.status !== DonationStatus.PENDING &&
+			donation.status !== DonationStatus.FAILED
+		) {
+			if (donation.status === DonationStatus.CONFIRMED) {
+				await recordDonationEntries(donation);
+				await completeTributeDonation(donation._id.toString());
+			}
+			return;
+		}
+		donation.paymentIntentId = paymentIntentId;
+		donation.paymentStatus = paymentStatus;
+		await settleMoneyDonation(donation);
+	} else {
+		// Sessions started before donations were created at checkout
+		donation = await createConfirmedMoneyDonation({
+			donorId,
+			organizationId,
+			causeId,
+			campaignId,
+			amount,
+			currency: event.currency || event.metadata?.currency,
+			description,
+			contactPhone,
+			contactEmail,
+			paymentIntentId,
+			paymentStatus,
+			isAnonymous,
+			hideAmount,
+			coverFees,
+			fundraisingPageId: event.metadata?.fundraisingPageId,
+		});
+	}
 
-		const organizationId = session.metadata?.organizationId;
-		const causeId = session.metadata?.causeId;
-		const campaignId = session.metadata?.campaignId;
-		const donorId = session.metadata?.donorId;
-		const contactEmail =
-			session.customer_details?.email || session.metadata?.contactEmail || "";
-		const contactPhone = session.metadata?.contactPhone || "";
-		const description = session.metadata?.description || "";
-		const paymentIntentId = session.payment_intent as string;
-		const paymentStatus = session.payment_status;
-		const amount = (session.amount_total ?? 0) / 100; // convert to rupees
+	// Send notifications and emails via webhook
+	await sendWebhookNotifications(
+		req,
+		donation,
+		organizationId,
+		donorId,
+		causeId
+	);
 
+	await announceMilestones(req, donation);
+	await completeTributeDonation(donation._id.toString());
+};
+
+// Record one monthly charge of a pledge as a donation
+const recordRecurringPayment = async (
+	req: Request,
+	event: SubscriptionPaymentEvent
+) => {
+	const { subscriptionId, paymentId: paymentIntentId } = event;
+
+	if (!subscriptionId || !paymentIntentId || !event.amount) {
+		return;
+	}
+
+	// Providers may deliver the same event more than once
+	const existingCharge = await Donation.findOne({ paymentIntentId });
+	if (existingCharge) {
+		if (existingCharge.status === DonationStatus.CONFIRMED) {
+			await recordDonationEntries(existingCharge);
+		}
+		return;
+	}
+
+	const pledge = await findRecurringDonationForSubscription(subscriptionId);
+	if (!pledge) {
+		console.error(` No recurring donation found for ${subscriptionId}`);
+		return;
+	}
+
+	const amount = event.amount;
+	const donation = await createConfirmedMoneyDonation({
+		donorId: pledge.donor.toString(),
+		organizationId: pledge.organization.toString(),
+		causeId: pledge.cause.toString(),
+		campaignId: pledge.campaign?.toString(),
+		amount,
+		currency: event.currency || pledge.currency,
+		description: pledge.description || "Monthly donation",
+		contactPhone: pledge.contactPhone || "",
+		contactEmail: event.customerEmail || pledge.contactEmail || "",
+		paymentIntentId,
+		paymentStatus: event.paymentStatus,
+		recurringDonationId: pledge._id.toString(),
+		isAnonymous: pledge.isAnonymous,
+		hideAmount: pledge.hideAmount,
+		coverFees: pledge.coverFees,
+	});
+
+	if (pledge.status === RecurringDonationStatus.INCOMPLETE) {
+		pledge.status = RecurringDonationStatus.ACTIVE;
+	}
+	pledge.lastPaymentAt = new Date();
+	pledge.totalDonated += amount;
+	pledge.paymentCount += 1;
+	await pledge.save();
+
+	await sendWebhookNotifications(
+		req,
+		donation,
+		pledge.organization.toString(),
+		pledge.donor.toString(),
+		pledge.cause.toString()
+	);
+
+	await announceMilestones(req, donation);
+};
+
+// Bring a donation in line with the refunds the provider reports for its payment
+const applyChargeRefund = async (req: Request, event: PaymentRefundedEvent) => {
+	const paymentIntentId = event.paymentId;
+	if (!paymentIntentId) {
+		return;
+	}
+
+	const donation = await Donation.findOne({ paymentIntentId })
+		.populate("donor", "email")
+		.populate("organization", "name")
+		.populate("cause", "title");
+	if (!donation) {
+		console.error(` No donation found for refunded charge ${event.chargeId}`);
+		return;
+	}
+
+	// Providers report refunds in the donor's currency; donations track base amounts
+	const fxRate = donation.fxRate || 1;
+	const totalRefunded = event.fullyRefunded
+		? donation.amount
+		: Math.min(donation.amount, roundMoney(event.amountRefunded * fxRate));
+	const newlyRefunded = totalRefunded - (donation.refundedAmount || 0);
+
+	// Providers may deliver the same event more than once
+	if (newlyRefunded <= 0) {
+		return;
+	}
+
+	// Sync refund records, including ones issued from the provider's dashboard
+	const refunds = await getPaymentProvider().listRefunds(paymentIntentId);
+	refunds.forEach((refund) => {
+		const existing = donation.refunds.find((r) => r.refundId === refund.id);
+		if (existing) {
+			existing.status = refund.status || existing.status;
+		} else {
+			donation.refunds.push({
+				refundId: refund.id,
+				amount: roundMoney(refund.amount * fxRate),
+				reason: refund.reason,
+				status: refund.status || "succeeded",
+				requestedAt: refund.createdAt,
+			});
+		}
+	});
+
+	donation.refundedAmount = totalRefunded;
+	transitionDonation(
+		donation,
+		event.fullyRefunded
+			? DonationStatus.REFUNDED
+			: DonationStatus.PARTIALLY_REFUNDED,
+		{
+			role: "system",
+			note: `Refunded ${formatMoney(newlyRefunded)} via ${getPaymentProvider().name}`,
+		}
+	);
+	await donation.save();
+
+	await recordRefundEntry(
+		donation,
+		newlyRefunded,
+		totalRefunded,
+		event.chargeId
+	);
+
+	try {
+		await reverseDonationMatches(donation);
+	} catch (error) {
+		console.error(" Failed to reverse sponsor matches:", error);
+	}
+
+	const donorData = donation.donor as any;
+	const donorEmail = donorData?.email || donation.contactEmail;
+	if (donorEmail) {
 		try {
-			// Check if donation with this paymentIntentId already exists
-			let existingDonation = await Donation.findOne({ paymentIntentId });
-			let donation: any;
-
-			if (existingDonation) {
-				existingDonation.status = DonationStatus.APPROVED;
-				existingDonation.paymentStatus = paymentStatus;
-				await existingDonation.save();
-				donation = existingDonation;
-			} else {
-				//  Create new donation
-				donation = await Donation.create({
-					donor: donorId,
-					organization: organizationId,
-					campaign: campaignId || undefined,
-					cause: causeId,
-					type: DonationType.MONEY,
-					status: DonationStatus.CONFIRMED,
-					amount,
-					description,
-					contactPhone,
-					contactEmail,
-					paymentIntentId,
-					paymentStatus,
-					isPickup: false,
-				});
+			await sendEmail(
+				donorEmail,
+				donation._id.toString(),
+				donation.status,
+				convertFromBase(newlyRefunded, fxRate),
+				undefined,
+				undefined,
+				undefined,
+				undefined,
+				donation.currency
+			);
+		} catch (emailError) {
+			console.error(" Failed to send refund email:", emailError);
+		}
+	}
 
-				// Update cause raised amount
-				if (causeId && amount) {
-					const cause = await Cause.findById(causeId);
-					if (cause) {
-						cause.raisedAmount = (cause.raisedAmount || 0) + amount;
-						await cause.save();
-					}
+	const io = req.app.get("io");
+	if (io && donorData?._id) {
+		try {
+			await new NotificationService(io).createDonationStatusNotification(
+				donorData._id.toString(),
+				{
+					donationId: donation._id.toString(),
+					status: donation.status,
+					organizationName:
+						(donation.organization as any)?.name || "Organization",
+					cause: (donation.cause as any)?.title || "Unknown cause",
 				}
+			);
+		} catch (notificationError) {
+			console.error(" Failed to send refund notification:", notificationError);
+		}
+	}
+};
+
+// Record a declined payment attempt; the donor may still retry on the same
+// checkout session
+const recordPaymentFailure = async (event: PaymentFailedEvent) => {
+	const donation = await findCheckoutDonation({
+		donationId: event.metadata?.donationId,
+		paymentId: event.paymentId,
+	});
+
+	// Failed subscription charges have no pending donation
+	if (
+		!donation ||
+		(donation.status !== DonationStatus.PENDING &&
+			donation.status !== DonationStatus.FAILED)
+	) {
+		return;
+	}
+
+	donation.paymentIntentId = event.paymentId;
+	donation.paymentStatus = "failed";
+	donation.failureReason = event.failureReason;
+	transitionDonation(donation, DonationStatus.FAILED, {
+		role: "system",
+		note: event.failureReason,
+	});
+	await donation.save();
+};
+
+// Cancel the donation or pledge behind a checkout the donor never completed
+const cancelExpiredCheckout = async (event: CheckoutExpiredEvent) => {
+	if (event.mode === "subscription") {
+		await RecurringDonation.findOneAndUpdate(
+			{
+				_id: event.metadata?.recurringDonationId,
+				status: RecurringDonationStatus.INCOMPLETE,
+			},
+			{
+				status: RecurringDonationStatus.CANCELLED,
+				cancelledAt: new Date(),
 			}
+		);
+		return;
+	}
 
-			// Send notifications and emails via webhook
-			await sendWebhookNotifications(
-				req,
-				donation,
-				organizationId,
-				donorId,
-				causeId,
-				amount
+	const donation = await findCheckoutDonation({
+		donationId: event.metadata?.donationId,
+		sessionId: event.sessionId,
+	});
+	if (
+		!donation ||
+		(donation.status !== DonationStatus.PENDING &&
+			donation.status !== DonationStatus.FAILED)
+	) {
+		return;
+	}
+
+	const reason = donation.failureReason
+		? `Checkout expired after a declined payment: ${donation.failureReason}`
+		: "Checkout expired before payment";
+	donation.cancellationReason = reason;
+	transitionDonation(donation, DonationStatus.CANCELLED, {
+		role: "system",
+		note: reason,
+	});
+	await donation.save();
+};
+
+// Apply a verified provider event to donations and pledges. Errors propagate
+// so the stored webhook event records the failure.
+export const processPaymentEvent = async (
+	req: Request,
+	event: PaymentWebhookEvent
+) => {
+	switch (event.type) {
+		case "checkout.completed":
+			// Subscription checkouts only activate the pledge; each charge is
+			// recorded when its payment succeeds
+			if (event.mode === "subscription") {
+				await activateRecurringDonation(event);
+				return;
+			}
+			await recordCheckoutPayment(req, event);
+			return;
+
+		case "checkout.expired":
+			await cancelExpiredCheckout(event);
+			return;
+
+		case "payment.failed":
+			await recordPaymentFailure(event);
+			return;
+
+		case "subscription.payment_succeeded":
+			await recordRecurringPayment(req, event);
+			return;
+
+		case "payment.refunded":
+			await applyChargeRefund(req, event);
+			return;
+
+		case "subscription.cancelled":
+			await RecurringDonation.findOneAndUpdate(
+				{ stripeSubscriptionId: event.subscriptionId },
+				{
+					status: RecurringDonationStatus.CANCELLED,
+					cancelledAt: new Date(),
+				}
 			);
-		} catch (err) {
-			console.error(" Failed to process payment data:", err);
-		}
+			return;
+	}
+};
+
+// Store a verified event, skip redeliveries and process it with a recorded outcome
+export const ingestPaymentEvent = async (
+	req: Request,
+	event: PaymentWebhookEvent
+): Promise<IWebhookEvent> => {
+	const { record, isDuplicate } = await storeWebhookEvent(
+		getPaymentProvider().name,
+		event
+	);
+	if (isDuplicate) {
+		return record;
+	}
+
+	return runWebhookEvent(record, (storedEvent) =>
+		processPaymentEvent(req, storedEvent)
+	);
+};
+
+export const handlePaymentWebhook = async (req: Request, res: Response) => {
+	let event: PaymentWebhookEvent;
+
+	try {
+		event = getPaymentProvider().constructWebhookEvent(req.body, req.headers);
+	} catch (err) {
+		console.error("Webhook signature verification failed.", err);
+		return res.sendStatus(400);
 	}
 
-	return res.sendStatus(200);
+	try {
+		const record = await ingestPaymentEvent(req, event);
+
+		// A non-2xx response makes the provider retry the delivery, including
+		// while another attempt still holds the event
+		if (
+			record.status === WebhookEventStatus.FAILED ||
+			record.status === WebhookEventStatus.PROCESSING
+		) {
+			return res.sendStatus(500);
+		}
+		return res.sendStatus(200);
+	} catch (err) {
+		console.error(" Failed to store webhook event:", err);
+		return res.sendStatus(500);
+	}
 };
 
+// Start a one-off checkout. The donation is recorded as PENDING right away and
+// settled, failed or cancelled by the provider's webhooks.
 export const checkoutSession = async (req: Request, res: Response) => {
-	console.log("here");
 	const {
 		amount,
-		organizationId,
-		causeId,
-		campaignId,
 		description,
 		contactPhone,
 		contactEmail,
+		isAnonymous,
+		hideAmount,
+		coverFees,
+		tribute,
+		fundraisingPageId,
+		currency: requestedCurrency,
 	} = req.body;
+	let { organizationId, causeId, campaignId } = req.body;
 
 	if (!req.user?.id) {
 		return res.status(401).json({ message: "User not authenticated" });
@@ -170,25 +818,57 @@ export const checkoutSession = async (req: Request, res: Response) => {
 	if (!amount || amount <= 0)
 		return res.status(400).json({ error: "Invalid amount" });
 
+	if (!fundraisingPageId && (!organizationId || !causeId))
+		return res
+			.status(400)
+			.json({ error: "Organization and cause are required" });
+
 	try {
-		const session = await stripe.checkout.sessions.create({
-			payment_method_types: ["card"],
-			mode: "payment",
-			line_items: [
-				{
-					price_data: {
-						currency: "inr",
-						unit_amount: Math.round(amount * 100), // cents
-						product_data: {
-							name: "Donation",
-						},
-					},
-					quantity: 1,
-				},
-			],
-			success_url: `${process.env.FRONTEND_URL || "http://localhost:3000"}/dashboard/donations?payment=success`,
-			cancel_url: `${process.env.FRONTEND_URL || "http://localhost:3000"}/dashboard/donations?payment=cancelled`,
+		// Gifts through a personal fundraiser go to the page's campaign cause
+		if (fundraisingPageId) {
+			const page = await getDonatablePage(fundraisingPageId);
+			organizationId = page.organization.toString();
+			causeId = page.cause.toString();
+			campaignId = page.campaign.toString();
+		}
+
+		const currency = normalizeCurrency(requestedCurrency);
+		// Donors covering fees are charged enough for the gift to arrive in full
+		const chargeAmount = coverFees ? grossUpForFees(amount, currency) : amount;
+		const donation = buildPendingMoneyDonation({
+			donorId: req.user.id.toString(),
+			organizationId,
+			causeId,
+			campaignId,
+			amount: chargeAmount,
+			currency,
+			description,
+			contactPhone,
+			contactEmail,
+			isAnonymous,
+			hideAmount,
+			coverFees: Boolean(coverFees),
+			fundraisingPageId,
+			tribute: tribute
+				? {
+						type: tribute.type,
+						honoreeName: tribute.honoreeName,
+						recipientName: tribute.recipientName,
+						recipientEmail: tribute.recipientEmail,
+						message: tribute.message,
+					}
+				: undefined,
+		});
+		await donation.validate();
+
+		const session = await getPaymentProvider().createCheckoutSession({
+			amount: chargeAmount,
+			currency,
+			productName: "Donation",
+			successUrl: `${PAYMENT_CONFIG.frontendUrl}/dashboard/donations?payment=success`,
+			cancelUrl: `${PAYMENT_CONFIG.frontendUrl}/dashboard/donations?payment=cancelled`,
 			metadata: {
+				donationId: donation._id.toString(),
 				organizationId,
 				donorId: req.user.id.toString(), // Use authenticated user's ID
 				causeId,
@@ -196,12 +876,283 @@ export const checkoutSession = async (req: Request, res: Response) => {
 				description: description || "",
 				contactPhone: contactPhone || "",
 				contactEmail: contactEmail || "",
+				isAnonymous: String(Boolean(isAnonymous)),
+				hideAmount: String(Boolean(hideAmount)),
+				coverFees: String(Boolean(coverFees)),
+				fundraisingPageId: fundraisingPageId || "",
+				currency,
 			},
 		});
 
-		res.json({ url: session.url });
+		donation.checkoutSessionId = session.id;
+		await donation.save();
+
+		res.json({
+			url: session.url,
+			donationId: donation._id,
+			chargeAmount,
+			fees: donation.fees,
+		});
 	} catch (err: any) {
+		if (err instanceof AppError) {
+			return res.status(err.statusCode).json({ error: err.message });
+		}
+		if (err?.name === "ValidationError") {
+			return res.status(400).json({ error: err.message });
+		}
 		console.error(err);
 		res.status(500).json({ error: "Something went wrong" });
 	}
 };
+
+// Start a subscription checkout for a fixed monthly pledge
+export const createSubscriptionCheckoutSession = async (
+	req: Request,
+	res: Response
+) => {
+	const {
+		amount,
+		organizationId,
+		causeId,
+		campaignId,
+		description,
+		contactPhone,
+		contactEmail,
+		isAnonymous,
+		hideAmount,
+		coverFees,
+		currency: requestedCurrency,
+	} = req.body;
+
+	if (!req.user?.id) {
+		return res.status(401).json({ message: "User not authenticated" });
+	}
+
+	if (!amount || amount <= 0)
+		return res.status(400).json({ error: "Invalid amount" });
+
+	if (!organizationId || !causeId)
+		return res
+			.status(400)
+			.json({ error: "Organization and cause are required" });
+
+	try {
+		const currency = normalizeCurrency(requestedCurrency);
+		const pledge = new RecurringDonation({
+			donor: req.user.id,
+			organization: organizationId,
+			cause: causeId,
+			campaign: campaignId || undefined,
+			amount,
+			currency,
+			description,
+			contactPhone,
+			contactEmail,
+			isAnonymous: Boolean(isAnonymous),
+			hideAmount: Boolean(hideAmount),
+			coverFees: Boolean(coverFees),
+			paymentProvider: getPaymentProvider().name,
+		});
+
+		const metadata = {
+			recurringDonationId: pledge._id.toString(),
+			organizationId,
+			donorId: req.user.id.toString(),
+			causeId,
+			campaignId: campaignId || "",
+		};
+
+		const session =
+			await getPaymentProvider().createSubscriptionCheckoutSession({
+				amount: coverFees ? grossUpForFees(amount, currency) : amount,
+				currency,
+				productName: "Monthly Donation",
+				interval: "month",
+				customerEmail: contactEmail || undefined,
+				successUrl: `${PAYMENT_CONFIG.frontendUrl}/dashboard/donations?pledge=success`,
+				cancelUrl: `${PAYMENT_CONFIG.frontendUrl}/dashboard/donations?pledge=cancelled`,
+				metadata,
+			});
+
+		pledge.checkoutSessionId = session.id;
+		await pledge.save();
+
+		res.json({ url: session.url, recurringDonationId: pledge._id });
+	} catch (err: any) {
+		if (err instanceof AppError) {
+			return res.status(err.statusCode).json({ error: err.message });
+		}
+		console.error(err);
+		res.status(500).json({ error: "Something went wrong" });
+	}
+};
+
+// Refund records that will never return money to the donor
+const FAILED_REFUND_STATUSES = ["failed", "canceled"];
+
+// A reservation whose provider call never reported back (e.g. the server
+// stopped mid-request) stops holding the amount after this long
+const REFUND_RESERVATION_MS = 10 * 60 * 1000;
+
+// Base amount refunded or on its way back to the donor. Providers often
+// accept a refund as succeeded straight away while refundedAmount only moves
+// when the webhook arrives, so every refund requested and not failed counts.
+const getCommittedRefunds = (donation: any): number => {
+	const requested = donation.refunds
+		.filter(
+			(refund: any) =>
+				!FAILED_REFUND_STATUSES.includes(refund.status) &&
+				!(
+					refund.status === "reserved" &&
+					Date.now() - refund.requestedAt.getTime() > REFUND_RESERVATION_MS
+				)
+		)
+		.reduce((sum: number, refund: any) => sum + refund.amount, 0);
+	return Math.max(donation.refundedAmount || 0, roundMoney(requested));
+};
+
+// Request a full or partial refund of a monetary donation. The amount is
+// reserved on the donation before the provider is called, so concurrent
+// requests cannot both refund it; the donation's status and refundedAmount
+// are updated when the provider confirms the refund by webhook.
+export const refundDonation = async (req: Request, res: Response) => {
+	try {
+		if (!req.user?._id) {
+			return res.status(401).json({ message: "User not authenticated" });
+		}
+
+		const { donationId } = req.params;
+		const { amount, reason } = req.body;
+
+		if (!mongoose.Types.ObjectId.isValid(donationId)) {
+			return res.status(400).json({
+				success: false,
+				message: "Valid donation ID is required",
+			});
+		}
+
+		const donation = await Donation.findById(donationId);
+		if (!donation) {
+			return res.status(404).json({
+				success: false,
+				message: "Donation not found",
+			});
+		}
+
+		if (req.user.role !== "admin") {
+			const organization = await Organization.findOne({
+				_id: donation.organization,
+				userId: req.user._id,
+			});
+			if (!organization) {
+				return res.status(403).json({
+					success: false,
+					message: "You do not have permission to refund this donation",
+				});
+			}
+		}
+
+		if (
+			donation.type !== DonationType.MONEY ||
+			!donation.paymentIntentId ||
+			![DonationStatus.CONFIRMED, DonationStatus.PARTIALLY_REFUNDED].includes(
+				donation.status
+			)
+		) {
+			return res.status(400).json({
+				success: false,
+				message: "Only confirmed monetary donations can be refunded",
+			});
+		}
+
+		// Count refunds still in flight so they cannot be requested twice
+		const refundable = roundMoney(
+			(donation.amount || 0) - getCommittedRefunds(donation)
+		);
+		const refundAmount = amount === undefined ? refundable : Number(amount);
+
+		if (!refundAmount || refundAmount <= 0 || refundAmount > refundable) {
+			return res.status(400).json({
+				success: false,
+				message: `Refund amount must be between 0 and ${refundable.toFixed(2)}`,
+			});
+		}
+
+		// Reserve the amount; fails if another refund or webhook changed the
+		// donation's refunds since it was read
+		const reservationId = new mongoose.Types.ObjectId();
+		const reserved = await Donation.updateOne(
+			{ _id: donation._id, refunds: { $size: donation.refunds.length } },
+			{
+				$push: {
+					refunds: {
+						_id: reservationId,
+						refundId: `reserved:${reservationId}`,
+						amount: refundAmount,
+						reason,
+						status: "reserved",
+						requestedBy: new mongoose.Types.ObjectId(req.user._id),
+						requestedAt: new Date(),
+					},
+				},
+			}
+		);
+		if (reserved.modifiedCount === 0) {
+			return res.status(409).json({
+				success: false,
+				message:
+					"Another refund for this donation is being processed; please try again",
+			});
+		}
+
+		let refund;
+		try {
+			// Refunds are entered in the base currency but paid out in the donor's
+			refund = await getPaymentProvider().createRefund({
+				paymentId: donation.paymentIntentId,
+				amount: convertFromBase(refundAmount, donation.fxRate),
+				metadata: {
+					donationId: donation._id.toString(),
+					requestedBy: req.user._id.toString(),
+					reason: reason || "",
+				},
+			});
+		} catch (error) {
+			await Donation.updateOne(
+				{ _id: donation._id, "refunds._id": reservationId },
+				{ $set: { "refunds.$.status": "failed" } }
+			);
+			throw error;
+		}
+
+		// The refund webhook may already have recorded it under its provider ID
+		const alreadySynced = await Donation.updateOne(
+			{ _id: donation._id, "refunds.refundId": refund.id },
+			{ $pull: { refunds: { _id: reservationId } } }
+		);
+		if (alreadySynced.modifiedCount === 0) {
+			await Donation.updateOne(
+				{ _id: donation._id, "refunds._id": reservationId },
+				{
+					$set: {
+						"refunds.$.refundId": refund.id,
+						"refunds.$.status": refund.status || "pending",
+					},
+				}
+			);
+		}
+
+		res.status(202).json({
+			success: true,
+			data: await Donation.findById(donation._id),
+			message: "Refund requested",
+		});
+	} catch (err: any) {
+		console.error(err);
+		res.status(500).json({
+			success: false,
+			message: "Error requesting refund",
+			error: err?.message || "Unknown error occurred",
+		});
+	}
+};
@@ -21,6 +21,7 @@ export const completeDonorProfile = async (req: AuthRequest, res: Response) => {
 			country,
 			bio,
 			profileImage,
+			taxId,
 		} = req.body;
 
 		// Validate required fields
@@ -55,6 +56,9 @@ export const completeDonorProfile = async (req: AuthRequest, res: Response) => {
 			donorProfile.state = state;
 			donorProfile.country = country;
 			donorProfile.bio = bio;
+			if (taxId !== undefined) {
+				donorProfile.taxId = taxId;
+			}
 			if (profileImage !== undefined) {
 				donorProfile.profileImage = profileImage;
 			}
@@ -71,6 +75,7 @@ export const completeDonorProfile = async (req: AuthRequest, res: Response) => {
 				country,
 				bio,
 				profileImage,
+				taxId,
 			});
 		}
 
@@ -109,6 +114,7 @@ export const completeOrganizationProfile = async (
 			city,
 			state,
 			country,
+			taxRegistration,
 		} = req.body;
 
 		// Validate required fields
@@ -144,6 +150,9 @@ export const completeOrganizationProfile = async (
 			orgProfile.city = city;
 			orgProfile.state = state;
 			orgProfile.country = country;
+			if (taxRegistration !== undefined) {
+				orgProfile.taxRegistration = taxRegistration;
+			}
 		} else {
 			// Create new profile
 			orgProfile = new Organization({
@@ -157,6 +166,7 @@ export const completeOrganizationProfile = async (
 				city,
 				state,
 				country,
+				taxRegistration,
 				verified: false,
 			});
 		}
@@ -252,6 +262,7 @@ export const updateDonorProfile = async (req: AuthRequest, res: Response) => {
 			country,
 			bio,
 			profileImage,
+			taxId,
 		} = req.body;
 
 		const updates = {
@@ -264,6 +275,7 @@ export const updateDonorProfile = async (req: AuthRequest, res: Response) => {
 			country,
 			bio,
 			profileImage,
+			taxId,
 		};
 
 		for (const [key, value] of Object.entries(updates)) {
@@ -327,6 +339,7 @@ export const updateOrganizationProfile = async (
 			state,
 			country,
 			logo,
+			taxRegistration,
 		} = req.body;
 
 		const updates = {
@@ -340,6 +353,7 @@ export const updateOrganizationProfile = async (
 			state,
 			country,
 			logo,
+			taxRegistration,
 		};
 
 		for (const [key, value] of Object.entries(updates)) {
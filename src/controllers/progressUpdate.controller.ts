@@ -0,0 +1,271 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Campaign from "../models/campaign.model";
+import Cause from "../models/cause.model";
+import Organization from "../models/organization.model";
+import ProgressUpdate, {
+	IProgressUpdate,
+} from "../models/progressUpdate.model";
+import { AppError } from "../utils/appError";
+import { catchAsync } from "../utils/catchAsync";
+import { notifyUpdateSupporters } from "../services/progressUpdateService";
+
+// Organization profile of the authenticated organization user
+const getOwnOrganization = async (req: Request) => {
+	if (!req.user?._id) {
+		throw new AppError("User not authenticated", 401);
+	}
+	const organization = await Organization.findOne({ userId: req.user._id });
+	if (!organization) {
+		throw new AppError("Organization not found for the logged-in user", 404);
+	}
+	return organization;
+};
+
+// An image delivered from our Cloudinary account's updates folder, as the
+// update-image upload route returns it
+const isUploadedUpdateImage = (value: unknown): boolean => {
+	if (typeof value !== "string") {
+		return false;
+	}
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		return false;
+	}
+	const [cloudName, resourceType, deliveryType, ...path] = url.pathname
+		.split("/")
+		.slice(1);
+	return (
+		url.protocol === "https:" &&
+		url.hostname === "res.cloudinary.com" &&
+		!url.search &&
+		cloudName === process.env.CLOUDINARY_CLOUD_NAME &&
+		resourceType === "image" &&
+		deliveryType === "upload" &&
+		path.slice(0, -1).includes("updates")
+	);
+};
+
+// Image URLs from the update-image upload route
+const parseImages = (images: unknown): string[] => {
+	if (images === undefined || images === null) {
+		return [];
+	}
+	if (!Array.isArray(images) || !images.every(isUploadedUpdateImage)) {
+		throw new AppError(
+			"Images must be a list of URLs from the update image upload",
+			400
+		);
+	}
+	return images;
+};
+
+const formatUpdates = async (updates: IProgressUpdate[]) => {
+	const [organizations, campaigns, causes] = await Promise.all([
+		Organization.find({
+			_id: { $in: updates.map((update) => update.organization) },
+		}).select("name logo"),
+		Campaign.find({
+			_id: { $in: updates.map((update) => update.campaign).filter(Boolean) },
+		}).select("title"),
+		Cause.find({
+			_id: { $in: updates.map((update) => update.cause).filter(Boolean) },
+		}).select("title"),
+	]);
+
+	return updates.map((update) => {
+		const organization = organizations.find(
+			(org) => org._id.toString() === update.organization.toString()
+		);
+		const campaign = campaigns.find(
+			(c) => c._id.toString() === update.campaign?.toString()
+		);
+		const cause = causes.find(
+			(c) => c._id.toString() === update.cause?.toString()
+		);
+
+		return {
+			id: update._id.toString(),
+			title: update.title,
+			body: update.body,
+			images: update.images,
+			organization: organization
+				? {
+						id: organization._id.toString(),
+						name: organization.name,
+						logo: organization.logo || null,
+					}
+				: null,
+			campaign: campaign
+				? { id: campaign._id.toString(), title: campaign.title }
+				: null,
+			cause: cause ? { id: cause._id.toString(), title: cause.title } : null,
+			createdAt: update.createdAt.toISOString(),
+		};
+	});
+};
+
+// Publish an update on one of the organization's campaigns or causes and
+// tell its past supporters
+export const createProgressUpdate = catchAsync(
+	async (req: Request, res: Response) => {
+		const organization = await getOwnOrganization(req);
+		const { campaignId, causeId, title, body, images } = req.body;
+
+		if (Boolean(campaignId) === Boolean(causeId)) {
+			throw new AppError("Provide either a campaign ID or a cause ID", 400);
+		}
+		if (!title || !body) {
+			throw new AppError("Title and update text are required", 400);
+		}
+		const imageUrls = parseImages(images);
+
+		let target: { name: string; organizationName: string };
+		if (campaignId) {
+			if (!mongoose.Types.ObjectId.isValid(campaignId)) {
+				throw new AppError("Invalid campaign ID", 400);
+			}
+			const campaign = await Campaign.findById(campaignId);
+			if (!campaign) {
+				throw new AppError("Campaign not found", 404);
+			}
+			if (
+				!campaign.organizations.some((orgId) => orgId.equals(organization._id))
+			) {
+				throw new AppError(
+					"Unauthorized: You can only post updates on your own campaigns",
+					403
+				);
+			}
+			target = { name: campaign.title, organizationName: organization.name };
+		} else {
+			if (!mongoose.Types.ObjectId.isValid(causeId)) {
+				throw new AppError("Invalid cause ID", 400);
+			}
+			const cause = await Cause.findById(causeId);
+			if (!cause) {
+				throw new AppError("Cause not found", 404);
+			}
+			if (!cause.organizationId.equals(organization._id)) {
+				throw new AppError(
+					"Unauthorized: You can only post updates on your own causes",
+					403
+				);
+			}
+			target = { name: cause.title, organizationName: organization.name };
+		}
+
+		const update = await ProgressUpdate.create({
+			organization: organization._id,
+			author: req.user!._id,
+			campaign: campaignId || undefined,
+			cause: causeId || undefined,
+			title,
+			body,
+			images: imageUrls,
+		});
+
+		const [formattedUpdate] = await formatUpdates([update]);
+
+		res.status(201).json({
+			success: true,
+			data: formattedUpdate,
+		});
+
+		// Supporters are told after responding, so a cause with many donors does
+		// not hold up the request; notifiedCount is filled in once it finishes
+		notifyUpdateSupporters(req.app.get("io"), update, target)
+			.then((notifiedCount) =>
+				ProgressUpdate.updateOne({ _id: update._id }, { notifiedCount })
+			)
+			.catch((error) => {
+				console.error(" Failed to notify supporters of update:", error);
+			});
+	}
+);
+
+// Public feed of updates, newest first, for a campaign, cause or organization
+export const getProgressUpdates = catchAsync(
+	async (req: Request, res: Response) => {
+		const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+		const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+
+		const query: Record<string, any> = {};
+		for (const field of ["campaign", "cause", "organization"]) {
+			const value = req.query[field];
+			if (!value) {
+				continue;
+			}
+			if (!mongoose.Types.ObjectId.isValid(value as string)) {
+				throw new AppError(`Invalid ${field} ID`, 400);
+			}
+			query[field] = value;
+		}
+
+		const [updates, total] = await Promise.all([
+			ProgressUpdate.find(query)
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit),
+			ProgressUpdate.countDocuments(query),
+		]);
+
+		res.status(200).json({
+			success: true,
+			data: await formatUpdates(updates),
+			pagination: {
+				total,
+				page,
+				pages: Math.ceil(total / limit),
+			},
+		});
+	}
+);
+
+export const getProgressUpdate = catchAsync(
+	async (req: Request, res: Response) => {
+		if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+			throw new AppError("Invalid update ID", 400);
+		}
+		const update = await ProgressUpdate.findById(req.params.id);
+		if (!update) {
+			throw new AppError("Update not found", 404);
+		}
+
+		const [formattedUpdate] = await formatUpdates([update]);
+
+		res.status(200).json({
+			success: true,
+			data: formattedUpdate,
+		});
+	}
+);
+
+// Remove an update the organization posted
+export const deleteProgressUpdate = catchAsync(
+	async (req: Request, res: Response) => {
+		const organization = await getOwnOrganization(req);
+		if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+			throw new AppError("Invalid update ID", 400);
+		}
+		const update = await ProgressUpdate.findById(req.params.id);
+		if (!update) {
+			throw new AppError("Update not found", 404);
+		}
+		if (!update.organization.equals(organization._id)) {
+			throw new AppError(
+				"Unauthorized: You can only delete your own updates",
+				403
+			);
+		}
+
+		await update.deleteOne();
+
+		res.status(200).json({
+			success: true,
+			message: "Update deleted successfully",
+		});
+	}
+);
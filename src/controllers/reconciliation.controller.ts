@@ -0,0 +1,113 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import ReconciliationReport from "../models/reconciliationReport.model";
+import { reconcilePayments } from "../services/reconciliationService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Run a reconciliation for ?from=&to= (defaults to the last 24 hours)
+export const runReconciliation = async (req: Request, res: Response) => {
+	try {
+		const { from, to } = { ...req.query, ...req.body };
+		const toDate = to ? new Date(to) : new Date();
+		const fromDate = from
+			? new Date(from)
+			: new Date(toDate.getTime() - DAY_MS);
+
+		if (
+			isNaN(fromDate.getTime()) ||
+			isNaN(toDate.getTime()) ||
+			fromDate >= toDate
+		) {
+			return res.status(400).json({
+				success: false,
+				message: "A valid date range with from before to is required",
+			});
+		}
+
+		const report = await reconcilePayments({
+			from: fromDate,
+			to: toDate,
+			trigger: "manual",
+			requestedBy: req.user?._id?.toString(),
+		});
+
+		res.status(201).json({
+			success: true,
+			data: report,
+		});
+	} catch (err: any) {
+		console.error(err);
+		res.status(500).json({
+			success: false,
+			message: "Error reconciling payments",
+			error: err?.message || "Unknown error occurred",
+		});
+	}
+};
+
+export const getReconciliationReports = async (req: Request, res: Response) => {
+	try {
+		const page = parseInt(req.query.page as string) || 1;
+		const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+		const [reports, total] = await Promise.all([
+			ReconciliationReport.find()
+				.select("-issues")
+				.sort({ createdAt: -1 })
+				.skip((page - 1) * limit)
+				.limit(limit)
+				.lean(),
+			ReconciliationReport.countDocuments(),
+		]);
+
+		res.status(200).json({
+			success: true,
+			data: reports,
+			pagination: {
+				total,
+				page,
+				pages: Math.ceil(total / limit),
+			},
+		});
+	} catch (err: any) {
+		console.error(err);
+		res.status(500).json({
+			success: false,
+			message: "Error fetching reconciliation reports",
+			error: err?.message || "Unknown error occurred",
+		});
+	}
+};
+
+export const getReconciliationReport = async (req: Request, res: Response) => {
+	try {
+		const { id } = req.params;
+		if (!mongoose.Types.ObjectId.isValid(id)) {
+			return res.status(400).json({
+				success: false,
+				message: "Valid report ID is required",
+			});
+		}
+
+		const report = await ReconciliationReport.findById(id).lean();
+		if (!report) {
+			return res.status(404).json({
+				success: false,
+				message: "Reconciliation report not found",
+			});
+		}
+
+		res.status(200).json({
+			success: true,
+			data: report,
+		});
+	} catch (err: any) {
+		console.error(err);
+		res.status(500).json({
+			success: false,
+			message: "Error fetching reconciliation report",
+			error: err?.message || "Unknown error occurred",
+		});
+	}
+};
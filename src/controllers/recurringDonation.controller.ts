@@ -0,0 +1,126 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import RecurringDonation, {
+	RecurringDonationStatus,
+} from "../models/recurringDonation.model";
+import { AppError } from "../utils/appError";
+import { catchAsync } from "../utils/catchAsync";
+import { getPaymentProvider } from "../services/paymentProvider";
+
+// Load a pledge owned by the authenticated donor
+const findDonorPledge = async (req: Request) => {
+	if (!req.user?._id) {
+		throw new AppError("User not authenticated", 401);
+	}
+
+	const { id } = req.params;
+	if (!mongoose.Types.ObjectId.isValid(id)) {
+		throw new AppError("Invalid recurring donation ID", 400);
+	}
+
+	const pledge = await RecurringDonation.findOne({
+		_id: id,
+		donor: req.user._id,
+	});
+	if (!pledge) {
+		throw new AppError("Recurring donation not found", 404);
+	}
+
+	return pledge;
+};
+
+// List the authenticated donor's recurring pledges
+export const getMyRecurringDonations = catchAsync(
+	async (req: Request, res: Response) => {
+		if (!req.user?._id) {
+			throw new AppError("User not authenticated", 401);
+		}
+
+		const query: any = { donor: req.user._id };
+		if (req.query.status) {
+			query.status = (req.query.status as string).toUpperCase();
+		}
+
+		const pledges = await RecurringDonation.find(query)
+			.populate("organization", "name")
+			.populate("cause", "title")
+			.populate("campaign", "title")
+			.sort({ createdAt: -1 });
+
+		res.status(200).json({
+			success: true,
+			data: pledges,
+		});
+	}
+);
+
+// Pause collection; no charges are made until the pledge is resumed
+export const pauseRecurringDonation = catchAsync(
+	async (req: Request, res: Response) => {
+		const pledge = await findDonorPledge(req);
+
+		if (pledge.status !== RecurringDonationStatus.ACTIVE) {
+			throw new AppError("Only active pledges can be paused", 400);
+		}
+
+		await getPaymentProvider().pauseSubscription(pledge.stripeSubscriptionId);
+
+		pledge.status = RecurringDonationStatus.PAUSED;
+		pledge.pausedAt = new Date();
+		await pledge.save();
+
+		res.status(200).json({
+			success: true,
+			data: pledge,
+			message: "Recurring donation paused",
+		});
+	}
+);
+
+export const resumeRecurringDonation = catchAsync(
+	async (req: Request, res: Response) => {
+		const pledge = await findDonorPledge(req);
+
+		if (pledge.status !== RecurringDonationStatus.PAUSED) {
+			throw new AppError("Only paused pledges can be resumed", 400);
+		}
+
+		await getPaymentProvider().resumeSubscription(pledge.stripeSubscriptionId);
+
+		pledge.status = RecurringDonationStatus.ACTIVE;
+		pledge.pausedAt = undefined;
+		await pledge.save();
+
+		res.status(200).json({
+			success: true,
+			data: pledge,
+			message: "Recurring donation resumed",
+		});
+	}
+);
+
+export const cancelRecurringDonation = catchAsync(
+	async (req: Request, res: Response) => {
+		const pledge = await findDonorPledge(req);
+
+		if (pledge.status === RecurringDonationStatus.CANCELLED) {
+			throw new AppError("Recurring donation is already cancelled", 400);
+		}
+
+		if (pledge.stripeSubscriptionId) {
+			await getPaymentProvider().cancelSubscription(
+				pledge.stripeSubscriptionId
+			);
+		}
+
+		pledge.status = RecurringDonationStatus.CANCELLED;
+		pledge.cancelledAt = new Date();
+		await pledge.save();
+
+		res.status(200).json({
+			success: true,
+			data: pledge,
+			message: "Recurring donation cancelled",
+		});
+	}
+);
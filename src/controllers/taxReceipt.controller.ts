@@ -0,0 +1,90 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import Organization from "../models/organization.model";
+import TaxReceipt from "../models/taxReceipt.model";
+import { AppError } from "../utils/appError";
+import { catchAsync } from "../utils/catchAsync";
+import { getFiscalYear, issueTaxReceipt } from "../services/taxReceiptService";
+
+// Organization owned by the authenticated organization user
+const findOwnOrganization = async (req: Request) => {
+	const organization = await Organization.findOne({ userId: req.user._id });
+	if (!organization) {
+		throw new AppError("Organization not found", 404);
+	}
+	return organization;
+};
+
+/**
+ * Generate (or fetch) the consolidated receipt for a donor, organization and
+ * fiscal year. Donors request their own; organizations request one for a
+ * donor of theirs; admins may request any.
+ */
+export const generateTaxReceipt = catchAsync(
+	async (req: Request, res: Response) => {
+		if (!req.user?._id) {
+			throw new AppError("User not authenticated", 401);
+		}
+
+		const { fiscalYear } = req.body;
+		let { donorId, organizationId } = req.body;
+		if (!fiscalYear) {
+			throw new AppError("Fiscal year is required", 400);
+		}
+
+		if (req.user.role === "donor") {
+			donorId = req.user._id.toString();
+		} else if (req.user.role === "organization") {
+			organizationId = (await findOwnOrganization(req))._id.toString();
+		}
+		if (!donorId || !organizationId) {
+			throw new AppError("Donor and organization are required", 400);
+		}
+
+		const receipt = await issueTaxReceipt(donorId, organizationId, fiscalYear);
+
+		res.status(200).json({
+			success: true,
+			data: receipt,
+		});
+	}
+);
+
+// Receipts already issued, scoped to the donor or organization asking
+export const getTaxReceipts = catchAsync(
+	async (req: Request, res: Response) => {
+		if (!req.user?._id) {
+			throw new AppError("User not authenticated", 401);
+		}
+
+		const query: Record<string, any> = {};
+		if (req.user.role === "donor") {
+			query.donor = req.user._id;
+		} else if (req.user.role === "organization") {
+			query.organization = (await findOwnOrganization(req))._id;
+		}
+
+		for (const field of ["donor", "organization"]) {
+			const value = req.query[field] as string;
+			if (!value || query[field]) {
+				continue;
+			}
+			if (!mongoose.Types.ObjectId.isValid(value)) {
+				throw new AppError(`Invalid ${field} ID`, 400);
+			}
+			query[field] = value;
+		}
+		if (req.query.fiscalYear) {
+			query.fiscalYear = getFiscalYear(req.query.fiscalYear as string).label;
+		}
+
+		const receipts = await TaxReceipt.find(query)
+			.populate("organization", "name")
+			.sort({ fiscalYear: -1, issuedAt: -1 });
+
+		res.status(200).json({
+			success: true,
+			data: receipts,
+		});
+	}
+);
@@ -80,6 +80,28 @@ export const uploadCampaignImage = catchAsync(
 	}
 );
 
+// Image for a campaign or cause progress update; the URL goes in the update
+export const uploadUpdateImage = catchAsync(
+	async (req: AuthRequest, res: Response) => {
+		if (!req.user) {
+			throw new AppError("Unauthorized: Authentication required", 401);
+		}
+
+		if (!req.cloudinaryUrl || !req.cloudinaryPublicId) {
+			throw new AppError("Image upload failed - no Cloudinary URL found", 400);
+		}
+
+		res.status(200).json({
+			success: true,
+			message: "Update image uploaded successfully",
+			data: {
+				url: req.cloudinaryUrl,
+				publicId: req.cloudinaryPublicId,
+			},
+		});
+	}
+);
+
 // Upload organization logo to Cloudinary (image already uploaded by middleware)
 export const uploadOrganizationLogo = catchAsync(
 	async (req: AuthRequest, res: Response) => {
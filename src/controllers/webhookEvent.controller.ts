@@ -0,0 +1,116 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import WebhookEvent, { WebhookEventStatus } from "../models/webhookEvent.model";
+import {
+	isRetryable,
+	listWebhookEvents,
+	runWebhookEvent,
+} from "../services/webhookEventService";
+import { processPaymentEvent } from "./payment.controller";
+
+// List stored provider events, failed ones by default
+export const getWebhookEvents = async (req: Request, res: Response) => {
+	try {
+		const status =
+			(req.query.status as string | undefined)?.toUpperCase() ||
+			WebhookEventStatus.FAILED;
+		if (
+			status !== "ALL" &&
+			!Object.values(WebhookEventStatus).includes(status as WebhookEventStatus)
+		) {
+			return res.status(400).json({
+				success: false,
+				message: `Status must be ALL or one of ${Object.values(WebhookEventStatus).join(", ")}`,
+			});
+		}
+
+		const page = parseInt(req.query.page as string) || 1;
+		const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+		const { events, total } = await listWebhookEvents({
+			status: status === "ALL" ? undefined : (status as WebhookEventStatus),
+			type: req.query.type as string | undefined,
+			page,
+			limit,
+		});
+
+		res.status(200).json({
+			success: true,
+			data: events,
+			pagination: {
+				total,
+				page,
+				pages: Math.ceil(total / limit),
+			},
+		});
+	} catch (err: any) {
+		console.error(err);
+		res.status(500).json({
+			success: false,
+			message: "Error fetching webhook events",
+			error: err?.message || "Unknown error occurred",
+		});
+	}
+};
+
+// Process a failed event, or one stuck PROCESSING past its lease, again
+// through the regular webhook path
+export const replayWebhookEvent = async (req: Request, res: Response) => {
+	try {
+		const { id } = req.params;
+		if (!mongoose.Types.ObjectId.isValid(id)) {
+			return res.status(400).json({
+				success: false,
+				message: "Valid webhook event ID is required",
+			});
+		}
+
+		const record = await WebhookEvent.findById(id);
+		if (!record) {
+			return res.status(404).json({
+				success: false,
+				message: "Webhook event not found",
+			});
+		}
+
+		if (!isRetryable(record)) {
+			return res.status(409).json({
+				success: false,
+				message:
+					record.status === WebhookEventStatus.PROCESSING
+						? "Webhook event is being processed; it can be replayed if it is still stuck once its processing lease expires"
+						: `Webhook event is ${record.status} and cannot be replayed`,
+			});
+		}
+
+		const result = await runWebhookEvent(
+			record,
+			(event) => processPaymentEvent(req, event),
+			req.user?._id?.toString()
+		);
+
+		if (result.status === WebhookEventStatus.PROCESSING) {
+			return res.status(409).json({
+				success: false,
+				data: result,
+				message: "Webhook event is already being processed",
+			});
+		}
+
+		const succeeded = result.status !== WebhookEventStatus.FAILED;
+		res.status(succeeded ? 200 : 502).json({
+			success: succeeded,
+			data: result,
+			message: succeeded
+				? "Webhook event replayed"
+				: `Replay failed: ${result.lastError}`,
+		});
+	} catch (err: any) {
+		console.error(err);
+		res.status(500).json({
+			success: false,
+			message: "Error replaying webhook event",
+			error: err?.message || "Unknown error occurred",
+		});
+	}
+};
@@ -0,0 +1,43 @@
+import { Server } from "socket.io";
+import { CAMPAIGN_CONFIG } from "../config/campaign.config";
+import { runCampaignLifecycle } from "../services/campaignLifecycleService";
+
+const MINUTE_MS = 60 * 1000;
+
+// Move campaigns past their start or end date on a timer. The first run
+// happens at startup so campaigns that came due while the server was down
+// are caught up straight away.
+export const startCampaignLifecycleJob = (
+	io: Server
+): NodeJS.Timeout | null => {
+	const intervalMinutes = CAMPAIGN_CONFIG.lifecycleIntervalMinutes;
+	if (!intervalMinutes || intervalMinutes <= 0) {
+		return null;
+	}
+
+	let running = false;
+	const run = async () => {
+		// Skip a tick rather than overlap a slow run
+		if (running) {
+			return;
+		}
+		running = true;
+		try {
+			const { activated, completed } = await runCampaignLifecycle(io);
+			if (activated.length > 0 || completed.length > 0) {
+				console.log(
+					` Campaign lifecycle: ${activated.length} activated, ${completed.length} completed`
+				);
+			}
+		} catch (error) {
+			console.error(" Campaign lifecycle run failed:", error);
+		} finally {
+			running = false;
+		}
+	};
+
+	run();
+	const timer = setInterval(run, intervalMinutes * MINUTE_MS);
+	timer.unref();
+	return timer;
+};
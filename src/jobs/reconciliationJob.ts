@@ -0,0 +1,38 @@
+import { PAYMENT_CONFIG } from "../config/payment.config";
+import { reconcilePayments } from "../services/reconciliationService";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Reconcile each past window on a timer, overlapping the previous run by an
+// hour so payments captured around the boundary are not missed
+export const startReconciliationJob = (): NodeJS.Timeout | null => {
+	const intervalHours = PAYMENT_CONFIG.reconciliationIntervalHours;
+	if (!intervalHours || intervalHours <= 0) {
+		return null;
+	}
+
+	const intervalMs = intervalHours * HOUR_MS;
+
+	const run = async () => {
+		const to = new Date();
+		const from = new Date(to.getTime() - intervalMs - HOUR_MS);
+		try {
+			const report = await reconcilePayments({
+				from,
+				to,
+				trigger: "scheduled",
+			});
+			if (report.issues.length > 0) {
+				console.warn(
+					` Payment reconciliation found ${report.issues.length} issue(s), report ${report._id}`
+				);
+			}
+		} catch (error) {
+			console.error(" Payment reconciliation failed:", error);
+		}
+	};
+
+	const timer = setInterval(run, intervalMs);
+	timer.unref();
+	return timer;
+};
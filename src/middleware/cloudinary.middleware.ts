@@ -265,6 +265,18 @@ export const uploadDonationPhotoToCloudinary = createCloudinaryUploadMiddleware(
 	}
 );
 
+export const uploadUpdateImageToCloudinary = createCloudinaryUploadMiddleware(
+	"image",
+	"updates",
+	imageFileFilter,
+	{
+		width: 1200,
+		crop: "limit",
+		quality: "auto",
+		format: "auto",
+	}
+);
+
 export const uploadReceiptToCloudinary = createCloudinaryUploadMiddleware(
 	"receipt",
 	"receipts",
@@ -39,6 +39,17 @@ const CampaignSchema: Schema = new Schema(
 			enum: ["draft", "active", "completed", "cancelled"],
 			default: "draft",
 		},
+		// Let the lifecycle job activate the draft at its start date
+		autoActivate: {
+			type: Boolean,
+			default: false,
+		},
+		activatedAt: {
+			type: Date,
+		},
+		completedAt: {
+			type: Date,
+		},
 		causes: [
 			{
 				type: Schema.Types.ObjectId,
@@ -57,6 +68,31 @@ const CampaignSchema: Schema = new Schema(
 			required: [true, "Target amount is required"],
 			min: [0, "Target amount cannot be negative"],
 		},
+		// Percentages of the target announced once crossed
+		milestones: {
+			type: [
+				{
+					_id: false,
+					percent: {
+						type: Number,
+						required: true,
+						min: [1, "Milestones must be between 1 and 100 percent"],
+						max: [100, "Milestones must be between 1 and 100 percent"],
+					},
+					reachedAt: {
+						type: Date,
+					},
+				},
+			],
+			default: () => [25, 50, 75, 100].map((percent) => ({ percent })),
+		},
+		// Optional goal beyond the target, set once the target is reached
+		stretchTarget: {
+			type: Number,
+		},
+		stretchReachedAt: {
+			type: Date,
+		},
 
 		imageUrl: {
 			type: String,
@@ -88,6 +124,104 @@ const CampaignSchema: Schema = new Schema(
 			required: [true, "At least one donation type is required"],
 			default: [DonationType.MONEY],
 		},
+		matchingPools: [
+			{
+				sponsorName: {
+					type: String,
+					required: [true, "Sponsor name is required"],
+					trim: true,
+				},
+				sponsorEmail: {
+					type: String,
+					trim: true,
+				},
+				ratio: {
+					type: Number,
+					default: 1,
+					min: [0.01, "Match ratio must be positive"],
+				},
+				cap: {
+					type: Number,
+					required: [true, "Match cap is required"],
+					min: [1, "Match cap must be positive"],
+				},
+				matchedAmount: {
+					type: Number,
+					default: 0,
+				},
+				eligibleCauses: [
+					{
+						type: Schema.Types.ObjectId,
+						ref: "Cause",
+					},
+				],
+				expiresAt: {
+					type: Date,
+					required: [true, "Expiry date is required"],
+				},
+				status: {
+					type: String,
+					enum: ["active", "paused", "cancelled"],
+					default: "active",
+				},
+				draws: [
+					{
+						_id: false,
+						donation: {
+							type: Schema.Types.ObjectId,
+							ref: "Donation",
+							required: true,
+						},
+						amount: {
+							type: Number,
+							required: true,
+						},
+					},
+				],
+				createdAt: {
+					type: Date,
+					default: Date.now,
+				},
+			},
+		],
+		allocation: {
+			mode: {
+				type: String,
+				enum: ["none", "percentage", "cause"],
+				default: "none",
+			},
+			shares: [
+				{
+					_id: false,
+					organization: {
+						type: Schema.Types.ObjectId,
+						ref: "Organization",
+						required: true,
+					},
+					percent: {
+						type: Number,
+						required: true,
+						min: [0.01, "Share must be positive"],
+						max: [100, "Share cannot exceed 100 percent"],
+					},
+				},
+			],
+			causeRoutes: [
+				{
+					_id: false,
+					cause: {
+						type: Schema.Types.ObjectId,
+						ref: "Cause",
+						required: true,
+					},
+					organization: {
+						type: Schema.Types.ObjectId,
+						ref: "Organization",
+						required: true,
+					},
+				},
+			],
+		},
 	},
 	{
 		timestamps: true,
@@ -97,8 +231,12 @@ const CampaignSchema: Schema = new Schema(
 // Indexes for better query performance
 CampaignSchema.index({ title: "text", description: "text" });
 CampaignSchema.index({ status: 1 });
+CampaignSchema.index({ status: 1, startDate: 1 });
+CampaignSchema.index({ status: 1, endDate: 1 });
 CampaignSchema.index({ organizations: 1 });
 CampaignSchema.index({ tags: 1 });
 CampaignSchema.index({ createdAt: -1 });
+CampaignSchema.index({ causes: 1, status: 1 });
+CampaignSchema.index({ "matchingPools.draws.donation": 1 });
 
 export default mongoose.model<ICampaign>("Campaign", CampaignSchema);
@@ -1,5 +1,6 @@
 import mongoose, { Schema } from "mongoose";
 import { ICause } from "../types/cause";
+import { DonationType } from "../types";
 const CauseSchema: Schema = new Schema(
 	{
 		title: {
@@ -17,6 +18,31 @@ const CauseSchema: Schema = new Schema(
 			required: [true, "Target amount is required"],
 			min: [0, "Target amount cannot be negative"],
 		},
+		// Percentages of the target announced once crossed
+		milestones: {
+			type: [
+				{
+					_id: false,
+					percent: {
+						type: Number,
+						required: true,
+						min: [1, "Milestones must be between 1 and 100 percent"],
+						max: [100, "Milestones must be between 1 and 100 percent"],
+					},
+					reachedAt: {
+						type: Date,
+					},
+				},
+			],
+			default: () => [25, 50, 75, 100].map((percent) => ({ percent })),
+		},
+		// Optional goal beyond the target, set once the target is reached
+		stretchTarget: {
+			type: Number,
+		},
+		stretchReachedAt: {
+			type: Date,
+		},
 
 		imageUrl: {
 			type: String,
@@ -44,6 +70,42 @@ const CauseSchema: Schema = new Schema(
 				trim: true,
 			},
 		],
+		needs: [
+			{
+				itemType: {
+					type: String,
+					enum: Object.values(DonationType).filter(
+						(type) => type !== DonationType.MONEY
+					),
+					required: true,
+				},
+				name: {
+					type: String,
+					required: true,
+					trim: true,
+				},
+				targetQuantity: {
+					type: Number,
+					required: true,
+					min: [1, "Target quantity must be at least 1"],
+				},
+				fulfilledQuantity: {
+					type: Number,
+					default: 0,
+					min: 0,
+				},
+				unit: {
+					type: String,
+					required: true,
+					trim: true,
+				},
+				priority: {
+					type: String,
+					enum: ["low", "medium", "high"],
+					default: "medium",
+				},
+			},
+		],
 		acceptedDonationTypes: [
 			{
 				type: String,
@@ -1,5 +1,78 @@
 import mongoose, { Schema, Document } from "mongoose";
 import { DonationType, DonationStatus } from "../types";
+import { PaymentProviderName } from "../config/payment.config";
+import { IAllocationShare } from "../types/campaign";
+
+export interface IDonationStatusChange {
+	from?: DonationStatus;
+	to: DonationStatus;
+	changedBy?: mongoose.Types.ObjectId;
+	role: "donor" | "organization" | "admin" | "system";
+	note?: string;
+	attachmentUrl?: string;
+	changedAt: Date;
+}
+
+export interface IDonationRescheduleProposal {
+	scheduledDate: Date;
+	scheduledTime: string;
+	note?: string;
+	proposedBy: mongoose.Types.ObjectId;
+	proposedByRole: "donor" | "organization";
+	status: "PENDING" | "ACCEPTED" | "SUPERSEDED";
+	proposedAt: Date;
+	respondedAt?: Date;
+}
+
+// Fee split of a monetary donation, in the base currency
+export interface IDonationFees {
+	grossAmount: number; // What the donor was charged
+	processingFee: number;
+	platformFee: number;
+	netAmount: number; // What reaches the organization
+	coveredByDonor: boolean; // Donor added the fees on top of their gift
+}
+
+export interface IDonationRefund {
+	refundId: string; // Provider refund ID
+	amount: number;
+	reason?: string;
+	status: string; // Provider refund status (pending, succeeded, failed...)
+	requestedBy?: mongoose.Types.ObjectId;
+	requestedAt: Date;
+}
+
+export enum TributeType {
+	IN_MEMORY = "IN_MEMORY",
+	IN_HONOUR = "IN_HONOUR",
+}
+
+// Gift dedicated to someone, announced to a recipient with an e-card
+export interface IDonationTribute {
+	type: TributeType;
+	honoreeName: string;
+	recipientName?: string;
+	recipientEmail?: string; // E-card is only sent when present
+	message?: string;
+	ecardSentAt?: Date;
+}
+
+export type ItemCondition = "NEW" | "LIKE_NEW" | "GOOD" | "FAIR" | "POOR";
+
+export type LineItemStatus = "PENDING" | "RECEIVED" | "REJECTED";
+
+export interface IDonationLineItem {
+	_id?: mongoose.Types.ObjectId;
+	type: DonationType;
+	quantity: number;
+	unit: string;
+	condition: ItemCondition;
+	description?: string;
+	status: LineItemStatus;
+	receivedQuantity?: number; // May be less than offered, e.g. damaged items
+	rejectionReason?: string;
+	reviewedAt?: Date;
+}
 
 export interface IDonation extends Document {
 	donor: mongoose.Types.ObjectId;
@@ -8,7 +81,13 @@ export interface IDonation extends Document {
 	cause?: mongoose.Types.ObjectId;
 	type: DonationType;
 	status: DonationStatus;
-	amount?: number; // For monetary donations
+	amount?: number; // For monetary donations, in the base currency
+	currency?: string; // Currency the donor paid in
+	originalAmount?: number; // Amount in the donor's currency
+	fxRate?: number; // Base currency units per unit of the donor's currency
+	fees?: IDonationFees; // Monetary donations only
+	tribute?: IDonationTribute; // Monetary donations only
+	needsFulfilledAt?: Date; // When received items were counted toward cause needs
 	description: string;
 	quantity?: number;
 	unit?: string;
@@ -46,12 +125,65 @@ export interface IDonation extends Document {
 	pdfReceiptUrl?: string;
 	confirmationDate?: Date;
 	notes?: string;
-	paymentIntentId?: string; // Stripe payment intent ID
-	paymentStatus?: string; // Stripe payment status
+	isAnonymous: boolean; // Hide the donor's identity from the organization and public feeds
+	hideAmount: boolean; // Hide the amount from public feeds
+	paymentProvider?: PaymentProviderName; // Provider that captured the payment
+	checkoutSessionId?: string; // Provider checkout session that created it
+	paymentIntentId?: string; // Provider payment ID
+	paymentStatus?: string; // Provider payment status
+	recurringDonation?: mongoose.Types.ObjectId; // Pledge this charge belongs to
+	fundraisingPage?: mongoose.Types.ObjectId; // Personal page the gift was made through
+	allocation?: IAllocationShare[]; // Co-host split fixed when the payment settled
+	refundedAmount: number;
+	refunds: IDonationRefund[];
+	lineItems: IDonationLineItem[];
+	statusHistory: IDonationStatusChange[];
+	cancellationReason?: string;
+	failureReason?: string; // Why the last payment attempt was declined
+	rescheduleProposals: IDonationRescheduleProposal[];
 	createdAt: Date;
 	updatedAt: Date;
 }
 
+const DonationTributeSchema = new Schema(
+	{
+		type: {
+			type: String,
+			enum: Object.values(TributeType),
+			required: true,
+		},
+		honoreeName: {
+			type: String,
+			required: [true, "Honoree name is required"],
+			trim: true,
+			maxlength: 100,
+		},
+		recipientName: {
+			type: String,
+			trim: true,
+			maxlength: 100,
+		},
+		recipientEmail: {
+			type: String,
+			trim: true,
+			lowercase: true,
+			match: [
+				/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/,
+				"Please provide a valid recipient email address",
+			],
+		},
+		message: {
+			type: String,
+			trim: true,
+			maxlength: 500,
+		},
+		ecardSentAt: {
+			type: Date,
+		},
+	},
+	{ _id: false }
+);
+
 const DonationSchema: Schema = new Schema(
 	{
 		donor: {
@@ -88,6 +220,29 @@ const DonationSchema: Schema = new Schema(
 				return this.type === DonationType.MONEY;
 			},
 		},
+		currency: {
+			type: String,
+			uppercase: true,
+		},
+		originalAmount: {
+			type: Number,
+		},
+		fxRate: {
+			type: Number,
+		},
+		fees: {
+			grossAmount: Number,
+			processingFee: Number,
+			platformFee: Number,
+			netAmount: Number,
+			coveredByDonor: Boolean,
+		},
+		tribute: {
+			type: DonationTributeSchema,
+		},
+		needsFulfilledAt: {
+			type: Date,
+		},
 		description: {
 			type: String,
 			required: true,
@@ -171,6 +326,23 @@ const DonationSchema: Schema = new Schema(
 		notes: {
 			type: String,
 		},
+		isAnonymous: {
+			type: Boolean,
+			default: false,
+		},
+		hideAmount: {
+			type: Boolean,
+			default: false,
+		},
+		paymentProvider: {
+			type: String,
+			enum: ["stripe", "fake"],
+		},
+		checkoutSessionId: {
+			type: String,
+			unique: true,
+			sparse: true,
+		},
 		paymentIntentId: {
 			type: String,
 			unique: true,
@@ -179,6 +351,160 @@ const DonationSchema: Schema = new Schema(
 		paymentStatus: {
 			type: String,
 		},
+		recurringDonation: {
+			type: Schema.Types.ObjectId,
+			ref: "RecurringDonation",
+		},
+		fundraisingPage: {
+			type: Schema.Types.ObjectId,
+			ref: "FundraisingPage",
+		},
+		allocation: {
+			type: [
+				{
+					_id: false,
+					organization: {
+						type: Schema.Types.ObjectId,
+						ref: "Organization",
+					},
+					percent: Number,
+				},
+			],
+			default: undefined,
+		},
+		refundedAmount: {
+			type: Number,
+			default: 0,
+		},
+		lineItems: [
+			{
+				type: {
+					type: String,
+					enum: Object.values(DonationType).filter(
+						(type) => type !== DonationType.MONEY
+					),
+					required: true,
+				},
+				quantity: {
+					type: Number,
+					required: true,
+					min: [1, "Quantity must be at least 1"],
+				},
+				unit: {
+					type: String,
+					required: true,
+				},
+				condition: {
+					type: String,
+					enum: ["NEW", "LIKE_NEW", "GOOD", "FAIR", "POOR"],
+					default: "GOOD",
+				},
+				description: String,
+				status: {
+					type: String,
+					enum: ["PENDING", "RECEIVED", "REJECTED"],
+					default: "PENDING",
+				},
+				receivedQuantity: {
+					type: Number,
+					min: 0,
+				},
+				rejectionReason: String,
+				reviewedAt: Date,
+			},
+		],
+		refunds: [
+			{
+				refundId: {
+					type: String,
+					required: true,
+				},
+				amount: {
+					type: Number,
+					required: true,
+				},
+				reason: String,
+				status: {
+					type: String,
+					required: true,
+				},
+				requestedBy: {
+					type: Schema.Types.ObjectId,
+					ref: "User",
+				},
+				requestedAt: {
+					type: Date,
+					default: Date.now,
+				},
+			},
+		],
+		statusHistory: [
+			{
+				from: {
+					type: String,
+					enum: Object.values(DonationStatus),
+				},
+				to: {
+					type: String,
+					enum: Object.values(DonationStatus),
+					required: true,
+				},
+				changedBy: {
+					type: Schema.Types.ObjectId,
+					ref: "User",
+				},
+				role: {
+					type: String,
+					enum: ["donor", "organization", "admin", "system"],
+					required: true,
+				},
+				note: String,
+				attachmentUrl: String,
+				changedAt: {
+					type: Date,
+					default: Date.now,
+				},
+			},
+		],
+		cancellationReason: {
+			type: String,
+		},
+		failureReason: {
+			type: String,
+		},
+		rescheduleProposals: [
+			{
+				scheduledDate: {
+					type: Date,
+					required: true,
+				},
+				scheduledTime: {
+					type: String,
+					required: true,
+				},
+				note: String,
+				proposedBy: {
+					type: Schema.Types.ObjectId,
+					ref: "User",
+					required: true,
+				},
+				proposedByRole: {
+					type: String,
+					enum: ["donor", "organization"],
+					required: true,
+				},
+				status: {
+					type: String,
+					enum: ["PENDING", "ACCEPTED", "SUPERSEDED"],
+					default: "PENDING",
+				},
+				proposedAt: {
+					type: Date,
+					default: Date.now,
+				},
+				respondedAt: Date,
+			},
+		],
 	},
 	{
 		timestamps: true,
@@ -190,5 +516,6 @@ DonationSchema.index({ donor: 1, status: 1 });
 DonationSchema.index({ organization: 1, status: 1 });
 DonationSchema.index({ type: 1, status: 1 });
 DonationSchema.index({ scheduledDate: 1 });
+DonationSchema.index({ fundraisingPage: 1, status: 1 });
 
 export default mongoose.model<IDonation>("Donation", DonationSchema);
@@ -54,6 +54,12 @@ const DonorProfileSchema: Schema = new Schema(
     bio: {
       type: String,
     },
+    taxId: {
+      // PAN for Indian donors; printed on consolidated tax receipts
+      type: String,
+      trim: true,
+      uppercase: true,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// A donor's personal fundraiser for a campaign, e.g. "My birthday for clean
+// water". Gifts made through it go to the campaign cause it names.
+export interface IFundraisingPage extends Document {
+	campaign: mongoose.Types.ObjectId;
+	cause: mongoose.Types.ObjectId;
+	organization: mongoose.Types.ObjectId; // Owner of the cause
+	owner: mongoose.Types.ObjectId; // Donor running the fundraiser
+	slug: string;
+	title: string;
+	story: string;
+	imageUrl?: string;
+	targetAmount: number; // In the base currency
+	status: "active" | "closed";
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const FundraisingPageSchema: Schema = new Schema(
+	{
+		campaign: {
+			type: Schema.Types.ObjectId,
+			ref: "Campaign",
+			required: true,
+		},
+		cause: {
+			type: Schema.Types.ObjectId,
+			ref: "Cause",
+			required: true,
+		},
+		organization: {
+			type: Schema.Types.ObjectId,
+			ref: "Organization",
+			required: true,
+		},
+		owner: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		slug: {
+			type: String,
+			required: true,
+			unique: true,
+			lowercase: true,
+			trim: true,
+		},
+		title: {
+			type: String,
+			required: [true, "Title is required"],
+			trim: true,
+			maxlength: 120,
+		},
+		story: {
+			type: String,
+			required: [true, "Story is required"],
+			trim: true,
+			maxlength: 5000,
+		},
+		imageUrl: {
+			type: String,
+		},
+		targetAmount: {
+			type: Number,
+			required: [true, "Target amount is required"],
+			min: [1, "Target amount must be positive"],
+		},
+		status: {
+			type: String,
+			enum: ["active", "closed"],
+			default: "active",
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+FundraisingPageSchema.index({ campaign: 1, status: 1 });
+FundraisingPageSchema.index({ owner: 1 });
+
+export default mongoose.model<IFundraisingPage>(
+	"FundraisingPage",
+	FundraisingPageSchema
+);
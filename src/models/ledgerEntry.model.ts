@@ -0,0 +1,125 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export enum LedgerEntryType {
+	DONATION = "DONATION", // Gross gift captured from a donor
+	REFUND = "REFUND", // Money returned to a donor
+	MATCH = "MATCH", // Sponsor match; negative when a refund shrinks it
+	FEE = "FEE", // Processing and platform fees withheld
+	PAYOUT = "PAYOUT", // Funds transferred to the organization
+}
+
+// One immutable movement of money, in the base currency. Credits are
+// positive and debits negative; balances are sums over entries.
+export interface ILedgerEntry extends Document {
+	entryKey: string; // Makes recording idempotent, e.g. "donation:<id>"
+	type: LedgerEntryType;
+	amount: number;
+	currency: string;
+	organization: mongoose.Types.ObjectId;
+	cause?: mongoose.Types.ObjectId;
+	campaign?: mongoose.Types.ObjectId;
+	fundraisingPage?: mongoose.Types.ObjectId; // Donor gifts made through a personal page
+	donation?: mongoose.Types.ObjectId;
+	matchedContribution?: mongoose.Types.ObjectId;
+	allocationOf?: string; // entryKey of the entry this moves a co-host share of
+	reference?: string; // Provider refund ID, payout transfer reference...
+	description?: string;
+	recordedBy?: mongoose.Types.ObjectId;
+	createdAt: Date;
+}
+
+const LedgerEntrySchema: Schema = new Schema(
+	{
+		entryKey: {
+			type: String,
+			required: true,
+			unique: true,
+		},
+		type: {
+			type: String,
+			enum: Object.values(LedgerEntryType),
+			required: true,
+		},
+		amount: {
+			type: Number,
+			required: true,
+		},
+		currency: {
+			type: String,
+			required: true,
+			uppercase: true,
+		},
+		organization: {
+			type: Schema.Types.ObjectId,
+			ref: "Organization",
+			required: true,
+		},
+		cause: {
+			type: Schema.Types.ObjectId,
+			ref: "Cause",
+		},
+		campaign: {
+			type: Schema.Types.ObjectId,
+			ref: "Campaign",
+		},
+		fundraisingPage: {
+			type: Schema.Types.ObjectId,
+			ref: "FundraisingPage",
+		},
+		donation: {
+			type: Schema.Types.ObjectId,
+			ref: "Donation",
+		},
+		matchedContribution: {
+			type: Schema.Types.ObjectId,
+			ref: "MatchedContribution",
+		},
+		allocationOf: {
+			type: String,
+		},
+		reference: {
+			type: String,
+		},
+		description: {
+			type: String,
+		},
+		recordedBy: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+		},
+	},
+	{
+		timestamps: { createdAt: true, updatedAt: false },
+	}
+);
+
+// Append-only: corrections are new entries, never edits
+const rejectMutation = function (next: (error?: Error) => void) {
+	next(new Error("Ledger entries are append-only"));
+};
+LedgerEntrySchema.pre(
+	[
+		"updateOne",
+		"updateMany",
+		"findOneAndUpdate",
+		"replaceOne",
+		"deleteOne",
+		"deleteMany",
+		"findOneAndDelete",
+	],
+	rejectMutation
+);
+LedgerEntrySchema.pre("save", function (next) {
+	if (!this.isNew) {
+		return next(new Error("Ledger entries are append-only"));
+	}
+	next();
+});
+
+LedgerEntrySchema.index({ cause: 1, type: 1 });
+LedgerEntrySchema.index({ campaign: 1, type: 1 });
+LedgerEntrySchema.index({ organization: 1, type: 1 });
+LedgerEntrySchema.index({ fundraisingPage: 1, type: 1 });
+LedgerEntrySchema.index({ donation: 1 });
+
+export default mongoose.model<ILedgerEntry>("LedgerEntry", LedgerEntrySchema);
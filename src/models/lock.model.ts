@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// A short-lived lock on a shared resource, e.g. one pickup slot, so a
+// check and the write that depends on it run without interleaving
+export interface ILock extends Document {
+	key: string;
+	lockedUntil: Date; // Free for anyone to take after this
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const LockSchema: Schema = new Schema(
+	{
+		key: {
+			type: String,
+			required: true,
+		},
+		lockedUntil: {
+			type: Date,
+			required: true,
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+LockSchema.index({ key: 1 }, { unique: true });
+// Locks left behind by a crashed holder are cleaned up once they expire
+LockSchema.index({ lockedUntil: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ILock>("Lock", LockSchema);
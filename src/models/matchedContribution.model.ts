@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// A sponsor's matching gift for a single donation, drawn from a campaign matching pool
+export interface IMatchedContribution extends Document {
+	campaign: mongoose.Types.ObjectId;
+	pool: mongoose.Types.ObjectId;
+	donation: mongoose.Types.ObjectId;
+	cause: mongoose.Types.ObjectId;
+	organization: mongoose.Types.ObjectId;
+	sponsorName: string;
+	ratio: number;
+	amount: number;
+	reversedAmount: number; // Given back to the pool after donor refunds
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const MatchedContributionSchema: Schema = new Schema(
+	{
+		campaign: {
+			type: Schema.Types.ObjectId,
+			ref: "Campaign",
+			required: true,
+		},
+		pool: {
+			type: Schema.Types.ObjectId,
+			required: true,
+		},
+		donation: {
+			type: Schema.Types.ObjectId,
+			ref: "Donation",
+			required: true,
+		},
+		cause: {
+			type: Schema.Types.ObjectId,
+			ref: "Cause",
+			required: true,
+		},
+		organization: {
+			type: Schema.Types.ObjectId,
+			ref: "Organization",
+			required: true,
+		},
+		sponsorName: {
+			type: String,
+			required: true,
+		},
+		ratio: {
+			type: Number,
+			required: true,
+		},
+		amount: {
+			type: Number,
+			required: true,
+			min: 0,
+		},
+		reversedAmount: {
+			type: Number,
+			default: 0,
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+// A donation is matched at most once per pool, even if the webhook is redelivered
+MatchedContributionSchema.index({ pool: 1, donation: 1 }, { unique: true });
+MatchedContributionSchema.index({ campaign: 1 });
+MatchedContributionSchema.index({ donation: 1 });
+
+export default mongoose.model<IMatchedContribution>(
+	"MatchedContribution",
+	MatchedContributionSchema
+);
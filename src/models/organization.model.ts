@@ -1,4 +1,19 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { ITaxRegistration } from "../types";
+
+export interface IPickupWindow {
+	dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+	startTime: string; // "HH:mm"
+	endTime: string; // "HH:mm"
+	slotMinutes: number;
+	capacity: number; // Donations bookable per slot
+	mode: "pickup" | "dropoff" | "both";
+}
+
+export interface IBlackoutDate {
+	date: Date;
+	reason?: string;
+}
 
 export interface IOrganization extends Document {
 	name: string;
@@ -13,6 +28,9 @@ export interface IOrganization extends Document {
 	logo?: string;
 	documents?: string[];
 	verified: boolean;
+	taxRegistration?: ITaxRegistration;
+	pickupWindows: IPickupWindow[];
+	blackoutDates: IBlackoutDate[];
 	userId: mongoose.Types.ObjectId;
 	createdAt: Date;
 	updatedAt: Date;
@@ -83,6 +101,68 @@ const OrganizationSchema: Schema = new Schema(
 			type: Boolean,
 			default: false,
 		},
+		taxRegistration: {
+			pan: {
+				type: String,
+				trim: true,
+				uppercase: true,
+			},
+			registration80G: {
+				type: String,
+				trim: true,
+			},
+			registration12A: {
+				type: String,
+				trim: true,
+			},
+			validUntil: {
+				type: Date,
+			},
+		},
+		pickupWindows: [
+			{
+				dayOfWeek: {
+					type: Number,
+					min: 0,
+					max: 6,
+					required: true,
+				},
+				startTime: {
+					type: String,
+					match: [/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm format"],
+					required: true,
+				},
+				endTime: {
+					type: String,
+					match: [/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm format"],
+					required: true,
+				},
+				slotMinutes: {
+					type: Number,
+					min: 15,
+					default: 60,
+				},
+				capacity: {
+					type: Number,
+					min: 1,
+					default: 1,
+				},
+				mode: {
+					type: String,
+					enum: ["pickup", "dropoff", "both"],
+					default: "both",
+				},
+			},
+		],
+		blackoutDates: [
+			{
+				date: {
+					type: Date,
+					required: true,
+				},
+				reason: String,
+			},
+		],
 		userId: {
 			type: Schema.Types.ObjectId,
 			ref: "User",
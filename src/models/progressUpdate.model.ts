@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// A progress post an organization publishes on one of its campaigns or
+// causes, e.g. "The first well is finished". Exactly one of campaign and
+// cause is set.
+export interface IProgressUpdate extends Document {
+	organization: mongoose.Types.ObjectId;
+	author: mongoose.Types.ObjectId; // Organization user who posted it
+	campaign?: mongoose.Types.ObjectId;
+	cause?: mongoose.Types.ObjectId;
+	title: string;
+	body: string;
+	images: string[]; // Cloudinary URLs
+	notifiedCount: number; // Supporters told about the update
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const ProgressUpdateSchema: Schema = new Schema(
+	{
+		organization: {
+			type: Schema.Types.ObjectId,
+			ref: "Organization",
+			required: true,
+		},
+		author: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		campaign: {
+			type: Schema.Types.ObjectId,
+			ref: "Campaign",
+		},
+		cause: {
+			type: Schema.Types.ObjectId,
+			ref: "Cause",
+		},
+		title: {
+			type: String,
+			required: [true, "Title is required"],
+			trim: true,
+			maxlength: 150,
+		},
+		body: {
+			type: String,
+			required: [true, "Update text is required"],
+			trim: true,
+			maxlength: 10000,
+		},
+		images: {
+			type: [String],
+			default: [],
+			validate: {
+				validator: (images: string[]) => images.length <= 10,
+				message: "An update can have at most 10 images",
+			},
+		},
+		notifiedCount: {
+			type: Number,
+			default: 0,
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+ProgressUpdateSchema.index({ campaign: 1, createdAt: -1 });
+ProgressUpdateSchema.index({ cause: 1, createdAt: -1 });
+ProgressUpdateSchema.index({ organization: 1, createdAt: -1 });
+
+export default mongoose.model<IProgressUpdate>(
+	"ProgressUpdate",
+	ProgressUpdateSchema
+);
@@ -0,0 +1,117 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { PaymentProviderName } from "../config/payment.config";
+
+export enum ReconciliationIssueType {
+	MISSING_DONATION = "MISSING_DONATION", // Provider captured a payment we never recorded
+	DUPLICATE_DONATION = "DUPLICATE_DONATION", // Several donations share one payment
+	AMOUNT_MISMATCH = "AMOUNT_MISMATCH", // Amount or currency differs from the provider
+	REFUND_MISMATCH = "REFUND_MISMATCH", // Refunded amount differs from the provider
+	UNKNOWN_PAYMENT = "UNKNOWN_PAYMENT", // Donation points at a payment the provider has not captured
+}
+
+export interface IReconciliationIssue {
+	type: ReconciliationIssueType;
+	paymentId: string;
+	donationIds: mongoose.Types.ObjectId[];
+	providerAmount?: number; // In the payment currency
+	recordedAmount?: number; // In the donation currency
+	currency?: string;
+	note?: string;
+}
+
+export interface IReconciliationReport extends Document {
+	provider: PaymentProviderName;
+	from: Date;
+	to: Date;
+	trigger: "manual" | "scheduled";
+	requestedBy?: mongoose.Types.ObjectId;
+	paymentsChecked: number;
+	donationsChecked: number;
+	matchedCount: number;
+	issues: IReconciliationIssue[];
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const ReconciliationIssueSchema = new Schema(
+	{
+		type: {
+			type: String,
+			enum: Object.values(ReconciliationIssueType),
+			required: true,
+		},
+		paymentId: {
+			type: String,
+			required: true,
+		},
+		donationIds: [
+			{
+				type: Schema.Types.ObjectId,
+				ref: "Donation",
+			},
+		],
+		providerAmount: {
+			type: Number,
+		},
+		recordedAmount: {
+			type: Number,
+		},
+		currency: {
+			type: String,
+		},
+		note: {
+			type: String,
+		},
+	},
+	{ _id: false }
+);
+
+const ReconciliationReportSchema: Schema = new Schema(
+	{
+		provider: {
+			type: String,
+			enum: ["stripe", "fake"],
+			required: true,
+		},
+		from: {
+			type: Date,
+			required: true,
+		},
+		to: {
+			type: Date,
+			required: true,
+		},
+		trigger: {
+			type: String,
+			enum: ["manual", "scheduled"],
+			default: "manual",
+		},
+		requestedBy: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+		},
+		paymentsChecked: {
+			type: Number,
+			default: 0,
+		},
+		donationsChecked: {
+			type: Number,
+			default: 0,
+		},
+		matchedCount: {
+			type: Number,
+			default: 0,
+		},
+		issues: [ReconciliationIssueSchema],
+	},
+	{
+		timestamps: true,
+	}
+);
+
+ReconciliationReportSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IReconciliationReport>(
+	"ReconciliationReport",
+	ReconciliationReportSchema
+);
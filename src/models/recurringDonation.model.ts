@@ -0,0 +1,149 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { PaymentProviderName } from "../config/payment.config";
+import { CURRENCY_CONFIG } from "../config/currency.config";
+
+export enum RecurringDonationStatus {
+	INCOMPLETE = "INCOMPLETE", // Checkout started, subscription not yet created
+	ACTIVE = "ACTIVE",
+	PAUSED = "PAUSED",
+	CANCELLED = "CANCELLED",
+}
+
+export interface IRecurringDonation extends Document {
+	donor: mongoose.Types.ObjectId;
+	organization: mongoose.Types.ObjectId;
+	cause: mongoose.Types.ObjectId;
+	campaign?: mongoose.Types.ObjectId;
+	amount: number;
+	currency: string;
+	interval: "month";
+	status: RecurringDonationStatus;
+	description?: string;
+	contactEmail?: string;
+	contactPhone?: string;
+	isAnonymous: boolean;
+	hideAmount: boolean;
+	coverFees: boolean; // Each charge adds the fees on top of amount
+	checkoutSessionId: string;
+	paymentProvider: PaymentProviderName;
+	stripeSubscriptionId?: string;
+	stripeCustomerId?: string;
+	lastPaymentAt?: Date;
+	totalDonated: number;
+	paymentCount: number;
+	pausedAt?: Date;
+	cancelledAt?: Date;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const RecurringDonationSchema: Schema = new Schema(
+	{
+		donor: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		organization: {
+			type: Schema.Types.ObjectId,
+			ref: "Organization",
+			required: true,
+		},
+		cause: {
+			type: Schema.Types.ObjectId,
+			ref: "Cause",
+			required: true,
+		},
+		campaign: {
+			type: Schema.Types.ObjectId,
+			ref: "Campaign",
+		},
+		amount: {
+			type: Number,
+			required: true,
+			min: [1, "Amount must be positive"],
+		},
+		currency: {
+			type: String,
+			uppercase: true,
+			default: () => CURRENCY_CONFIG.baseCurrency,
+		},
+		interval: {
+			type: String,
+			enum: ["month"],
+			default: "month",
+		},
+		status: {
+			type: String,
+			enum: Object.values(RecurringDonationStatus),
+			default: RecurringDonationStatus.INCOMPLETE,
+		},
+		description: {
+			type: String,
+		},
+		contactEmail: {
+			type: String,
+		},
+		contactPhone: {
+			type: String,
+		},
+		isAnonymous: {
+			type: Boolean,
+			default: false,
+		},
+		hideAmount: {
+			type: Boolean,
+			default: false,
+		},
+		coverFees: {
+			type: Boolean,
+			default: false,
+		},
+		checkoutSessionId: {
+			type: String,
+			required: true,
+			unique: true,
+		},
+		paymentProvider: {
+			type: String,
+			enum: ["stripe", "fake"],
+			default: "stripe",
+		},
+		stripeSubscriptionId: {
+			type: String,
+			unique: true,
+			sparse: true,
+		},
+		stripeCustomerId: {
+			type: String,
+		},
+		lastPaymentAt: {
+			type: Date,
+		},
+		totalDonated: {
+			type: Number,
+			default: 0,
+		},
+		paymentCount: {
+			type: Number,
+			default: 0,
+		},
+		pausedAt: {
+			type: Date,
+		},
+		cancelledAt: {
+			type: Date,
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+RecurringDonationSchema.index({ donor: 1, status: 1 });
+RecurringDonationSchema.index({ organization: 1, status: 1 });
+
+export default mongoose.model<IRecurringDonation>(
+	"RecurringDonation",
+	RecurringDonationSchema
+);
@@ -0,0 +1,145 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ITaxReceiptLine {
+	donation: mongoose.Types.ObjectId;
+	date: Date;
+	amount: number; // Eligible amount in the base currency, net of refunds
+	currency?: string; // Currency the donor paid in
+	originalAmount?: number;
+	paymentReference?: string;
+}
+
+// Consolidated statement of one donor's gifts to one organization over a
+// fiscal year. Regenerating it keeps the receipt number and bumps revision.
+export interface ITaxReceipt extends Document {
+	receiptNumber: string;
+	donor: mongoose.Types.ObjectId;
+	organization: mongoose.Types.ObjectId;
+	fiscalYear: string; // e.g. "2024-25"
+	periodStart: Date;
+	periodEnd: Date;
+	donorName: string;
+	donorTaxId: string;
+	donorAddress?: string;
+	organizationPan: string;
+	registration80G: string;
+	lines: ITaxReceiptLine[];
+	totalAmount: number;
+	currency: string;
+	pdfUrl?: string;
+	revision: number;
+	issuedAt: Date;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const TaxReceiptLineSchema = new Schema(
+	{
+		donation: {
+			type: Schema.Types.ObjectId,
+			ref: "Donation",
+			required: true,
+		},
+		date: {
+			type: Date,
+			required: true,
+		},
+		amount: {
+			type: Number,
+			required: true,
+		},
+		currency: {
+			type: String,
+		},
+		originalAmount: {
+			type: Number,
+		},
+		paymentReference: {
+			type: String,
+		},
+	},
+	{ _id: false }
+);
+
+const TaxReceiptSchema: Schema = new Schema(
+	{
+		receiptNumber: {
+			type: String,
+			required: true,
+			unique: true,
+		},
+		donor: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+			required: true,
+		},
+		organization: {
+			type: Schema.Types.ObjectId,
+			ref: "Organization",
+			required: true,
+		},
+		fiscalYear: {
+			type: String,
+			required: true,
+		},
+		periodStart: {
+			type: Date,
+			required: true,
+		},
+		periodEnd: {
+			type: Date,
+			required: true,
+		},
+		donorName: {
+			type: String,
+			required: true,
+		},
+		donorTaxId: {
+			type: String,
+			required: true,
+		},
+		donorAddress: {
+			type: String,
+		},
+		organizationPan: {
+			type: String,
+			required: true,
+		},
+		registration80G: {
+			type: String,
+			required: true,
+		},
+		lines: [TaxReceiptLineSchema],
+		totalAmount: {
+			type: Number,
+			required: true,
+		},
+		currency: {
+			type: String,
+			required: true,
+			uppercase: true,
+		},
+		pdfUrl: {
+			type: String,
+		},
+		revision: {
+			type: Number,
+			default: 1,
+		},
+		issuedAt: {
+			type: Date,
+			required: true,
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+TaxReceiptSchema.index(
+	{ donor: 1, organization: 1, fiscalYear: 1 },
+	{ unique: true }
+);
+TaxReceiptSchema.index({ organization: 1, fiscalYear: 1 });
+
+export default mongoose.model<ITaxReceipt>("TaxReceipt", TaxReceiptSchema);
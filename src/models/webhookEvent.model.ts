@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { PaymentProviderName } from "../config/payment.config";
+
+export enum WebhookEventStatus {
+	RECEIVED = "RECEIVED", // Stored, not yet processed
+	PROCESSING = "PROCESSING",
+	PROCESSED = "PROCESSED",
+	IGNORED = "IGNORED", // Event type we do not act on
+	FAILED = "FAILED",
+}
+
+// A provider webhook event as received, with the outcome of processing it
+export interface IWebhookEvent extends Document {
+	provider: PaymentProviderName;
+	eventId: string;
+	type: string;
+	payload: Record<string, any>; // The translated PaymentWebhookEvent
+	status: WebhookEventStatus;
+	attempts: number;
+	lastError?: string;
+	receivedAt: Date;
+	processingStartedAt?: Date; // Start of the current or last attempt
+	processedAt?: Date;
+	lastReplayedBy?: mongoose.Types.ObjectId;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+const WebhookEventSchema: Schema = new Schema(
+	{
+		provider: {
+			type: String,
+			enum: ["stripe", "fake"],
+			required: true,
+		},
+		eventId: {
+			type: String,
+			required: true,
+		},
+		type: {
+			type: String,
+			required: true,
+		},
+		payload: {
+			type: Schema.Types.Mixed,
+			required: true,
+		},
+		status: {
+			type: String,
+			enum: Object.values(WebhookEventStatus),
+			default: WebhookEventStatus.RECEIVED,
+		},
+		attempts: {
+			type: Number,
+			default: 0,
+		},
+		lastError: {
+			type: String,
+		},
+		receivedAt: {
+			type: Date,
+			default: Date.now,
+		},
+		processingStartedAt: {
+			type: Date,
+		},
+		processedAt: {
+			type: Date,
+		},
+		lastReplayedBy: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+		},
+	},
+	{
+		timestamps: true,
+	}
+);
+
+// Providers redeliver events; each one is stored once
+WebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+WebhookEventSchema.index({ status: 1, receivedAt: -1 });
+
+export default mongoose.model<IWebhookEvent>(
+	"WebhookEvent",
+	WebhookEventSchema
+);
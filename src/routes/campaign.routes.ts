@@ -9,6 +9,10 @@ import {
 	updateCampaign,
 	addCauseToCampaign,
 	removeCauseFromCampaign,
+	addMatchingPool,
+	updateMatchingPool,
+	getCampaignSupporters,
+	updateCampaignAllocation,
 } from "../controllers/campaign.controller";
 import { authenticate } from "../middleware/auth.middleware";
 import { authorize } from "../middleware/role.middleware";
@@ -19,6 +23,7 @@ const router = express.Router();
 router.get("/", getCampaigns);
 router.get("/:campaignId", getCampaignById);
 router.get("/:campaignId/details", getCampaignDetails);
+router.get("/:campaignId/supporters", getCampaignSupporters);
 router.get(
 	"/:campaignId/details-with-donations",
 	getCampaignDetailsWithDonations
@@ -44,4 +49,23 @@ router.delete(
 	removeCauseFromCampaign
 );
 
+// Sponsor matching pools
+router.post(
+	"/:campaignId/matching-pools",
+	authorize(["organization"]),
+	addMatchingPool
+);
+router.patch(
+	"/:campaignId/matching-pools/:poolId",
+	authorize(["organization"]),
+	updateMatchingPool
+);
+
+// Revenue allocation between co-hosts
+router.put(
+	"/:campaignId/allocation",
+	authorize(["organization"]),
+	updateCampaignAllocation
+);
+
 export default router;
@@ -10,6 +10,7 @@ import {
 	getOrganizationUserIdByCauseId,
 	getCampaignsForCause,
 	cleanupDuplicates,
+	getCauseSupporters,
 } from "../controllers/cause.controller";
 import { authenticate } from "../middleware/auth.middleware";
 import { authorize } from "../middleware/role.middleware";
@@ -25,6 +26,7 @@ router.get(
 	getOrganizationUserIdByCauseId
 );
 router.get("/:causeId/campaigns", authenticate, getCampaignsForCause);
+router.get("/:id/supporters", getCauseSupporters);
 
 // Utility route for cleaning up duplicates
 router.post("/cleanup-duplicates", authenticate, cleanupDuplicates);
@@ -1,16 +1,21 @@
 import { authenticate } from "./../middleware/auth.middleware";
 import express from "express";
 import {
+	acceptDonationReschedule,
+	cancelDonation,
 	confirmDonationReceipt,
 	createDonation,
 	findOrganizationPendingDonations,
 	getDonationById,
+	getDonationTimeline,
 	getDonorDonations,
 	getDonorStats,
 	getItemDonationAnalytics,
 	getItemDonationTypeAnalytics,
+	getPickupRunSheet,
 	markDonationAsReceived,
 	markDonationAsConfirmed,
+	proposeDonationReschedule,
 	updateDonationStatus,
 } from "../controllers/donation.controller";
 
@@ -30,6 +35,14 @@ router.get("/", authorize(["donor"]), getDonorDonations);
 
 router.get("/:id", getDonationById);
 
+router.get("/:id/timeline", getDonationTimeline);
+
+router.get(
+	"/organization/pickup-runs",
+	authorize(["organization"]),
+	getPickupRunSheet
+);
+
 router.get(
 	"/organization/:organizationId",
 	authorize(["organization"]),
@@ -73,4 +86,18 @@ router.patch(
 	markDonationAsConfirmed
 );
 
+router.patch("/:donationId/cancel", authorize(["donor"]), cancelDonation);
+
+router.post(
+	"/:donationId/reschedule",
+	authorize(["donor", "organization"]),
+	proposeDonationReschedule
+);
+
+router.patch(
+	"/:donationId/reschedule/accept",
+	authorize(["donor", "organization"]),
+	acceptDonationReschedule
+);
+
 export default router;
@@ -0,0 +1,25 @@
+import express from "express";
+import {
+	createFundraisingPage,
+	getFundraisingPage,
+	getFundraisingPageLeaderboard,
+	getFundraisingPages,
+	getMyFundraisingPages,
+	updateFundraisingPage,
+} from "../controllers/fundraisingPage.controller";
+import { authenticate } from "../middleware/auth.middleware";
+import { authorize } from "../middleware/role.middleware";
+
+const router = express.Router();
+
+// Donor-only routes; declared first so "/mine" is not read as a page slug
+router.get("/mine", authenticate, authorize(["donor"]), getMyFundraisingPages);
+router.post("/", authenticate, authorize(["donor"]), createFundraisingPage);
+router.patch("/:id", authenticate, authorize(["donor"]), updateFundraisingPage);
+
+// Public routes
+router.get("/", getFundraisingPages);
+router.get("/:id", getFundraisingPage);
+router.get("/:id/leaderboard", getFundraisingPageLeaderboard);
+
+export default router;
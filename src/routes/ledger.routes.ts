@@ -0,0 +1,24 @@
+import express from "express";
+import {
+	createPayout,
+	getBalance,
+	getEntries,
+	runLedgerBackfill,
+} from "../controllers/ledger.controller";
+import { authenticate } from "../middleware/auth.middleware";
+import { authorize } from "../middleware/role.middleware";
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get(
+	"/balances/:scope/:id",
+	authorize(["organization", "admin"]),
+	getBalance
+);
+router.get("/entries", authorize(["organization", "admin"]), getEntries);
+router.post("/payouts", authorize(["admin"]), createPayout);
+router.post("/backfill", authorize(["admin"]), runLedgerBackfill);
+
+export default router;
@@ -5,6 +5,9 @@ import {
 	getCurrentOrganization,
 	getOrganizationDonors,
 	getOrganizationCampaigns,
+	updatePickupAvailability,
+	getPickupAvailability,
+	getPickupSlotsForDate,
 } from "../controllers/organization.controller";
 import { authenticate } from "../middleware/auth.middleware";
 import { authorize } from "../middleware/role.middleware";
@@ -13,6 +16,13 @@ router.use(authenticate);
 
 router.get("/me", authorize(["organization"]), getCurrentOrganization);
 router.get("/donors", authorize(["organization"]), getOrganizationDonors);
+router.put(
+	"/me/pickup-availability",
+	authorize(["organization"]),
+	updatePickupAvailability
+);
+router.get("/:id/pickup-availability", getPickupAvailability);
+router.get("/:id/pickup-slots", getPickupSlotsForDate);
 router.get("/:organizationId/campaigns", getOrganizationCampaigns);
 router.get("/cause/:causeId", authorize(["donor"]), getOrganizationByCauseId);
 router.get("/:id", getOrganizationById);
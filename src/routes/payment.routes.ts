@@ -1,8 +1,85 @@
 import express from "express";
-import { checkoutSession } from "../controllers/payment.controller";
+import {
+	checkoutSession,
+	createSubscriptionCheckoutSession,
+	refundDonation,
+} from "../controllers/payment.controller";
+import {
+	chargeFakeSubscription,
+	completeFakeCheckout,
+	expireFakeCheckout,
+	flushFakeWebhooks,
+} from "../controllers/fakePayment.controller";
+import {
+	getWebhookEvents,
+	replayWebhookEvent,
+} from "../controllers/webhookEvent.controller";
+import {
+	getReconciliationReport,
+	getReconciliationReports,
+	runReconciliation,
+} from "../controllers/reconciliation.controller";
+import { PAYMENT_CONFIG } from "../config/payment.config";
 import { authenticate } from "../middleware/auth.middleware";
+import { authorize } from "../middleware/role.middleware";
 
 const router = express.Router();
 
 router.post("/create-checkout-session", authenticate, checkoutSession);
+router.post(
+	"/create-subscription-session",
+	authenticate,
+	createSubscriptionCheckoutSession
+);
+router.post(
+	"/donations/:donationId/refund",
+	authenticate,
+	authorize(["organization", "admin"]),
+	refundDonation
+);
+
+// Stored provider webhook events
+router.get(
+	"/webhook-events",
+	authenticate,
+	authorize(["admin"]),
+	getWebhookEvents
+);
+router.post(
+	"/webhook-events/:id/replay",
+	authenticate,
+	authorize(["admin"]),
+	replayWebhookEvent
+);
+
+// Stored donations compared against provider payment records
+router.post(
+	"/reconciliation",
+	authenticate,
+	authorize(["admin"]),
+	runReconciliation
+);
+router.get(
+	"/reconciliation",
+	authenticate,
+	authorize(["admin"]),
+	getReconciliationReports
+);
+router.get(
+	"/reconciliation/:id",
+	authenticate,
+	authorize(["admin"]),
+	getReconciliationReport
+);
+
+// Local checkout simulation for the in-process fake provider
+if (PAYMENT_CONFIG.provider === "fake") {
+	router.get("/fake/checkout/:sessionId", completeFakeCheckout);
+	router.post("/fake/checkout/:sessionId/expire", expireFakeCheckout);
+	router.post("/fake/webhooks/flush", flushFakeWebhooks);
+	router.post(
+		"/fake/subscriptions/:subscriptionId/charge",
+		chargeFakeSubscription
+	);
+}
 export default router;
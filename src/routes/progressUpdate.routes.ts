@@ -0,0 +1,31 @@
+import express from "express";
+import {
+	createProgressUpdate,
+	deleteProgressUpdate,
+	getProgressUpdate,
+	getProgressUpdates,
+} from "../controllers/progressUpdate.controller";
+import { authenticate } from "../middleware/auth.middleware";
+import { authorize } from "../middleware/role.middleware";
+
+const router = express.Router();
+
+// Public routes
+router.get("/", getProgressUpdates);
+router.get("/:id", getProgressUpdate);
+
+// Organization-only routes
+router.post(
+	"/",
+	authenticate,
+	authorize(["organization"]),
+	createProgressUpdate
+);
+router.delete(
+	"/:id",
+	authenticate,
+	authorize(["organization"]),
+	deleteProgressUpdate
+);
+
+export default router;
@@ -0,0 +1,21 @@
+import express from "express";
+import {
+	cancelRecurringDonation,
+	getMyRecurringDonations,
+	pauseRecurringDonation,
+	resumeRecurringDonation,
+} from "../controllers/recurringDonation.controller";
+import { authenticate } from "../middleware/auth.middleware";
+import { authorize } from "../middleware/role.middleware";
+
+const router = express.Router();
+
+router.use(authenticate);
+router.use(authorize(["donor"]));
+
+router.get("/", getMyRecurringDonations);
+router.patch("/:id/pause", pauseRecurringDonation);
+router.patch("/:id/resume", resumeRecurringDonation);
+router.patch("/:id/cancel", cancelRecurringDonation);
+
+export default router;
@@ -0,0 +1,20 @@
+import express from "express";
+import {
+	generateTaxReceipt,
+	getTaxReceipts,
+} from "../controllers/taxReceipt.controller";
+import { authenticate } from "../middleware/auth.middleware";
+import { authorize } from "../middleware/role.middleware";
+
+const router = express.Router();
+
+router.use(authenticate);
+
+router.get("/", authorize(["donor", "organization", "admin"]), getTaxReceipts);
+router.post(
+	"/",
+	authorize(["donor", "organization", "admin"]),
+	generateTaxReceipt
+);
+
+export default router;
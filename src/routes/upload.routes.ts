@@ -1,15 +1,18 @@
 import express from "express";
 import { authenticate } from "../middleware/auth.middleware";
+import { authorize } from "../middleware/role.middleware";
 import {
 	uploadCauseImage,
 	uploadCampaignImage,
 	uploadOrganizationLogo,
+	uploadUpdateImage,
 	deleteImage,
 } from "../controllers/upload.controller";
 import {
 	uploadCauseImageToCloudinary,
 	uploadCampaignImageToCloudinary,
 	uploadOrganizationLogoToCloudinary,
+	uploadUpdateImageToCloudinary,
 } from "../middleware/cloudinary.middleware";
 
 const router = express.Router();
@@ -36,6 +39,14 @@ router.post(
 	uploadOrganizationLogo
 );
 
+router.post(
+	"/update-image",
+	authenticate,
+	authorize(["organization"]),
+	uploadUpdateImageToCloudinary,
+	uploadUpdateImage
+);
+
 router.delete("/image", authenticate, deleteImage);
 
 export default router;
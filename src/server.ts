@@ -3,6 +3,8 @@ import dotenv from "dotenv";
 import { createServer } from "http";
 import { Server } from "socket.io";
 import { setupSocketIO } from "./socket/socketHandler";
+import { startReconciliationJob } from "./jobs/reconciliationJob";
+import { startCampaignLifecycleJob } from "./jobs/campaignLifecycleJob";
 
 dotenv.config();
 
@@ -30,4 +32,6 @@ app.set("io", io);
 server.listen(PORT, () => {
 	console.log(`Server running in ${process.env.NODE_ENV} mode on port ${PORT}`);
 	console.log(`Socket.IO server initialized`);
+	startReconciliationJob();
+	startCampaignLifecycleJob(io);
 });
@@ -0,0 +1,157 @@
+import mongoose from "mongoose";
+import Campaign from "../models/campaign.model";
+import {
+	IAllocationShare,
+	ICampaign,
+	ICampaignAllocation,
+} from "../types/campaign";
+import { AppError } from "../utils/appError";
+import { roundMoney } from "./currencyService";
+
+const ALLOCATION_MODES: ICampaignAllocation["mode"][] = [
+	"none",
+	"percentage",
+	"cause",
+];
+
+const toId = (ref: any): string => (ref?._id || ref).toString();
+
+// Share or route targets must be co-hosts of the campaign
+const parseCoHost = (
+	campaign: ICampaign,
+	organization: unknown
+): mongoose.Types.ObjectId => {
+	const hosts = campaign.organizations.map(toId);
+	if (
+		!organization ||
+		!mongoose.Types.ObjectId.isValid(String(organization)) ||
+		!hosts.includes(String(organization))
+	) {
+		throw new AppError(
+			`Organization ${organization} does not co-host this campaign`,
+			400
+		);
+	}
+	return new mongoose.Types.ObjectId(String(organization));
+};
+
+/**
+ * Validate allocation rules from a request. Percentage shares must name
+ * distinct co-hosts and add up to 100; cause routes must name causes in the
+ * campaign, each routed to one co-host.
+ */
+export const normalizeAllocation = (
+	campaign: ICampaign,
+	input: any
+): ICampaignAllocation => {
+	const mode = input?.mode;
+	if (!ALLOCATION_MODES.includes(mode)) {
+		throw new AppError(
+			"Allocation mode must be none, percentage or cause",
+			400
+		);
+	}
+
+	if (mode === "none") {
+		return { mode, shares: [], causeRoutes: [] };
+	}
+
+	if (mode === "percentage") {
+		if (!Array.isArray(input.shares) || input.shares.length === 0) {
+			throw new AppError("Percentage allocation needs at least one share", 400);
+		}
+		const shares: IAllocationShare[] = input.shares.map((share: any) => {
+			if (typeof share?.percent !== "number" || !(share.percent > 0)) {
+				throw new AppError("Each share must be a positive percentage", 400);
+			}
+			return {
+				organization: parseCoHost(campaign, share.organization),
+				percent: share.percent,
+			};
+		});
+
+		const organizations = new Set(
+			shares.map((share) => toId(share.organization))
+		);
+		if (organizations.size !== shares.length) {
+			throw new AppError("Each organization can only have one share", 400);
+		}
+		const total = roundMoney(
+			shares.reduce((sum, share) => sum + share.percent, 0)
+		);
+		if (total !== 100) {
+			throw new AppError(`Shares must add up to 100, not ${total}`, 400);
+		}
+		return { mode, shares, causeRoutes: [] };
+	}
+
+	if (!Array.isArray(input.causeRoutes) || input.causeRoutes.length === 0) {
+		throw new AppError("Cause allocation needs at least one route", 400);
+	}
+	const campaignCauseIds = campaign.causes.map(toId);
+	const causeRoutes = input.causeRoutes.map((route: any) => {
+		if (!campaignCauseIds.includes(String(route?.cause))) {
+			throw new AppError(
+				`Cause ${route?.cause} is not part of this campaign`,
+				400
+			);
+		}
+		return {
+			cause: new mongoose.Types.ObjectId(String(route.cause)),
+			organization: parseCoHost(campaign, route.organization),
+		};
+	});
+
+	const causes = new Set(causeRoutes.map((route: any) => toId(route.cause)));
+	if (causes.size !== causeRoutes.length) {
+		throw new AppError("Each cause can only be routed once", 400);
+	}
+	return { mode, shares: [], causeRoutes };
+};
+
+/**
+ * How a gift to this campaign and cause is shared between co-hosts. Empty
+ * when the campaign has no rules, so the gift stays with the cause's
+ * organization.
+ */
+export const getCampaignAllocation = async (
+	campaignId: any,
+	causeId: any
+): Promise<IAllocationShare[]> => {
+	if (!campaignId) {
+		return [];
+	}
+
+	const campaign = await Campaign.findById(toId(campaignId)).select(
+		"allocation"
+	);
+	const allocation = campaign?.allocation;
+
+	if (allocation?.mode === "percentage") {
+		return allocation.shares.map(({ organization, percent }) => ({
+			organization,
+			percent,
+		}));
+	}
+
+	if (allocation?.mode === "cause" && causeId) {
+		const route = allocation.causeRoutes.find(
+			(candidate) => toId(candidate.cause) === toId(causeId)
+		);
+		return route ? [{ organization: route.organization, percent: 100 }] : [];
+	}
+
+	return [];
+};
+
+export const formatAllocation = (allocation?: ICampaignAllocation) => ({
+	mode: allocation?.mode || "none",
+	shares: (allocation?.shares || []).map((share) => ({
+		organizationId: toId(share.organization),
+		percent: share.percent,
+	})),
+	causeRoutes: (allocation?.causeRoutes || []).map((route) => ({
+		causeId: toId(route.cause),
+		organizationId: toId(route.organization),
+	})),
+});
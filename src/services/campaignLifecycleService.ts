@@ -0,0 +1,126 @@
+import { Server } from "socket.io";
+import Campaign from "../models/campaign.model";
+import Donation from "../models/donation.model";
+import Organization from "../models/organization.model";
+import { ICampaign } from "../types/campaign";
+import { DonationStatus } from "../types";
+import { NotificationService } from "./notificationService";
+
+// Donations that never went through don't make someone a past donor
+const NON_DONOR_STATUSES = [
+	DonationStatus.PENDING,
+	DonationStatus.FAILED,
+	DonationStatus.CANCELLED,
+];
+
+export interface CampaignLifecycleResult {
+	activated: string[];
+	completed: string[];
+}
+
+// Organization accounts running the campaign, plus donors who have given to
+// any of its causes (on completion, matching how its totals are counted) or
+// to its organizations (on launch)
+const getRecipients = async (
+	campaign: ICampaign,
+	action: "started" | "completed"
+): Promise<{ organizationName: string; recipients: string[] }> => {
+	const organizations = await Organization.find({
+		_id: { $in: campaign.organizations },
+	}).select("name userId");
+
+	const donorQuery =
+		action === "completed"
+			? { cause: { $in: campaign.causes } }
+			: { organization: { $in: campaign.organizations } };
+	const donors = await Donation.distinct("donor", {
+		...donorQuery,
+		status: { $nin: NON_DONOR_STATUSES },
+	});
+
+	return {
+		organizationName: organizations[0]?.name || "An organization",
+		recipients: [
+			...new Set([
+				...organizations.map((org) => org.userId.toString()),
+				...donors.map((donor) => donor.toString()),
+			]),
+		],
+	};
+};
+
+const notifyCampaignChange = async (
+	notificationService: NotificationService,
+	campaign: ICampaign,
+	action: "started" | "completed"
+) => {
+	try {
+		const { organizationName, recipients } = await getRecipients(
+			campaign,
+			action
+		);
+		for (const recipient of recipients) {
+			await notificationService.createCampaignNotification(recipient, {
+				campaignId: campaign._id.toString(),
+				campaignName: campaign.title,
+				organizationName,
+				action,
+			});
+		}
+	} catch (error) {
+		console.error(
+			` Failed to send ${action} notifications for campaign ${campaign._id}:`,
+			error
+		);
+	}
+};
+
+/**
+ * Activate opted-in drafts whose start date has passed and complete active
+ * campaigns whose end date has passed. Each move is a conditional update, so
+ * a campaign an organization changed in the meantime is left alone and
+ * concurrent runs never notify twice.
+ */
+export const runCampaignLifecycle = async (
+	io: Server,
+	now: Date = new Date()
+): Promise<CampaignLifecycleResult> => {
+	const notificationService = new NotificationService(io);
+	const result: CampaignLifecycleResult = { activated: [], completed: [] };
+
+	const dueDrafts = await Campaign.find({
+		status: "draft",
+		autoActivate: true,
+		startDate: { $lte: now },
+		endDate: { $gt: now },
+	}).select("_id");
+	for (const { _id } of dueDrafts) {
+		const campaign = await Campaign.findOneAndUpdate(
+			{ _id, status: "draft", autoActivate: true, startDate: { $lte: now } },
+			{ status: "active", activatedAt: now },
+			{ new: true }
+		);
+		if (campaign) {
+			result.activated.push(campaign._id.toString());
+			await notifyCampaignChange(notificationService, campaign, "started");
+		}
+	}
+
+	const endedCampaigns = await Campaign.find({
+		status: "active",
+		endDate: { $lte: now },
+	}).select("_id");
+	for (const { _id } of endedCampaigns) {
+		const campaign = await Campaign.findOneAndUpdate(
+			{ _id, status: "active", endDate: { $lte: now } },
+			{ status: "completed", completedAt: now },
+			{ new: true }
+		);
+		if (campaign) {
+			result.completed.push(campaign._id.toString());
+			await notifyCampaignChange(notificationService, campaign, "completed");
+		}
+	}
+
+	return result;
+};
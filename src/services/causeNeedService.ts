@@ -0,0 +1,242 @@
+import mongoose from "mongoose";
+import Cause from "../models/cause.model";
+import Donation, { IDonation } from "../models/donation.model";
+import { DonationType } from "../types";
+import { CauseNeedPriority, ICauseNeed } from "../types/cause";
+import { AppError } from "../utils/appError";
+
+export const NEED_PRIORITIES: CauseNeedPriority[] = ["high", "medium", "low"];
+
+// "Boxes", " boxes" and "BOXES" are the same unit. Singular and plural are
+// not merged: stripping an "s" would turn "glass" into "glas".
+const normalizeUnit = (unit?: string): string =>
+	(unit || "").trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Validate needs from a create or update request. A need sent back with its
+ * id keeps the quantity already fulfilled; new needs start at zero.
+ */
+export const normalizeNeeds = (
+	input: unknown,
+	existing: ICauseNeed[] = []
+): ICauseNeed[] => {
+	if (!Array.isArray(input)) {
+		throw new AppError("Needs must be an array", 400);
+	}
+
+	return input.map((need: any, index) => {
+		const label = `Need ${index + 1}`;
+
+		if (
+			!Object.values(DonationType).includes(need?.itemType) ||
+			need.itemType === DonationType.MONEY
+		) {
+			throw new AppError(`${label}: invalid item type`, 400);
+		}
+		if (!need.name || typeof need.name !== "string") {
+			throw new AppError(`${label}: name is required`, 400);
+		}
+		if (!Number.isInteger(need.targetQuantity) || need.targetQuantity < 1) {
+			throw new AppError(
+				`${label}: target quantity must be a whole number of at least 1`,
+				400
+			);
+		}
+		if (!need.unit || typeof need.unit !== "string") {
+			throw new AppError(`${label}: unit is required`, 400);
+		}
+		const priority = need.priority || "medium";
+		if (!NEED_PRIORITIES.includes(priority)) {
+			throw new AppError(
+				`${label}: priority must be one of ${NEED_PRIORITIES.join(", ")}`,
+				400
+			);
+		}
+
+		const current = need.id
+			? existing.find((candidate) => candidate._id?.toString() === need.id)
+			: undefined;
+
+		return {
+			...(current && { _id: current._id }),
+			itemType: need.itemType,
+			name: need.name.trim(),
+			targetQuantity: need.targetQuantity,
+			fulfilledQuantity: current?.fulfilledQuantity || 0,
+			unit: need.unit.trim(),
+			priority,
+		};
+	});
+};
+
+export const formatNeeds = (needs: ICauseNeed[] = []) =>
+	needs.map((need) => ({
+		id: need._id?.toString(),
+		itemType: need.itemType,
+		name: need.name,
+		unit: need.unit,
+		priority: need.priority,
+		targetQuantity: need.targetQuantity,
+		fulfilledQuantity: need.fulfilledQuantity,
+		remainingQuantity: Math.max(
+			need.targetQuantity - need.fulfilledQuantity,
+			0
+		),
+		progressPercentage: Math.min(
+			Math.round((need.fulfilledQuantity / need.targetQuantity) * 100),
+			100
+		),
+	}));
+
+// Query condition for causes with at least one need still short of its
+// target, optionally of one item type
+export const unmetNeedsFilter = (itemType?: string) => {
+	if (
+		itemType &&
+		(!Object.values(DonationType).includes(itemType as DonationType) ||
+			itemType === DonationType.MONEY)
+	) {
+		throw new AppError("Invalid need item type", 400);
+	}
+	return {
+		$expr: {
+			$anyElementTrue: [
+				{
+					$map: {
+						input: { $ifNull: ["$needs", []] },
+						as: "need",
+						in: {
+							$and: [
+								{ $lt: ["$$need.fulfilledQuantity", "$$need.targetQuantity"] },
+								...(itemType ? [{ $eq: ["$$need.itemType", itemType] }] : []),
+							],
+						},
+					},
+				},
+			],
+		},
+	};
+};
+
+// Received quantity per item type and unit; older donations without line
+// items count their top-level quantity
+const getReceivedItems = (
+	donation: Pick<IDonation, "type" | "quantity" | "unit" | "lineItems">
+) =>
+	donation.lineItems?.length
+		? donation.lineItems.map((line) => ({
+				type: line.type,
+				unit: line.unit,
+				quantity:
+					line.receivedQuantity ??
+					(line.status === "REJECTED" ? 0 : line.quantity),
+			}))
+		: [
+				{
+					type: donation.type,
+					unit: donation.unit,
+					quantity: donation.quantity || 0,
+				},
+			];
+
+// The id behind a reference, whether or not it was populated
+const getRefId = (
+	ref?: mongoose.Types.ObjectId | { _id: mongoose.Types.ObjectId }
+): mongoose.Types.ObjectId | undefined =>
+	ref instanceof mongoose.Types.ObjectId ? ref : ref?._id;
+
+/**
+ * Count a received item donation toward its cause's needs. Each line goes to
+ * the need with the same item type and unit, favouring needs not yet met and
+ * then the highest priority. The donation is claimed first so a repeated
+ * call never counts it twice, and every need is updated in one write; if
+ * that write fails the claim is released so the donation can be counted
+ * again.
+ */
+export const recordReceivedNeeds = async (
+	donation: Pick<
+		IDonation,
+		"_id" | "type" | "cause" | "quantity" | "unit" | "lineItems"
+	>
+): Promise<void> => {
+	const causeId = getRefId(donation.cause);
+	if (donation.type === DonationType.MONEY || !causeId) {
+		return;
+	}
+
+	const cause = await Cause.findById(causeId).select("needs");
+	if (!cause || cause.needs.length === 0) {
+		return;
+	}
+
+	const fulfilled = new Map<string, number>(
+		cause.needs.map((need) => [need._id!.toString(), need.fulfilledQuantity])
+	);
+	const increments = new Map<string, number>();
+
+	for (const item of getReceivedItems(donation)) {
+		if (!(item.quantity > 0)) {
+			continue;
+		}
+
+		const need = cause.needs
+			.filter(
+				(candidate) =>
+					candidate.itemType === item.type &&
+					normalizeUnit(candidate.unit) === normalizeUnit(item.unit)
+			)
+			.sort((a, b) => {
+				const aMet = fulfilled.get(a._id!.toString())! >= a.targetQuantity;
+				const bMet = fulfilled.get(b._id!.toString())! >= b.targetQuantity;
+				return (
+					Number(aMet) - Number(bMet) ||
+					NEED_PRIORITIES.indexOf(a.priority) -
+						NEED_PRIORITIES.indexOf(b.priority)
+				);
+			})[0];
+		if (!need) {
+			continue;
+		}
+
+		const needId = need._id!.toString();
+		fulfilled.set(needId, fulfilled.get(needId)! + item.quantity);
+		increments.set(needId, (increments.get(needId) || 0) + item.quantity);
+	}
+	if (increments.size === 0) {
+		return;
+	}
+
+	const claimed = await Donation.updateOne(
+		{ _id: donation._id, needsFulfilledAt: { $exists: false } },
+		{ $set: { needsFulfilledAt: new Date() } }
+	);
+	if (claimed.modifiedCount === 0) {
+		return;
+	}
+
+	const needIds = [...increments.keys()];
+	try {
+		await Cause.updateOne(
+			{ _id: cause._id },
+			{
+				$inc: Object.fromEntries(
+					needIds.map((needId, index) => [
+						`needs.$[need${index}].fulfilledQuantity`,
+						increments.get(needId),
+					])
+				),
+			},
+			{
+				arrayFilters: needIds.map((needId, index) => ({
+					[`need${index}._id`]: new mongoose.Types.ObjectId(needId),
+				})),
+			}
+		);
+	} catch (error) {
+		await Donation.updateOne(
+			{ _id: donation._id },
+			{ $unset: { needsFulfilledAt: 1 } }
+		);
+		throw error;
+	}
+};
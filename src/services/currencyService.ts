@@ -0,0 +1,127 @@
+import Donation from "../models/donation.model";
+import { CURRENCY_CONFIG } from "../config/currency.config";
+import { AppError } from "../utils/appError";
+
+export interface CurrencyTotal {
+	currency: string;
+	originalAmount: number; // In the donors' currency
+	baseAmount: number; // Converted at the rate of each donation
+	donationCount: number;
+}
+
+export const roundMoney = (amount: number): number =>
+	Math.round(amount * 100) / 100;
+
+export const getBaseCurrency = (): string => CURRENCY_CONFIG.baseCurrency;
+
+export const getSupportedCurrencies = (): string[] =>
+	Object.keys(CURRENCY_CONFIG.fxRates);
+
+// Validate a requested currency, defaulting to the base currency
+export const normalizeCurrency = (currency?: string): string => {
+	if (!currency) {
+		return CURRENCY_CONFIG.baseCurrency;
+	}
+
+	const code = currency.toUpperCase();
+	if (!CURRENCY_CONFIG.fxRates[code]) {
+		throw new AppError(
+			`Unsupported currency ${currency}. Accepted: ${getSupportedCurrencies().join(", ")}`,
+			400
+		);
+	}
+	return code;
+};
+
+// Convert an amount in the given currency to the base currency
+export const convertToBase = (
+	amount: number,
+	currency?: string
+): { baseAmount: number; fxRate: number } => {
+	const fxRate = CURRENCY_CONFIG.fxRates[normalizeCurrency(currency)];
+	return { baseAmount: roundMoney(amount * fxRate), fxRate };
+};
+
+// Convert a base-currency amount back into a donation's own currency
+export const convertFromBase = (baseAmount: number, fxRate = 1): number =>
+	roundMoney(baseAmount / fxRate);
+
+export const formatMoney = (amount: number, currency?: string): string => {
+	const code = (currency || CURRENCY_CONFIG.baseCurrency).toUpperCase();
+	try {
+		return new Intl.NumberFormat("en-IN", {
+			style: "currency",
+			currency: code,
+		}).format(amount);
+	} catch (error) {
+		return `${code} ${amount.toFixed(2)}`;
+	}
+};
+
+/**
+ * Describe what a donor gave, adding the base-currency equivalent for foreign
+ * currency gifts, e.g. "$100.00 (₹8,300.00)".
+ */
+export const describeDonationAmount = (donation: {
+	amount?: number;
+	originalAmount?: number;
+	currency?: string;
+}): string => {
+	const baseAmount = donation.amount || 0;
+	const currency = donation.currency || CURRENCY_CONFIG.baseCurrency;
+
+	if (currency === CURRENCY_CONFIG.baseCurrency) {
+		return formatMoney(baseAmount, currency);
+	}
+	return `${formatMoney(
+		donation.originalAmount ?? baseAmount,
+		currency
+	)} (${formatMoney(baseAmount)})`;
+};
+
+/**
+ * Net money raised per donor currency for donations matching the filter.
+ * Donations that predate multi-currency support count as base currency.
+ */
+export const getCurrencyBreakdown = async (
+	match: Record<string, any>
+): Promise<CurrencyTotal[]> => {
+	const totals = await Donation.aggregate([
+		{ $match: match },
+		{
+			$project: {
+				currency: { $ifNull: ["$currency", CURRENCY_CONFIG.baseCurrency] },
+				baseAmount: {
+					$subtract: ["$amount", { $ifNull: ["$refundedAmount", 0] }],
+				},
+				originalAmount: {
+					$subtract: [
+						{ $ifNull: ["$originalAmount", "$amount"] },
+						{
+							$divide: [
+								{ $ifNull: ["$refundedAmount", 0] },
+								{ $ifNull: ["$fxRate", 1] },
+							],
+						},
+					],
+				},
+			},
+		},
+		{
+			$group: {
+				_id: "$currency",
+				originalAmount: { $sum: "$originalAmount" },
+				baseAmount: { $sum: "$baseAmount" },
+				donationCount: { $sum: 1 },
+			},
+		},
+		{ $sort: { baseAmount: -1 } },
+	]);
+
+	return totals.map((total) => ({
+		currency: total._id,
+		originalAmount: roundMoney(total.originalAmount),
+		baseAmount: roundMoney(total.baseAmount),
+		donationCount: total.donationCount,
+	}));
+};
@@ -0,0 +1,250 @@
+import mongoose from "mongoose";
+import { IDonation } from "../models/donation.model";
+import { DonationStatus, DonationType } from "../types";
+import { AppError } from "../utils/appError";
+
+// Who is allowed to move a donation between states. "system" covers
+// server-driven changes such as payment provider webhooks.
+export type DonationActorRole = "donor" | "organization" | "admin" | "system";
+
+export interface DonationTransitionRule {
+	from: DonationStatus;
+	to: DonationStatus;
+	actors: DonationActorRole[];
+}
+
+export interface DonationTransitionContext {
+	role: DonationActorRole;
+	userId?: string;
+	note?: string;
+	attachmentUrl?: string;
+}
+
+export type DonationTransitionErrorCode =
+	"ILLEGAL_TRANSITION" | "ACTOR_NOT_ALLOWED";
+
+export class DonationTransitionError extends AppError {
+	code: DonationTransitionErrorCode;
+	from: DonationStatus;
+	to: DonationStatus;
+	donationType: DonationType;
+	role: DonationActorRole;
+
+	constructor(
+		code: DonationTransitionErrorCode,
+		donationType: DonationType,
+		from: DonationStatus,
+		to: DonationStatus,
+		role: DonationActorRole
+	) {
+		super(
+			code === "ILLEGAL_TRANSITION"
+				? `Cannot move a ${donationType} donation from ${from} to ${to}`
+				: `A ${role} is not allowed to move a ${donationType} donation from ${from} to ${to}`,
+			code === "ILLEGAL_TRANSITION" ? 400 : 403
+		);
+		this.code = code;
+		this.donationType = donationType;
+		this.from = from;
+		this.to = to;
+		this.role = role;
+	}
+}
+
+// Monetary donations are driven by the payment provider: the donation is
+// created when checkout starts, the payment is captured (APPROVED) and then
+// settled (CONFIRMED). Declined payments may be retried until the checkout
+// session expires.
+const MONEY_TRANSITIONS: DonationTransitionRule[] = [
+	{
+		from: DonationStatus.PENDING,
+		to: DonationStatus.APPROVED,
+		actors: ["system"],
+	},
+	{
+		from: DonationStatus.PENDING,
+		to: DonationStatus.CANCELLED,
+		actors: ["system", "admin"],
+	},
+	{
+		from: DonationStatus.PENDING,
+		to: DonationStatus.FAILED,
+		actors: ["system"],
+	},
+	{
+		from: DonationStatus.FAILED,
+		to: DonationStatus.FAILED,
+		actors: ["system"],
+	},
+	{
+		from: DonationStatus.FAILED,
+		to: DonationStatus.APPROVED,
+		actors: ["system"],
+	},
+	{
+		from: DonationStatus.FAILED,
+		to: DonationStatus.CANCELLED,
+		actors: ["system", "admin"],
+	},
+	{
+		from: DonationStatus.APPROVED,
+		to: DonationStatus.CONFIRMED,
+		actors: ["system", "organization", "admin"],
+	},
+	// Refunds are requested through the API but only applied once the
+	// provider reports them
+	{
+		from: DonationStatus.CONFIRMED,
+		to: DonationStatus.PARTIALLY_REFUNDED,
+		actors: ["system"],
+	},
+	{
+		from: DonationStatus.CONFIRMED,
+		to: DonationStatus.REFUNDED,
+		actors: ["system"],
+	},
+	{
+		from: DonationStatus.PARTIALLY_REFUNDED,
+		to: DonationStatus.PARTIALLY_REFUNDED,
+		actors: ["system"],
+	},
+	{
+		from: DonationStatus.PARTIALLY_REFUNDED,
+		to: DonationStatus.REFUNDED,
+		actors: ["system"],
+	},
+];
+
+// Item donations are reviewed by the organization, handed over, and then
+// confirmed by either side once the receipt photo has been checked.
+const ITEM_TRANSITIONS: DonationTransitionRule[] = [
+	{
+		from: DonationStatus.PENDING,
+		to: DonationStatus.APPROVED,
+		actors: ["organization", "admin"],
+	},
+	{
+		from: DonationStatus.PENDING,
+		to: DonationStatus.CANCELLED,
+		actors: ["donor", "admin"],
+	},
+	{
+		from: DonationStatus.APPROVED,
+		to: DonationStatus.RECEIVED,
+		actors: ["organization", "admin"],
+	},
+	{
+		from: DonationStatus.APPROVED,
+		to: DonationStatus.CANCELLED,
+		actors: ["donor", "admin"],
+	},
+	{
+		from: DonationStatus.RECEIVED,
+		to: DonationStatus.CONFIRMED,
+		actors: ["donor", "organization", "admin"],
+	},
+];
+
+export const DONATION_TRANSITIONS = Object.values(DonationType).reduce(
+	(rules, type) => {
+		rules[type] =
+			type === DonationType.MONEY ? MONEY_TRANSITIONS : ITEM_TRANSITIONS;
+		return rules;
+	},
+	{} as Record<DonationType, DonationTransitionRule[]>
+);
+
+export const getAllowedTransitions = (
+	type: DonationType,
+	from: DonationStatus,
+	role?: DonationActorRole
+): DonationTransitionRule[] =>
+	(DONATION_TRANSITIONS[type] || []).filter(
+		(rule) => rule.from === from && (!role || rule.actors.includes(role))
+	);
+
+export const canTransitionDonation = (
+	type: DonationType,
+	from: DonationStatus,
+	to: DonationStatus,
+	role: DonationActorRole
+): boolean =>
+	getAllowedTransitions(type, from, role).some((rule) => rule.to === to);
+
+// Throws a DonationTransitionError when the move is not part of the lifecycle
+// for this donation type or the actor is not allowed to perform it
+export const assertDonationTransition = (
+	type: DonationType,
+	from: DonationStatus,
+	to: DonationStatus,
+	role: DonationActorRole
+): DonationTransitionRule => {
+	const rule = (DONATION_TRANSITIONS[type] || []).find(
+		(candidate) => candidate.from === from && candidate.to === to
+	);
+
+	if (!rule) {
+		throw new DonationTransitionError(
+			"ILLEGAL_TRANSITION",
+			type,
+			from,
+			to,
+			role
+		);
+	}
+
+	if (!rule.actors.includes(role)) {
+		throw new DonationTransitionError(
+			"ACTOR_NOT_ALLOWED",
+			type,
+			from,
+			to,
+			role
+		);
+	}
+
+	return rule;
+};
+
+// Validate and apply a status change on a donation document, appending an
+// entry to its status history. The caller is responsible for saving.
+export const transitionDonation = <
+	T extends Pick<
+		IDonation,
+		"type" | "status" | "confirmationDate" | "statusHistory"
+	>,
+>(
+	donation: T,
+	to: DonationStatus,
+	context: DonationTransitionContext
+): T => {
+	const from = donation.status;
+	assertDonationTransition(donation.type, from, to, context.role);
+
+	donation.status = to;
+	donation.statusHistory.push({
+		from,
+		to,
+		changedBy: context.userId
+			? new mongoose.Types.ObjectId(context.userId)
+			: undefined,
+		role: context.role,
+		note: context.note,
+		attachmentUrl: context.attachmentUrl,
+		changedAt: new Date(),
+	});
+
+	if (to === DonationStatus.CONFIRMED && !donation.confirmationDate) {
+		donation.confirmationDate = new Date();
+	}
+
+	return donation;
+};
+
+// Map an authenticated user's role onto a lifecycle actor
+export const toDonationActorRole = (role?: string): DonationActorRole => {
+	if (role === "donor" || role === "organization" || role === "admin") {
+		return role;
+	}
+	throw new AppError("Unknown actor role", 403);
+};
@@ -0,0 +1,176 @@
+import {
+	IDonation,
+	IDonationLineItem,
+	ItemCondition,
+} from "../models/donation.model";
+import { DonationType } from "../types";
+import { AppError } from "../utils/appError";
+
+const ITEM_CONDITIONS: ItemCondition[] = [
+	"NEW",
+	"LIKE_NEW",
+	"GOOD",
+	"FAIR",
+	"POOR",
+];
+
+export interface LineItemReview {
+	lineItemId: string;
+	status: "RECEIVED" | "REJECTED";
+	receivedQuantity?: number;
+	reason?: string;
+}
+
+// Multipart requests (e.g. with a photo upload) send arrays as JSON strings
+export const parseJsonArray = (value: unknown, field: string): any[] => {
+	if (value === undefined || value === null || value === "") {
+		return [];
+	}
+	if (typeof value === "string") {
+		try {
+			value = JSON.parse(value);
+		} catch (error) {
+			throw new AppError(`${field} must be valid JSON`, 400);
+		}
+	}
+	if (!Array.isArray(value)) {
+		throw new AppError(`${field} must be an array`, 400);
+	}
+	return value;
+};
+
+/**
+ * Build the line items for a new item donation. Requests without a lineItems
+ * array are treated as a single line made from the top-level type, quantity and unit.
+ */
+export const buildLineItems = (body: any): IDonationLineItem[] => {
+	const rawLines = parseJsonArray(body.lineItems, "lineItems");
+
+	const lines =
+		rawLines.length > 0
+			? rawLines
+			: [
+					{
+						type: body.type,
+						quantity: body.quantity,
+						unit: body.unit,
+						condition: body.condition,
+					},
+				];
+
+	return lines.map((line, index) => {
+		const label = `Line item ${index + 1}`;
+
+		if (
+			!Object.values(DonationType).includes(line.type) ||
+			line.type === DonationType.MONEY
+		) {
+			throw new AppError(`${label}: invalid item type`, 400);
+		}
+
+		const quantity = Number(line.quantity);
+		if (!Number.isFinite(quantity) || quantity < 1) {
+			throw new AppError(`${label}: quantity must be at least 1`, 400);
+		}
+
+		if (!line.unit || typeof line.unit !== "string") {
+			throw new AppError(`${label}: unit is required`, 400);
+		}
+
+		const condition = line.condition || "GOOD";
+		if (!ITEM_CONDITIONS.includes(condition)) {
+			throw new AppError(
+				`${label}: condition must be one of ${ITEM_CONDITIONS.join(", ")}`,
+				400
+			);
+		}
+
+		return {
+			type: line.type,
+			quantity,
+			unit: line.unit.trim(),
+			condition,
+			description: line.description,
+			status: "PENDING",
+		};
+	});
+};
+
+// Top-level type, quantity and unit kept for screens that predate line items
+export const summarizeLineItems = (lines: IDonationLineItem[]) => {
+	const types = new Set(lines.map((line) => line.type));
+	const units = new Set(lines.map((line) => line.unit));
+
+	return {
+		type: types.size === 1 ? lines[0].type : DonationType.OTHER,
+		quantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+		unit: units.size === 1 ? lines[0].unit : "items",
+	};
+};
+
+/**
+ * Mark each line of a donation received or rejected. Lines without a review
+ * are received in full. At least one line must be received.
+ */
+export const applyLineItemReviews = (
+	donation: Pick<IDonation, "lineItems">,
+	reviews: LineItemReview[]
+): void => {
+	if (!donation.lineItems || donation.lineItems.length === 0) {
+		if (reviews.length > 0) {
+			throw new AppError("This donation has no line items to review", 400);
+		}
+		return;
+	}
+
+	reviews.forEach((review) => {
+		const line = donation.lineItems.find(
+			(candidate) => candidate._id?.toString() === review.lineItemId
+		);
+		if (!line) {
+			throw new AppError(`Line item ${review.lineItemId} not found`, 404);
+		}
+		if (!["RECEIVED", "REJECTED"].includes(review.status)) {
+			throw new AppError("Line item status must be RECEIVED or REJECTED", 400);
+		}
+	});
+
+	const reviewedAt = new Date();
+	donation.lineItems.forEach((line) => {
+		const review = reviews.find(
+			(candidate) => candidate.lineItemId === line._id?.toString()
+		);
+
+		if (review?.status === "REJECTED") {
+			line.status = "REJECTED";
+			line.receivedQuantity = 0;
+			line.rejectionReason = review.reason;
+		} else {
+			const receivedQuantity =
+				review?.receivedQuantity !== undefined
+					? Number(review.receivedQuantity)
+					: line.quantity;
+			if (
+				!Number.isFinite(receivedQuantity) ||
+				receivedQuantity < 1 ||
+				receivedQuantity > line.quantity
+			) {
+				throw new AppError(
+					`Received quantity for line ${line._id} must be between 1 and ${line.quantity}`,
+					400
+				);
+			}
+			line.status = "RECEIVED";
+			line.receivedQuantity = receivedQuantity;
+			line.rejectionReason = undefined;
+		}
+		line.reviewedAt = reviewedAt;
+	});
+
+	if (donation.lineItems.every((line) => line.status === "REJECTED")) {
+		throw new AppError(
+			"At least one line item must be received. Ask the donor to cancel instead.",
+			400
+		);
+	}
+};
@@ -0,0 +1,367 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { PAYMENT_CONFIG } from "../config/payment.config";
+import {
+	CheckoutParams,
+	CheckoutSessionResult,
+	PaymentDetails,
+	PaymentProvider,
+	PaymentWebhookError,
+	PaymentWebhookEvent,
+	RefundDetails,
+	SubscriptionCheckoutParams,
+	SubscriptionDetails,
+} from "./paymentProvider";
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+interface FakeCheckoutSession extends CheckoutParams {
+	id: string;
+	mode: "payment" | "subscription";
+	status: "open" | "complete" | "expired";
+	paymentId?: string;
+	subscriptionId?: string;
+}
+
+interface FakeSubscription extends SubscriptionDetails {
+	amount: number;
+	currency: string;
+	customerEmail?: string;
+}
+
+export interface SignedWebhook {
+	rawBody: string;
+	headers: IncomingHttpHeaders;
+}
+
+const createId = (prefix: string) =>
+	`${prefix}_${crypto.randomBytes(12).toString("hex")}`;
+
+const sign = (rawBody: string) =>
+	crypto
+		.createHmac("sha256", PAYMENT_CONFIG.fakeWebhookSecret)
+		.update(rawBody)
+		.digest("hex");
+
+/**
+ * In-process payment provider for local development and tests. Checkout pages
+ * are served by this API, state lives in memory and webhooks are queued until
+ * they are flushed through the regular webhook handler.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+	readonly name = "fake" as const;
+
+	private sessions = new Map<string, FakeCheckoutSession>();
+	private payments = new Map<string, PaymentDetails>();
+	private refunds = new Map<string, RefundDetails>();
+	private subscriptions = new Map<string, FakeSubscription>();
+	private outbox: SignedWebhook[] = [];
+
+	async createCheckoutSession(
+		params: CheckoutParams
+	): Promise<CheckoutSessionResult> {
+		return this.openSession(params, "payment");
+	}
+
+	async createSubscriptionCheckoutSession(
+		params: SubscriptionCheckoutParams
+	): Promise<CheckoutSessionResult> {
+		return this.openSession(params, "subscription");
+	}
+
+	constructWebhookEvent(
+		rawBody: Buffer | string,
+		headers: IncomingHttpHeaders
+	): PaymentWebhookEvent {
+		const body = rawBody.toString();
+		const signature = headers[FAKE_SIGNATURE_HEADER];
+
+		if (
+			typeof signature !== "string" ||
+			signature.length !== 64 ||
+			!crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(sign(body)))
+		) {
+			throw new PaymentWebhookError("Invalid fake webhook signature");
+		}
+
+		return JSON.parse(body);
+	}
+
+	async getPayment(paymentId: string): Promise<PaymentDetails | null> {
+		return this.payments.get(paymentId) || null;
+	}
+
+	async listPayments(range: {
+		from: Date;
+		to: Date;
+	}): Promise<PaymentDetails[]> {
+		return Array.from(this.payments.values()).filter(
+			(payment) =>
+				payment.createdAt >= range.from && payment.createdAt <= range.to
+		);
+	}
+
+	async createRefund(params: {
+		paymentId: string;
+		amount: number;
+		metadata?: Record<string, string>;
+	}): Promise<RefundDetails> {
+		const payment = this.payments.get(params.paymentId);
+		if (!payment || payment.status !== "succeeded") {
+			throw new Error(`No captured payment ${params.paymentId}`);
+		}
+		if (payment.amountRefunded + params.amount > payment.amount) {
+			throw new Error("Refund exceeds the captured amount");
+		}
+
+		const refund: RefundDetails = {
+			id: createId("fake_re"),
+			paymentId: payment.id,
+			amount: params.amount,
+			status: "succeeded",
+			createdAt: new Date(),
+		};
+		this.refunds.set(refund.id, refund);
+		payment.amountRefunded += params.amount;
+
+		this.enqueue({
+			id: createId("fake_evt"),
+			type: "payment.refunded",
+			paymentId: payment.id,
+			chargeId: payment.id,
+			amountRefunded: payment.amountRefunded,
+			fullyRefunded: payment.amountRefunded >= payment.amount,
+		});
+
+		return refund;
+	}
+
+	async listRefunds(paymentId: string): Promise<RefundDetails[]> {
+		return Array.from(this.refunds.values()).filter(
+			(refund) => refund.paymentId === paymentId
+		);
+	}
+
+	async getSubscription(
+		subscriptionId: string
+	): Promise<SubscriptionDetails | null> {
+		return this.subscriptions.get(subscriptionId) || null;
+	}
+
+	async pauseSubscription(subscriptionId: string): Promise<void> {
+		this.getActiveSubscription(subscriptionId).status = "paused";
+	}
+
+	async resumeSubscription(subscriptionId: string): Promise<void> {
+		this.getActiveSubscription(subscriptionId).status = "active";
+	}
+
+	async cancelSubscription(subscriptionId: string): Promise<void> {
+		this.getActiveSubscription(subscriptionId).status = "canceled";
+		this.enqueue({
+			id: createId("fake_evt"),
+			type: "subscription.cancelled",
+			subscriptionId,
+		});
+	}
+
+	getSession(sessionId: string): FakeCheckoutSession | undefined {
+		return this.sessions.get(sessionId);
+	}
+
+	// Simulate the donor paying on the hosted checkout page
+	completeCheckout(sessionId: string): FakeCheckoutSession {
+		const session = this.getOpenSession(sessionId);
+		session.status = "complete";
+
+		if (session.mode === "subscription") {
+			const subscription: FakeSubscription = {
+				id: createId("fake_sub"),
+				customerId: createId("fake_cus"),
+				status: "active",
+				metadata: session.metadata,
+				amount: session.amount,
+				currency: session.currency,
+				customerEmail: session.customerEmail,
+			};
+			this.subscriptions.set(subscription.id, subscription);
+			session.subscriptionId = subscription.id;
+
+			this.enqueue({
+				id: createId("fake_evt"),
+				type: "checkout.completed",
+				mode: "subscription",
+				sessionId: session.id,
+				subscriptionId: subscription.id,
+				customerId: subscription.customerId,
+				amount: session.amount,
+				currency: session.currency,
+				paymentStatus: "paid",
+				customerEmail: session.customerEmail,
+				metadata: session.metadata,
+			});
+			this.chargeSubscription(subscription.id);
+			return session;
+		}
+
+		// A retry after a declined attempt succeeds on the same payment
+		const declined = session.paymentId
+			? this.payments.get(session.paymentId)
+			: undefined;
+		const payment = declined
+			? Object.assign(declined, { status: "succeeded", createdAt: new Date() })
+			: this.capturePayment(session.amount, session.currency, session.metadata);
+		session.paymentId = payment.id;
+
+		this.enqueue({
+			id: createId("fake_evt"),
+			type: "checkout.completed",
+			mode: "payment",
+			sessionId: session.id,
+			paymentId: payment.id,
+			amount: session.amount,
+			currency: session.currency,
+			paymentStatus: "paid",
+			customerEmail: session.customerEmail,
+			metadata: session.metadata,
+		});
+		return session;
+	}
+
+	// Simulate the donor's card being declined; the session stays open
+	failCheckout(sessionId: string, reason = "Your card was declined."): void {
+		const session = this.getOpenSession(sessionId);
+		if (session.mode !== "payment") {
+			throw new Error("Only one-off checkouts can be declined");
+		}
+
+		if (!session.paymentId) {
+			const payment: PaymentDetails = {
+				id: createId("fake_pi"),
+				amount: session.amount,
+				amountRefunded: 0,
+				currency: session.currency,
+				status: "failed",
+				createdAt: new Date(),
+				metadata: session.metadata,
+			};
+			this.payments.set(payment.id, payment);
+			session.paymentId = payment.id;
+		}
+
+		this.enqueue({
+			id: createId("fake_evt"),
+			type: "payment.failed",
+			paymentId: session.paymentId,
+			failureReason: reason,
+			metadata: session.metadata,
+		});
+	}
+
+	// Simulate the provider expiring an abandoned checkout session
+	expireCheckout(sessionId: string): void {
+		const session = this.getOpenSession(sessionId);
+		session.status = "expired";
+
+		this.enqueue({
+			id: createId("fake_evt"),
+			type: "checkout.expired",
+			mode: session.mode,
+			sessionId: session.id,
+			metadata: session.metadata,
+		});
+	}
+
+	// Simulate the next billing cycle of an active subscription
+	chargeSubscription(subscriptionId: string): PaymentDetails {
+		const subscription = this.getActiveSubscription(subscriptionId);
+		if (subscription.status !== "active") {
+			throw new Error(`Subscription ${subscriptionId} is not active`);
+		}
+
+		const payment = this.capturePayment(
+			subscription.amount,
+			subscription.currency,
+			subscription.metadata
+		);
+
+		this.enqueue({
+			id: createId("fake_evt"),
+			type: "subscription.payment_succeeded",
+			subscriptionId,
+			paymentId: payment.id,
+			amount: payment.amount,
+			currency: payment.currency,
+			paymentStatus: "paid",
+			customerEmail: subscription.customerEmail,
+		});
+		return payment;
+	}
+
+	// Hand over queued webhooks, signed as if they came over HTTP
+	drainWebhooks(): SignedWebhook[] {
+		const webhooks = this.outbox;
+		this.outbox = [];
+		return webhooks;
+	}
+
+	private openSession(
+		params: CheckoutParams,
+		mode: "payment" | "subscription"
+	): CheckoutSessionResult {
+		const session: FakeCheckoutSession = {
+			...params,
+			id: createId("fake_cs"),
+			mode,
+			status: "open",
+		};
+		this.sessions.set(session.id, session);
+
+		return {
+			id: session.id,
+			url: `${PAYMENT_CONFIG.apiUrl}/api/payments/fake/checkout/${session.id}`,
+		};
+	}
+
+	private capturePayment(
+		amount: number,
+		currency: string,
+		metadata: Record<string, string>
+	): PaymentDetails {
+		const payment: PaymentDetails = {
+			id: createId("fake_pi"),
+			amount,
+			amountRefunded: 0,
+			currency,
+			status: "succeeded",
+			createdAt: new Date(),
+			metadata,
+		};
+		this.payments.set(payment.id, payment);
+		return payment;
+	}
+
+	private getOpenSession(sessionId: string): FakeCheckoutSession {
+		const session = this.sessions.get(sessionId);
+		if (!session || session.status !== "open") {
+			throw new Error(`Checkout session ${sessionId} is not open`);
+		}
+		return session;
+	}
+
+	private getActiveSubscription(subscriptionId: string): FakeSubscription {
+		const subscription = this.subscriptions.get(subscriptionId);
+		if (!subscription || subscription.status === "canceled") {
+			throw new Error(`No active subscription ${subscriptionId}`);
+		}
+		return subscription;
+	}
+
+	private enqueue(event: PaymentWebhookEvent) {
+		const rawBody = JSON.stringify(event);
+		this.outbox.push({
+			rawBody,
+			headers: { [FAKE_SIGNATURE_HEADER]: sign(rawBody) },
+		});
+	}
+}
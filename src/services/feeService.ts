@@ -0,0 +1,52 @@
+import { PAYMENT_CONFIG } from "../config/payment.config";
+import { IDonationFees } from "../models/donation.model";
+import { convertToBase, roundMoney } from "./currencyService";
+
+const getRates = () => ({
+	platform: PAYMENT_CONFIG.fees.platformPercent / 100,
+	processing: PAYMENT_CONFIG.fees.processingPercent / 100,
+	fixed: PAYMENT_CONFIG.fees.processingFixed,
+});
+
+/**
+ * Split a charged amount into fees and the organization's net. Fees never
+ * exceed the charge.
+ */
+export const calculateFees = (
+	amount: number,
+	currency: string,
+	coveredByDonor = false
+): IDonationFees => {
+	const rates = getRates();
+	const { baseAmount: grossAmount } = convertToBase(amount, currency);
+
+	const platformFee = roundMoney(grossAmount * rates.platform);
+	const processingFee = roundMoney(
+		Math.min(
+			grossAmount * rates.processing + rates.fixed,
+			grossAmount - platformFee
+		)
+	);
+
+	return {
+		grossAmount,
+		processingFee,
+		platformFee,
+		netAmount: roundMoney(grossAmount - processingFee - platformFee),
+		coveredByDonor,
+	};
+};
+
+/**
+ * The amount to charge, in the donor's currency, so that the organization
+ * nets the gift after fees
+ */
+export const grossUpForFees = (gift: number, currency: string): number => {
+	const rates = getRates();
+	const { baseAmount, fxRate } = convertToBase(gift, currency);
+	const grossBase =
+		(baseAmount + rates.fixed) / (1 - rates.platform - rates.processing);
+
+	// Round up so the net is never short of the gift
+	return Math.ceil((grossBase / fxRate) * 100 - 1e-6) / 100;
+};
@@ -0,0 +1,132 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import Campaign from "../models/campaign.model";
+import Donation from "../models/donation.model";
+import DonorProfile from "../models/donor.model";
+import FundraisingPage, {
+	IFundraisingPage,
+} from "../models/fundraisingPage.model";
+import { DonationStatus } from "../types";
+import { AppError } from "../utils/appError";
+import { getLedgerBalances } from "./ledgerService";
+import { toPublicName } from "./supporterFeedService";
+
+export interface FundraisingPageStats {
+	raisedAmount: number; // Donor gifts through the page, net of refunds
+	supporterCount: number;
+}
+
+export interface LeaderboardEntry extends FundraisingPageStats {
+	rank: number;
+	pageId: string;
+	slug: string;
+	title: string;
+	fundraiserName: string;
+	targetAmount: number;
+	status: IFundraisingPage["status"];
+}
+
+const SUPPORTER_STATUSES = [
+	DonationStatus.APPROVED,
+	DonationStatus.RECEIVED,
+	DonationStatus.CONFIRMED,
+	DonationStatus.PARTIALLY_REFUNDED,
+];
+
+// URL-friendly title with a short random suffix, e.g. "my-birthday-3f9a1c"
+export const createPageSlug = (title: string): string => {
+	const base = title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "")
+		.slice(0, 50);
+	return `${base || "fundraiser"}-${crypto.randomBytes(3).toString("hex")}`;
+};
+
+// Raised amount and distinct supporters for many pages at once
+export const getPageStats = async (
+	pageIds: mongoose.Types.ObjectId[]
+): Promise<Map<string, FundraisingPageStats>> => {
+	const [balances, supporters] = await Promise.all([
+		getLedgerBalances("fundraisingPage", pageIds),
+		Donation.aggregate([
+			{
+				$match: {
+					fundraisingPage: { $in: pageIds },
+					status: { $in: SUPPORTER_STATUSES },
+				},
+			},
+			{ $group: { _id: "$fundraisingPage", donors: { $addToSet: "$donor" } } },
+		]),
+	]);
+
+	const supporterCounts = new Map<string, number>(
+		supporters.map((row) => [row._id.toString(), row.donors.length])
+	);
+
+	const stats = new Map<string, FundraisingPageStats>();
+	pageIds.forEach((id) => {
+		stats.set(id.toString(), {
+			raisedAmount: balances.get(id.toString())?.raised || 0,
+			supporterCount: supporterCounts.get(id.toString()) || 0,
+		});
+	});
+	return stats;
+};
+
+// Every fundraiser for a campaign, highest raised first
+export const getCampaignLeaderboard = async (
+	campaignId: mongoose.Types.ObjectId | string
+): Promise<LeaderboardEntry[]> => {
+	const pages = await FundraisingPage.find({ campaign: campaignId });
+	if (pages.length === 0) {
+		return [];
+	}
+
+	const [stats, profiles] = await Promise.all([
+		getPageStats(pages.map((page) => page._id)),
+		DonorProfile.find({ userId: { $in: pages.map((page) => page.owner) } }),
+	]);
+	const profilesByUser = new Map(
+		profiles.map((profile) => [profile.userId.toString(), profile])
+	);
+
+	return pages
+		.map((page) => ({
+			pageId: page._id.toString(),
+			slug: page.slug,
+			title: page.title,
+			fundraiserName: toPublicName(profilesByUser.get(page.owner.toString())),
+			targetAmount: page.targetAmount,
+			status: page.status,
+			...stats.get(page._id.toString()),
+		}))
+		.sort(
+			(a, b) =>
+				b.raisedAmount - a.raisedAmount || b.supporterCount - a.supporterCount
+		)
+		.map((entry, index) => ({ rank: index + 1, ...entry }));
+};
+
+// Page a checkout is attributed to; it must still be taking donations
+export const getDonatablePage = async (
+	pageId: string
+): Promise<IFundraisingPage> => {
+	if (!mongoose.Types.ObjectId.isValid(pageId)) {
+		throw new AppError("Invalid fundraising page ID", 400);
+	}
+
+	const page = await FundraisingPage.findById(pageId);
+	if (!page) {
+		throw new AppError("Fundraising page not found", 404);
+	}
+	if (page.status !== "active") {
+		throw new AppError("This fundraiser is no longer taking donations", 400);
+	}
+
+	const campaign = await Campaign.findById(page.campaign).select("status");
+	if (campaign?.status !== "active") {
+		throw new AppError("The campaign for this fundraiser is not active", 400);
+	}
+	return page;
+};
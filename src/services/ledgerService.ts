@@ -0,0 +1,473 @@
+import mongoose from "mongoose";
+import LedgerEntry, {
+	ILedgerEntry,
+	LedgerEntryType,
+} from "../models/ledgerEntry.model";
+import Campaign from "../models/campaign.model";
+import Donation, { IDonation } from "../models/donation.model";
+import MatchedContribution, {
+	IMatchedContribution,
+} from "../models/matchedContribution.model";
+import { DonationStatus, DonationType } from "../types";
+import { IAllocationShare } from "../types/campaign";
+import { AppError } from "../utils/appError";
+import { withLock } from "./lockService";
+import { getBaseCurrency, roundMoney } from "./currencyService";
+
+export interface LedgerBalance {
+	currency: string;
+	donations: number;
+	refunds: number; // Negative
+	matches: number;
+	fees: number; // Negative
+	payouts: number; // Negative
+	donorRaised: number; // Donations net of refunds
+	raised: number; // Donor gifts plus sponsor matches
+	available: number; // Raised, less fees and payouts already made
+}
+
+export type LedgerScope =
+	| "cause"
+	| "campaign"
+	| "organization"
+	| "fundraisingPage";
+
+const getRefId = (ref: any): mongoose.Types.ObjectId | undefined =>
+	ref ? new mongoose.Types.ObjectId((ref._id || ref).toString()) : undefined;
+
+const emptyBalance = (): LedgerBalance => ({
+	currency: getBaseCurrency(),
+	donations: 0,
+	refunds: 0,
+	matches: 0,
+	fees: 0,
+	payouts: 0,
+	donorRaised: 0,
+	raised: 0,
+	available: 0,
+});
+
+// Fold per-type totals into a balance
+const toBalance = (totals: { type: LedgerEntryType; total: number }[]) => {
+	const balance = emptyBalance();
+	totals.forEach(({ type, total }) => {
+		if (type === LedgerEntryType.DONATION) balance.donations += total;
+		if (type === LedgerEntryType.REFUND) balance.refunds += total;
+		if (type === LedgerEntryType.MATCH) balance.matches += total;
+		if (type === LedgerEntryType.FEE) balance.fees += total;
+		if (type === LedgerEntryType.PAYOUT) balance.payouts += total;
+	});
+
+	balance.donations = roundMoney(balance.donations);
+	balance.refunds = roundMoney(balance.refunds);
+	balance.matches = roundMoney(balance.matches);
+	balance.fees = roundMoney(balance.fees);
+	balance.payouts = roundMoney(balance.payouts);
+	balance.donorRaised = roundMoney(balance.donations + balance.refunds);
+	balance.raised = roundMoney(balance.donorRaised + balance.matches);
+	balance.available = roundMoney(
+		balance.raised + balance.fees + balance.payouts
+	);
+	return balance;
+};
+
+type NewEntry = Partial<ILedgerEntry> & {
+	entryKey: string;
+	type: LedgerEntryType;
+	amount: number;
+};
+
+// Append an entry; recording the same entryKey twice is a no-op
+const appendEntry = async (entry: NewEntry): Promise<ILedgerEntry | null> => {
+	if (!entry.amount) {
+		return null;
+	}
+
+	try {
+		return await LedgerEntry.create({
+			...entry,
+			amount: roundMoney(entry.amount),
+			currency: getBaseCurrency(),
+		});
+	} catch (error: any) {
+		if (error?.code === 11000) {
+			return null;
+		}
+		throw error;
+	}
+};
+
+/**
+ * Append an entry, then move each co-host's share of it from the recording
+ * organization to theirs. Transfers keep the entry's type and cause, campaign
+ * and page refs, so those balances are unchanged and only the organization
+ * split moves.
+ */
+const appendAllocatedEntry = async (
+	entry: NewEntry,
+	allocation: IAllocationShare[] = []
+): Promise<void> => {
+	await appendEntry(entry);
+
+	const source = entry.organization?.toString();
+	for (const share of allocation) {
+		const target = share.organization.toString();
+		if (!source || target === source) {
+			continue;
+		}
+		const amount = roundMoney((entry.amount * share.percent) / 100);
+		const transfer = {
+			...entry,
+			allocationOf: entry.entryKey,
+			description: `Co-host share (${share.percent}%)`,
+		};
+		await appendEntry({
+			...transfer,
+			entryKey: `${entry.entryKey}:alloc:${target}:out`,
+			amount: -amount,
+		});
+		await appendEntry({
+			...transfer,
+			entryKey: `${entry.entryKey}:alloc:${target}:in`,
+			organization: share.organization,
+			amount,
+		});
+	}
+};
+
+const getDonationRefs = (
+	donation: Pick<
+		IDonation,
+		"_id" | "organization" | "cause" | "campaign" | "fundraisingPage"
+	>
+) => ({
+	organization: getRefId(donation.organization),
+	cause: getRefId(donation.cause),
+	campaign: getRefId(donation.campaign),
+	fundraisingPage: getRefId(donation.fundraisingPage),
+	donation: donation._id,
+});
+
+// Credit a settled monetary donation and withhold its fees, split between
+// campaign co-hosts by the donation's allocation
+export const recordDonationEntries = async (
+	donation: Pick<
+		IDonation,
+		| "_id"
+		| "organization"
+		| "cause"
+		| "campaign"
+		| "fundraisingPage"
+		| "allocation"
+		| "amount"
+		| "fees"
+	>
+): Promise<void> => {
+	const refs = getDonationRefs(donation);
+	const id = donation._id.toString();
+
+	await appendAllocatedEntry(
+		{
+			...refs,
+			entryKey: `donation:${id}`,
+			type: LedgerEntryType.DONATION,
+			amount: donation.amount || 0,
+		},
+		donation.allocation
+	);
+
+	const fees = donation.fees;
+	if (fees?.grossAmount !== undefined) {
+		await appendAllocatedEntry(
+			{
+				...refs,
+				entryKey: `fee:${id}`,
+				type: LedgerEntryType.FEE,
+				amount: -((fees.processingFee || 0) + (fees.platformFee || 0)),
+				description: `Processing ${fees.processingFee}, platform ${fees.platformFee}`,
+			},
+			donation.allocation
+		);
+	}
+};
+
+// Debit money returned to a donor. totalRefunded is the donation's cumulative
+// refund after this one, which keys the entry against redelivered events.
+export const recordRefundEntry = async (
+	donation: Pick<
+		IDonation,
+		| "_id"
+		| "organization"
+		| "cause"
+		| "campaign"
+		| "fundraisingPage"
+		| "allocation"
+	>,
+	amount: number,
+	totalRefunded: number,
+	reference?: string
+): Promise<void> => {
+	await appendAllocatedEntry(
+		{
+			...getDonationRefs(donation),
+			entryKey: `refund:${donation._id}:${roundMoney(totalRefunded)}`,
+			type: LedgerEntryType.REFUND,
+			amount: -amount,
+			reference,
+		},
+		donation.allocation
+	);
+};
+
+// Sponsor matches follow the co-host split of the gift they match
+const getMatchAllocation = async (
+	contribution: IMatchedContribution
+): Promise<IAllocationShare[] | undefined> =>
+	(await Donation.findById(contribution.donation).select("allocation"))
+		?.allocation;
+
+export const recordMatchEntry = async (
+	contribution: IMatchedContribution
+): Promise<void> => {
+	await appendAllocatedEntry(
+		{
+			entryKey: `match:${contribution._id}`,
+			type: LedgerEntryType.MATCH,
+			amount: contribution.amount,
+			organization: contribution.organization,
+			cause: contribution.cause,
+			campaign: contribution.campaign,
+			donation: contribution.donation,
+			matchedContribution: contribution._id,
+			description: `Matched by ${contribution.sponsorName}`,
+		},
+		await getMatchAllocation(contribution)
+	);
+};
+
+// Debit part of a sponsor match released back to its pool
+export const recordMatchReversalEntry = async (
+	contribution: IMatchedContribution,
+	release: number
+): Promise<void> => {
+	await appendAllocatedEntry(
+		{
+			entryKey: `match-reversal:${contribution._id}:${roundMoney(contribution.reversedAmount)}`,
+			type: LedgerEntryType.MATCH,
+			amount: -release,
+			organization: contribution.organization,
+			cause: contribution.cause,
+			campaign: contribution.campaign,
+			donation: contribution.donation,
+			matchedContribution: contribution._id,
+			description: `Match by ${contribution.sponsorName} reduced after refund`,
+		},
+		await getMatchAllocation(contribution)
+	);
+};
+
+export const getLedgerBalance = async (
+	scope: LedgerScope,
+	id: string | mongoose.Types.ObjectId
+): Promise<LedgerBalance> =>
+	(await getLedgerBalances(scope, [id])).get(id.toString()) || emptyBalance();
+
+type TypeTotals = { type: LedgerEntryType; total: number }[];
+
+// Per-type totals for each owner in one scope
+const getTypeTotals = async (
+	scope: LedgerScope,
+	ids: (string | mongoose.Types.ObjectId)[],
+	filter: Record<string, any>
+): Promise<Map<string, TypeTotals>> => {
+	const totals = await LedgerEntry.aggregate([
+		{
+			$match: {
+				...filter,
+				[scope]: {
+					$in: ids.map((id) => new mongoose.Types.ObjectId(id.toString())),
+				},
+			},
+		},
+		{
+			$group: {
+				_id: { owner: `$${scope}`, type: "$type" },
+				total: { $sum: "$amount" },
+			},
+		},
+	]);
+
+	const grouped = new Map<string, TypeTotals>();
+	totals.forEach((row) => {
+		const key = row._id.owner.toString();
+		grouped.set(key, [
+			...(grouped.get(key) || []),
+			{ type: row._id.type, total: row.total },
+		]);
+	});
+	return grouped;
+};
+
+// A campaign's balance is the sum of its causes' entries, the same causes
+// its item and supporter totals cover, so gifts made straight to one of
+// those causes count toward the campaign too
+const getCampaignTypeTotals = async (
+	ids: (string | mongoose.Types.ObjectId)[],
+	filter: Record<string, any>
+): Promise<Map<string, TypeTotals>> => {
+	const campaigns = await Campaign.find({ _id: { $in: ids } }).select("causes");
+	const causeTotals = await getTypeTotals(
+		"cause",
+		campaigns.flatMap((campaign) => campaign.causes),
+		filter
+	);
+
+	return new Map(
+		campaigns.map((campaign) => [
+			campaign._id.toString(),
+			campaign.causes.flatMap(
+				(causeId) => causeTotals.get(causeId.toString()) || []
+			),
+		])
+	);
+};
+
+// Balances for many causes, campaigns or organizations in one query. filter
+// narrows the entries counted, e.g. to one co-host's share of campaigns.
+export const getLedgerBalances = async (
+	scope: LedgerScope,
+	ids: (string | mongoose.Types.ObjectId)[],
+	filter: Record<string, any> = {}
+): Promise<Map<string, LedgerBalance>> => {
+	const grouped =
+		scope === "campaign"
+			? await getCampaignTypeTotals(ids, filter)
+			: await getTypeTotals(scope, ids, filter);
+
+	const balances = new Map<string, LedgerBalance>();
+	ids.forEach((id) => {
+		balances.set(id.toString(), toBalance(grouped.get(id.toString()) || []));
+	});
+	return balances;
+};
+
+// Transfer funds to an organization, never more than it has available.
+// Payouts to one organization are recorded one at a time so two of them
+// cannot both pass the balance check.
+export const recordPayout = async (data: {
+	organizationId: string;
+	amount: number;
+	reference?: string;
+	description?: string;
+	recordedBy?: string;
+}): Promise<ILedgerEntry> => {
+	const amount = roundMoney(Number(data.amount));
+	if (!amount || amount <= 0) {
+		throw new AppError("Payout amount must be positive", 400);
+	}
+
+	return withLock(
+		`payout:${data.organizationId}`,
+		"Another payout to this organization is being recorded, please try again",
+		async () => {
+			const balance = await getLedgerBalance(
+				"organization",
+				data.organizationId
+			);
+			if (amount > balance.available) {
+				throw new AppError(
+					`Payout exceeds the available balance of ${balance.available.toFixed(2)}`,
+					400
+				);
+			}
+
+			const entry = await appendEntry({
+				entryKey: `payout:${data.reference || new mongoose.Types.ObjectId()}`,
+				type: LedgerEntryType.PAYOUT,
+				amount: -amount,
+				organization: new mongoose.Types.ObjectId(data.organizationId),
+				reference: data.reference,
+				description: data.description,
+				recordedBy: data.recordedBy
+					? new mongoose.Types.ObjectId(data.recordedBy)
+					: undefined,
+			});
+			if (!entry) {
+				throw new AppError(
+					"A payout with this reference was already recorded",
+					409
+				);
+			}
+			return entry;
+		}
+	);
+};
+
+const sumEntries = async (match: Record<string, any>): Promise<number> => {
+	const result = await LedgerEntry.aggregate([
+		{ $match: match },
+		{ $group: { _id: null, total: { $sum: "$amount" } } },
+	]);
+	return roundMoney(result[0]?.total || 0);
+};
+
+/**
+ * Record entries for money that settled before the ledger existed. Safe to
+ * run more than once; existing entries are left alone.
+ */
+export const backfillLedger = async (): Promise<{
+	donations: number;
+	matches: number;
+}> => {
+	const donations = await Donation.find({
+		type: DonationType.MONEY,
+		status: {
+			$in: [
+				DonationStatus.CONFIRMED,
+				DonationStatus.PARTIALLY_REFUNDED,
+				DonationStatus.REFUNDED,
+			],
+		},
+	});
+
+	for (const donation of donations) {
+		await recordDonationEntries(donation);
+
+		// Top up refunds made before the ledger, whatever was recorded since
+		const recorded = -(await sumEntries({
+			donation: donation._id,
+			type: LedgerEntryType.REFUND,
+		}));
+		const missing = roundMoney((donation.refundedAmount || 0) - recorded);
+		if (missing > 0) {
+			await appendAllocatedEntry(
+				{
+					...getDonationRefs(donation),
+					entryKey: `refund:${donation._id}:backfill:${donation.refundedAmount}`,
+					type: LedgerEntryType.REFUND,
+					amount: -missing,
+					description: "Backfilled refund",
+				},
+				donation.allocation
+			);
+		}
+	}
+
+	const contributions = await MatchedContribution.find();
+	for (const contribution of contributions) {
+		await recordMatchEntry(contribution);
+
+		const recorded = await sumEntries({
+			matchedContribution: contribution._id,
+			type: LedgerEntryType.MATCH,
+		});
+		const excess = roundMoney(
+			recorded - (contribution.amount - contribution.reversedAmount)
+		);
+		if (excess > 0) {
+			await recordMatchReversalEntry(contribution, excess);
+		}
+	}
+
+	return { donations: donations.length, matches: contributions.length };
+};
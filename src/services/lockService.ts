@@ -0,0 +1,39 @@
+import Lock from "../models/lock.model";
+import { AppError } from "../utils/appError";
+
+// Long enough for a check and a write; a holder that dies frees the lock
+// once this passes
+const DEFAULT_LOCK_MS = 30 * 1000;
+
+/**
+ * Run `task` while holding the lock on `key`. A lock is taken by moving its
+ * expiry forward only if it has expired, so exactly one caller holds it at a
+ * time; anyone else gets a 409 with `busyMessage` and can try again.
+ */
+export const withLock = async <T>(
+	key: string,
+	busyMessage: string,
+	task: () => Promise<T>,
+	lockMs: number = DEFAULT_LOCK_MS
+): Promise<T> => {
+	const lockedUntil = new Date(Date.now() + lockMs);
+	try {
+		await Lock.findOneAndUpdate(
+			{ key, lockedUntil: { $lte: new Date() } },
+			{ $set: { lockedUntil } },
+			{ upsert: true }
+		);
+	} catch (error: any) {
+		// The lock exists and has not expired, so the upsert hit the key index
+		if (error?.code === 11000) {
+			throw new AppError(busyMessage, 409);
+		}
+		throw error;
+	}
+
+	try {
+		return await task();
+	} finally {
+		await Lock.deleteOne({ key, lockedUntil });
+	}
+};
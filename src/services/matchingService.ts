@@ -0,0 +1,262 @@
+import mongoose from "mongoose";
+import Campaign from "../models/campaign.model";
+import MatchedContribution, {
+	IMatchedContribution,
+} from "../models/matchedContribution.model";
+import { IDonation } from "../models/donation.model";
+import { IMatchingPool } from "../types/campaign";
+import { DonationType } from "../types";
+import { recordMatchEntry, recordMatchReversalEntry } from "./ledgerService";
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const getRefId = (ref: any): string | undefined =>
+	ref ? (ref._id || ref).toString() : undefined;
+
+export const getPoolRemaining = (pool: IMatchingPool): number =>
+	roundAmount(Math.max(0, pool.cap - (pool.matchedAmount || 0)));
+
+// A pool matches a cause when it is open, not expired and either lists the
+// cause or has no cause restriction
+export const isPoolOpenForCause = (
+	pool: IMatchingPool,
+	causeId: string,
+	at: Date = new Date()
+): boolean =>
+	pool.status === "active" &&
+	new Date(pool.expiresAt) > at &&
+	getPoolRemaining(pool) > 0 &&
+	((pool.eligibleCauses || []).length === 0 ||
+		pool.eligibleCauses.some((cause) => cause.toString() === causeId));
+
+// What sponsors match: the donor's gift, not the fees they chose to cover
+// on top of it
+const getMatchableAmount = (
+	donation: Pick<IDonation, "amount" | "fees">
+): number =>
+	donation.fees?.coveredByDonor
+		? donation.fees.netAmount
+		: donation.amount || 0;
+
+// Turn a draw on a pool into a contribution and its ledger entry. Both steps
+// are idempotent, so a draw left half-recorded is finished by the next call.
+const recordDraw = async (
+	campaignId: mongoose.Types.ObjectId,
+	pool: IMatchingPool,
+	donation: Pick<IDonation, "_id" | "organization">,
+	causeId: string,
+	amount: number
+): Promise<IMatchedContribution> => {
+	const existing = { pool: pool._id, donation: donation._id };
+	let contribution = await MatchedContribution.findOne(existing);
+	if (!contribution) {
+		try {
+			contribution = await MatchedContribution.create({
+				...existing,
+				campaign: campaignId,
+				cause: causeId,
+				organization: getRefId(donation.organization),
+				sponsorName: pool.sponsorName,
+				ratio: pool.ratio,
+				amount,
+			});
+		} catch (error: any) {
+			// A concurrent delivery recorded it first
+			if (error?.code !== 11000) {
+				throw error;
+			}
+			contribution = await MatchedContribution.findOne(existing);
+		}
+	}
+
+	await recordMatchEntry(contribution!);
+	return contribution!;
+};
+
+// The pool this donation already drew on, if any, whatever state its
+// campaign is in now
+const findDonationDraw = async (donationId: mongoose.Types.ObjectId) => {
+	const campaign = await Campaign.findOne({
+		"matchingPools.draws.donation": donationId,
+	}).select("matchingPools");
+	for (const pool of campaign?.matchingPools || []) {
+		const draw = (pool.draws || []).find((candidate) =>
+			candidate.donation.equals(donationId)
+		);
+		if (draw) {
+			return { campaignId: campaign!._id, pool, amount: draw.amount };
+		}
+	}
+	return null;
+};
+
+/**
+ * Record the sponsor match for a confirmed monetary donation. A donation is
+ * matched by one pool only: the open pool that expires first. Pools do not
+ * stack. Safe to call more than once for the same donation.
+ */
+export const applyDonationMatches = async (
+	donation: Pick<
+		IDonation,
+		"_id" | "type" | "amount" | "fees" | "cause" | "campaign" | "organization"
+	>
+): Promise<IMatchedContribution[]> => {
+	const matchable = getMatchableAmount(donation);
+	if (donation.type !== DonationType.MONEY || !(matchable > 0)) {
+		return [];
+	}
+
+	const causeId = getRefId(donation.cause);
+	if (!causeId) {
+		return [];
+	}
+
+	// Finish a draw an earlier delivery made before it failed
+	const earlier = await findDonationDraw(donation._id);
+	if (earlier) {
+		return [
+			await recordDraw(
+				earlier.campaignId,
+				earlier.pool,
+				donation,
+				causeId,
+				earlier.amount
+			),
+		];
+	}
+
+	// A donation made through a campaign only draws on that campaign's pools
+	const campaignId = getRefId(donation.campaign);
+	const campaigns = await Campaign.find(
+		campaignId
+			? { _id: campaignId, status: "active" }
+			: { causes: causeId, status: "active" }
+	);
+
+	const pools = campaigns
+		.flatMap((campaign) =>
+			(campaign.matchingPools || [])
+				.filter((pool) => isPoolOpenForCause(pool, causeId))
+				.map((pool) => ({ campaignId: campaign._id, pool }))
+		)
+		.sort(
+			(a, b) =>
+				new Date(a.pool.expiresAt).getTime() -
+				new Date(b.pool.expiresAt).getTime()
+		);
+
+	for (const { campaignId: poolCampaignId, pool } of pools) {
+		const amount = roundAmount(
+			Math.min(matchable * pool.ratio, getPoolRemaining(pool))
+		);
+		if (amount <= 0) {
+			continue;
+		}
+
+		// Draw and record the draw in one update, and only while the pool still
+		// has room and this donation has not drawn on it, so neither concurrent
+		// nor repeated deliveries can push the pool past its cap
+		const drawn = await Campaign.updateOne(
+			{
+				_id: poolCampaignId,
+				"matchingPools.draws.donation": { $ne: donation._id },
+				matchingPools: {
+					$elemMatch: {
+						_id: pool._id,
+						status: "active",
+						matchedAmount: { $lte: roundAmount(pool.cap - amount) },
+					},
+				},
+			},
+			{
+				$inc: { "matchingPools.$.matchedAmount": amount },
+				$push: {
+					"matchingPools.$.draws": { donation: donation._id, amount },
+				},
+			}
+		);
+		if (drawn.modifiedCount === 0) {
+			// Either a concurrent delivery drew for this donation, or the pool
+			// filled up and the next one is tried
+			const concurrent = await findDonationDraw(donation._id);
+			if (concurrent) {
+				return [
+					await recordDraw(
+						concurrent.campaignId,
+						concurrent.pool,
+						donation,
+						causeId,
+						concurrent.amount
+					),
+				];
+			}
+			continue;
+		}
+
+		return [await recordDraw(poolCampaignId, pool, donation, causeId, amount)];
+	}
+
+	return [];
+};
+
+/**
+ * Shrink sponsor matches after a donation is refunded so that sponsors
+ * only match what the donor actually gave. Released funds return to the pool.
+ */
+export const reverseDonationMatches = async (
+	donation: Pick<IDonation, "_id" | "amount" | "fees" | "refundedAmount">
+): Promise<void> => {
+	// Refunds come out of the whole charge, covered fees included
+	const amount = donation.amount || 0;
+	const netAmount =
+		amount > 0
+			? getMatchableAmount(donation) *
+				Math.max(0, 1 - (donation.refundedAmount || 0) / amount)
+			: 0;
+	const contributions = await MatchedContribution.find({
+		donation: donation._id,
+	});
+
+	for (const contribution of contributions) {
+		const target = roundAmount(
+			Math.min(contribution.amount, netAmount * contribution.ratio)
+		);
+		const release = roundAmount(
+			contribution.amount - contribution.reversedAmount - target
+		);
+		if (release <= 0) {
+			continue;
+		}
+
+		contribution.reversedAmount = roundAmount(
+			contribution.reversedAmount + release
+		);
+		await contribution.save();
+		await recordMatchReversalEntry(contribution, release);
+
+		await Campaign.updateOne(
+			{ _id: contribution.campaign, "matchingPools._id": contribution.pool },
+			{ $inc: { "matchingPools.$.matchedAmount": -release } }
+		);
+	}
+};
+
+// Public view of a campaign's pools; sponsor contact details stay private
+export const formatMatchingPools = (pools: IMatchingPool[] = []) =>
+	pools.map((pool) => ({
+		id: pool._id?.toString(),
+		sponsorName: pool.sponsorName,
+		ratio: pool.ratio,
+		cap: pool.cap,
+		matchedAmount: roundAmount(pool.matchedAmount || 0),
+		remainingAmount: getPoolRemaining(pool),
+		eligibleCauses: (pool.eligibleCauses || []).map((cause) =>
+			cause.toString()
+		),
+		expiresAt: new Date(pool.expiresAt).toISOString(),
+		status: pool.status,
+		isOpen:
+			pool.status === "active" &&
+			new Date(pool.expiresAt) > new Date() &&
+			getPoolRemaining(pool) > 0,
+	}));
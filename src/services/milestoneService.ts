@@ -0,0 +1,303 @@
+import { FilterQuery, UpdateQuery } from "mongoose";
+import { Server } from "socket.io";
+import Campaign from "../models/campaign.model";
+import Cause from "../models/cause.model";
+import Donation from "../models/donation.model";
+import Organization from "../models/organization.model";
+import { DonationStatus, IGoalMilestone } from "../types";
+import { ICampaign } from "../types/campaign";
+import { ICause } from "../types/cause";
+import { AppError } from "../utils/appError";
+import { getLedgerBalance } from "./ledgerService";
+import { NotificationService } from "./notificationService";
+
+// Donations whose donors count as supporters to tell about milestones
+const SUPPORTER_STATUSES = [
+	DonationStatus.APPROVED,
+	DonationStatus.RECEIVED,
+	DonationStatus.CONFIRMED,
+	DonationStatus.PARTIALLY_REFUNDED,
+];
+
+/**
+ * Validate milestone percentages from a create or update request. Milestones
+ * that already fired keep their reachedAt so they are not announced again.
+ */
+export const normalizeMilestones = (
+	percents: unknown,
+	existing: IGoalMilestone[] = []
+): IGoalMilestone[] => {
+	if (
+		!Array.isArray(percents) ||
+		percents.some(
+			(percent) => !Number.isInteger(percent) || percent < 1 || percent > 100
+		)
+	) {
+		throw new AppError(
+			"Milestones must be whole percentages between 1 and 100",
+			400
+		);
+	}
+
+	return [...new Set(percents as number[])]
+		.sort((a, b) => a - b)
+		.map((percent) => ({
+			percent,
+			reachedAt: existing.find((milestone) => milestone.percent === percent)
+				?.reachedAt,
+		}));
+};
+
+// A stretch target can only be set once the primary target is met, and must
+// be more than has already been raised. null clears it.
+export const validateStretchTarget = (
+	stretchTarget: unknown,
+	targetAmount: number,
+	raisedAmount: number
+): number | undefined => {
+	if (stretchTarget === null) {
+		return undefined;
+	}
+	if (typeof stretchTarget !== "number" || !(stretchTarget > 0)) {
+		throw new AppError("Stretch target must be a positive number", 400);
+	}
+	if (!targetAmount || raisedAmount < targetAmount) {
+		throw new AppError(
+			"A stretch target can only be set once the target is reached",
+			400
+		);
+	}
+	if (stretchTarget <= raisedAmount) {
+		throw new AppError(
+			"Stretch target must be more than the amount already raised",
+			400
+		);
+	}
+	return stretchTarget;
+};
+
+type GoalKind = "cause" | "campaign";
+
+interface GoalCrossing {
+	percent?: number;
+	isStretch: boolean;
+	raisedAmount: number;
+	targetAmount: number;
+}
+
+// Run a conditional update against the cause or campaign that owns the goal
+const updateGoal = (
+	kind: GoalKind,
+	id: string,
+	filter: FilterQuery<ICause> & FilterQuery<ICampaign>,
+	update: UpdateQuery<ICause> & UpdateQuery<ICampaign>
+) =>
+	kind === "cause"
+		? Cause.updateOne({ ...filter, _id: id }, update)
+		: Campaign.updateOne({ ...filter, _id: id }, update);
+
+/**
+ * Mark every milestone (and the stretch goal) the raised amount has passed.
+ * Each is claimed with a conditional update so concurrent donations announce
+ * it once; only the highest newly crossed one is returned.
+ */
+const claimCrossedMilestones = async (
+	kind: GoalKind,
+	id: string,
+	targetAmount: number,
+	raisedAmount: number,
+	goal: {
+		milestones: IGoalMilestone[];
+		stretchTarget?: number;
+		stretchReachedAt?: Date;
+	}
+): Promise<GoalCrossing | null> => {
+	const now = new Date();
+	let crossing: GoalCrossing | null = null;
+
+	if (targetAmount > 0) {
+		// Documents created before milestones existed only have the default set
+		// in memory; store it so the claims below have something to match
+		await updateGoal(
+			kind,
+			id,
+			{ milestones: { $exists: false } },
+			{
+				$set: {
+					milestones: (goal.milestones || []).map(({ percent }) => ({
+						percent,
+					})),
+				},
+			}
+		);
+
+		for (const milestone of goal.milestones || []) {
+			if (
+				milestone.reachedAt ||
+				raisedAmount < (targetAmount * milestone.percent) / 100
+			) {
+				continue;
+			}
+			const claimed = await updateGoal(
+				kind,
+				id,
+				{
+					milestones: {
+						$elemMatch: {
+							percent: milestone.percent,
+							reachedAt: { $exists: false },
+						},
+					},
+				},
+				{ $set: { "milestones.$.reachedAt": now } }
+			);
+			if (claimed.modifiedCount > 0) {
+				crossing = {
+					percent: milestone.percent,
+					isStretch: false,
+					raisedAmount,
+					targetAmount,
+				};
+			}
+		}
+	}
+
+	if (
+		goal.stretchTarget &&
+		!goal.stretchReachedAt &&
+		raisedAmount >= goal.stretchTarget
+	) {
+		const claimed = await updateGoal(
+			kind,
+			id,
+			{
+				stretchTarget: goal.stretchTarget,
+				stretchReachedAt: { $exists: false },
+			},
+			{ $set: { stretchReachedAt: now } }
+		);
+		if (claimed.modifiedCount > 0) {
+			crossing = {
+				isStretch: true,
+				raisedAmount,
+				targetAmount: goal.stretchTarget,
+			};
+		}
+	}
+
+	return crossing;
+};
+
+const notifyCrossing = async (
+	notificationService: NotificationService,
+	target: {
+		type: "cause" | "campaign";
+		id: string;
+		name: string;
+		organizationIds: any[];
+		causeIds: any[]; // A campaign's supporters are its causes' donors
+	},
+	crossing: GoalCrossing
+) => {
+	const [organizations, supporters] = await Promise.all([
+		Organization.find({ _id: { $in: target.organizationIds } }).select(
+			"userId"
+		),
+		Donation.distinct("donor", {
+			cause: { $in: target.causeIds },
+			status: { $in: SUPPORTER_STATUSES },
+		}),
+	]);
+
+	const recipients = new Set([
+		...organizations.map((org) => org.userId.toString()),
+		...supporters.map((donor) => donor.toString()),
+	]);
+	await notificationService.createMilestoneNotifications([...recipients], {
+		targetType: target.type,
+		targetId: target.id,
+		targetName: target.name,
+		...crossing,
+	});
+};
+
+/**
+ * Check the donation's cause, its campaign and the campaigns that include
+ * the cause against their milestones after it settles (and its sponsor
+ * matches are drawn), and tell the organizations and supporters about any
+ * goal it pushed them past. Each crossing is announced in one batch.
+ */
+export const checkDonationMilestones = async (
+	io: Server,
+	donation: { cause?: any; campaign?: any }
+): Promise<void> => {
+	const notificationService = new NotificationService(io);
+
+	const causeId = (donation.cause?._id || donation.cause)?.toString();
+	if (causeId) {
+		const cause = await Cause.findById(causeId);
+		if (cause) {
+			const { raised } = await getLedgerBalance("cause", causeId);
+			const crossing = await claimCrossedMilestones(
+				"cause",
+				causeId,
+				cause.targetAmount,
+				raised,
+				cause
+			);
+			if (crossing) {
+				await notifyCrossing(
+					notificationService,
+					{
+						type: "cause",
+						id: causeId,
+						name: cause.title,
+						organizationIds: [cause.organizationId],
+						causeIds: [cause._id],
+					},
+					crossing
+				);
+			}
+		}
+	}
+
+	// A campaign's total is the sum of its causes, so a gift made straight to
+	// a cause can also carry every active campaign that includes it past a
+	// milestone
+	const campaignId = (donation.campaign?._id || donation.campaign)?.toString();
+	const campaignFilters: Record<string, unknown>[] = [];
+	if (campaignId) {
+		campaignFilters.push({ _id: campaignId });
+	}
+	if (causeId) {
+		campaignFilters.push({ causes: causeId, status: "active" });
+	}
+	const campaigns = campaignFilters.length
+		? await Campaign.find({ $or: campaignFilters })
+		: [];
+
+	for (const campaign of campaigns) {
+		const id = campaign._id.toString();
+		const { raised } = await getLedgerBalance("campaign", id);
+		const crossing = await claimCrossedMilestones(
+			"campaign",
+			id,
+			campaign.totalTargetAmount,
+			raised,
+			campaign
+		);
+		if (crossing) {
+			await notifyCrossing(
+				notificationService,
+				{
+					type: "campaign",
+					id,
+					name: campaign.title,
+					organizationIds: campaign.organizations,
+					causeIds: campaign.causes,
+				},
+				crossing
+			);
+		}
+	}
+};
@@ -1,3 +1,4 @@
+import mongoose from "mongoose";
 import { Server } from "socket.io";
 import {
 	INotification,
@@ -43,6 +44,39 @@ export class NotificationService {
 		}
 	}
 
+	// Create the same notification for many users in one write, then emit it
+	// to each of them
+	async createAndEmitNotifications(
+		recipientIds: string[],
+		notificationData: Omit<CreateNotificationData, "recipient">
+	): Promise<INotification[]> {
+		if (recipientIds.length === 0) {
+			return [];
+		}
+
+		const notifications = await Notification.insertMany(
+			recipientIds.map((recipient) => ({
+				...notificationData,
+				recipient: new mongoose.Types.ObjectId(recipient),
+			}))
+		);
+
+		for (const notification of notifications) {
+			emitNotificationToUser(this.io, notification.recipient.toString(), {
+				id: notification._id,
+				type: notification.type,
+				title: notification.title,
+				message: notification.message,
+				data: notification.data,
+				isRead: notification.isRead,
+				createdAt: notification.createdAt,
+				recipient: notification.recipient,
+			});
+		}
+
+		return notifications;
+	}
+
 	// Create donation received notification
 	async createDonationReceivedNotification(
 		organizationId: string,
@@ -124,6 +158,74 @@ export class NotificationService {
 		});
 	}
 
+	// Create donation cancelled notification for the organization
+	async createDonationCancelledNotification(
+		organizationUserId: string,
+		cancelData: {
+			donationId: string;
+			donorName: string;
+			cause: string;
+			reason?: string;
+		}
+	): Promise<INotification> {
+		return this.createAndEmitNotification({
+			recipient: organizationUserId,
+			type: NotificationType.DONATION_CANCELLED,
+			title: "Donation Cancelled",
+			message: `${cancelData.donorName} cancelled their donation to ${cancelData.cause}${
+				cancelData.reason ? `: ${cancelData.reason}` : ""
+			}`,
+			data: {
+				donationId: cancelData.donationId,
+				donorName: cancelData.donorName,
+				cause: cancelData.cause,
+				reason: cancelData.reason,
+			},
+		});
+	}
+
+	// Create reschedule notification (proposal, counter-proposal or acceptance)
+	async createDonationRescheduleNotification(
+		recipientId: string,
+		rescheduleData: {
+			donationId: string;
+			action: "proposed" | "countered" | "accepted";
+			actorName: string;
+			scheduledDate: Date;
+			scheduledTime: string;
+			note?: string;
+		}
+	): Promise<INotification> {
+		const titles = {
+			proposed: "New Pickup Time Proposed",
+			countered: "Pickup Time Counter-Proposal",
+			accepted: "Pickup Time Confirmed",
+		};
+
+		const when = `${new Date(
+			rescheduleData.scheduledDate
+		).toDateString()} at ${rescheduleData.scheduledTime}`;
+
+		const message =
+			rescheduleData.action === "accepted"
+				? `${rescheduleData.actorName} accepted the new schedule: ${when}`
+				: `${rescheduleData.actorName} proposed a new schedule: ${when}`;
+
+		return this.createAndEmitNotification({
+			recipient: recipientId,
+			type: NotificationType.DONATION_RESCHEDULE,
+			title: titles[rescheduleData.action],
+			message,
+			data: {
+				donationId: rescheduleData.donationId,
+				action: rescheduleData.action,
+				scheduledDate: rescheduleData.scheduledDate,
+				scheduledTime: rescheduleData.scheduledTime,
+				note: rescheduleData.note,
+			},
+		});
+	}
+
 	// Create campaign notification
 	async createCampaignNotification(
 		recipientId: string,
@@ -131,18 +233,27 @@ export class NotificationService {
 			campaignId: string;
 			campaignName: string;
 			organizationName: string;
-			action: "created" | "updated";
+			action: "created" | "updated" | "started" | "completed";
 		}
 	): Promise<INotification> {
-		const type =
-			campaignData.action === "created"
-				? NotificationType.CAMPAIGN_CREATED
-				: NotificationType.CAMPAIGN_UPDATED;
-
-		const title =
-			campaignData.action === "created"
-				? "New Campaign Created"
-				: "Campaign Updated";
+		const { type, title } = {
+			created: {
+				type: NotificationType.CAMPAIGN_CREATED,
+				title: "New Campaign Created",
+			},
+			updated: {
+				type: NotificationType.CAMPAIGN_UPDATED,
+				title: "Campaign Updated",
+			},
+			started: {
+				type: NotificationType.CAMPAIGN_STARTED,
+				title: "Campaign Started",
+			},
+			completed: {
+				type: NotificationType.CAMPAIGN_COMPLETED,
+				title: "Campaign Completed",
+			},
+		}[campaignData.action];
 
 		const message = `${campaignData.organizationName} has ${campaignData.action} the campaign "${campaignData.campaignName}"`;
 
@@ -160,6 +271,67 @@ export class NotificationService {
 		});
 	}
 
+	// Tell everyone involved that a cause or campaign passed a goal milestone
+	async createMilestoneNotifications(
+		recipientIds: string[],
+		milestoneData: {
+			targetType: "cause" | "campaign";
+			targetId: string;
+			targetName: string;
+			percent?: number; // Of the primary target; absent for the stretch goal
+			isStretch: boolean;
+			raisedAmount: number;
+			targetAmount: number;
+		}
+	): Promise<INotification[]> {
+		const title = milestoneData.isStretch
+			? "Stretch Goal Reached!"
+			: milestoneData.percent >= 100
+				? "Goal Reached!"
+				: `${milestoneData.percent}% of Goal Reached`;
+
+		const message = milestoneData.isStretch
+			? `"${milestoneData.targetName}" has reached its stretch goal`
+			: milestoneData.percent >= 100
+				? `"${milestoneData.targetName}" has reached its goal`
+				: `"${milestoneData.targetName}" is ${milestoneData.percent}% of the way to its goal`;
+
+		return this.createAndEmitNotifications(recipientIds, {
+			type: NotificationType.MILESTONE_REACHED,
+			title,
+			message,
+			data: {
+				[`${milestoneData.targetType}Id`]: milestoneData.targetId,
+				...milestoneData,
+			},
+		});
+	}
+
+	// Create notification for a progress update on a campaign or cause the
+	// recipient supported
+	async createProgressUpdateNotification(
+		recipientId: string,
+		updateData: {
+			updateId: string;
+			targetType: "cause" | "campaign";
+			targetId: string;
+			targetName: string;
+			organizationName: string;
+			title: string;
+		}
+	): Promise<INotification> {
+		return this.createAndEmitNotification({
+			recipient: recipientId,
+			type: NotificationType.PROGRESS_UPDATE,
+			title: `Update: ${updateData.title}`,
+			message: `${updateData.organizationName} posted an update on "${updateData.targetName}"`,
+			data: {
+				[`${updateData.targetType}Id`]: updateData.targetId,
+				...updateData,
+			},
+		});
+	}
+
 	// Create feedback notification
 
 	// Create system notification
@@ -0,0 +1,160 @@
+import { IncomingHttpHeaders } from "http";
+import { PAYMENT_CONFIG, PaymentProviderName } from "../config/payment.config";
+import { FakePaymentProvider } from "./fakePaymentProvider";
+import { StripePaymentProvider } from "./stripePaymentProvider";
+
+// All amounts crossing this interface are in major currency units (e.g. rupees)
+
+export interface CheckoutParams {
+	amount: number;
+	currency: string;
+	productName: string;
+	successUrl: string;
+	cancelUrl: string;
+	customerEmail?: string;
+	metadata: Record<string, string>;
+}
+
+export interface SubscriptionCheckoutParams extends CheckoutParams {
+	interval: "month";
+}
+
+export interface CheckoutSessionResult {
+	id: string;
+	url: string;
+}
+
+export interface PaymentDetails {
+	id: string;
+	amount: number;
+	amountRefunded: number;
+	currency: string;
+	status: "succeeded" | "pending" | "failed" | "cancelled";
+	createdAt: Date;
+	metadata: Record<string, string>;
+}
+
+export interface RefundDetails {
+	id: string;
+	paymentId: string;
+	amount: number;
+	status: string;
+	reason?: string;
+	createdAt: Date;
+}
+
+export interface SubscriptionDetails {
+	id: string;
+	customerId?: string;
+	status: string;
+	metadata: Record<string, string>;
+}
+
+// Provider events translated into the shapes the webhook handler understands
+export type PaymentWebhookEvent =
+	| {
+			id: string;
+			type: "checkout.completed";
+			mode: "payment" | "subscription";
+			sessionId: string;
+			paymentId?: string;
+			subscriptionId?: string;
+			customerId?: string;
+			amount: number;
+			currency: string;
+			paymentStatus: string;
+			customerEmail?: string;
+			metadata: Record<string, string>;
+	  }
+	| {
+			id: string;
+			type: "subscription.payment_succeeded";
+			subscriptionId?: string;
+			paymentId?: string;
+			amount: number;
+			currency: string;
+			paymentStatus: string;
+			customerEmail?: string;
+	  }
+	| {
+			id: string;
+			type: "checkout.expired";
+			mode: "payment" | "subscription";
+			sessionId: string;
+			metadata: Record<string, string>;
+	  }
+	| {
+			id: string;
+			type: "payment.failed";
+			paymentId: string;
+			failureReason: string;
+			metadata: Record<string, string>;
+	  }
+	| {
+			id: string;
+			type: "payment.refunded";
+			paymentId?: string;
+			chargeId: string;
+			amountRefunded: number;
+			fullyRefunded: boolean;
+	  }
+	| {
+			id: string;
+			type: "subscription.cancelled";
+			subscriptionId: string;
+	  }
+	| {
+			id: string;
+			type: "ignored";
+			providerType: string;
+	  };
+
+export class PaymentWebhookError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PaymentWebhookError";
+	}
+}
+
+export interface PaymentProvider {
+	readonly name: PaymentProviderName;
+
+	createCheckoutSession(params: CheckoutParams): Promise<CheckoutSessionResult>;
+	createSubscriptionCheckoutSession(
+		params: SubscriptionCheckoutParams
+	): Promise<CheckoutSessionResult>;
+
+	// Throws PaymentWebhookError when the payload is not authentic
+	constructWebhookEvent(
+		rawBody: Buffer | string,
+		headers: IncomingHttpHeaders
+	): PaymentWebhookEvent;
+
+	getPayment(paymentId: string): Promise<PaymentDetails | null>;
+	listPayments(range: { from: Date; to: Date }): Promise<PaymentDetails[]>;
+
+	createRefund(params: {
+		paymentId: string;
+		amount: number;
+		metadata?: Record<string, string>;
+	}): Promise<RefundDetails>;
+	listRefunds(paymentId: string): Promise<RefundDetails[]>;
+
+	getSubscription(subscriptionId: string): Promise<SubscriptionDetails | null>;
+	pauseSubscription(subscriptionId: string): Promise<void>;
+	resumeSubscription(subscriptionId: string): Promise<void>;
+	cancelSubscription(subscriptionId: string): Promise<void>;
+}
+
+let provider: PaymentProvider | null = null;
+
+// The provider configured through PAYMENT_PROVIDER
+export const getPaymentProvider = (): PaymentProvider => {
+	if (!provider) {
+		provider =
+			PAYMENT_CONFIG.provider === "fake"
+				? new FakePaymentProvider()
+				: new StripePaymentProvider();
+	}
+	return provider;
+};
@@ -0,0 +1,288 @@
+import mongoose from "mongoose";
+import Donation from "../models/donation.model";
+import { IOrganization, IPickupWindow } from "../models/organization.model";
+import { DonationStatus, DonationType } from "../types";
+import { AppError } from "../utils/appError";
+import { withLock } from "./lockService";
+
+// Availability works on calendar days in UTC: item donations store
+// scheduledDate as a date-only value, which parses to UTC midnight.
+
+export interface PickupSlot {
+	startTime: string;
+	endTime: string;
+	capacity: number;
+	booked: number;
+	remaining: number;
+}
+
+// Donations that still occupy a slot
+const SLOT_HOLDING_STATUSES = [DonationStatus.PENDING, DonationStatus.APPROVED];
+
+export const timeToMinutes = (time: string): number => {
+	const [hours, minutes] = time.split(":").map(Number);
+	return hours * 60 + minutes;
+};
+
+const minutesToTime = (minutes: number): string =>
+	`${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(
+		minutes % 60
+	).padStart(2, "0")}`;
+
+const startOfUtcDay = (date: Date): Date =>
+	new Date(
+		Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+	);
+
+// When a slot starts, as a UTC instant
+const getSlotStart = (date: Date, startTime: string): Date =>
+	new Date(
+		startOfUtcDay(date).getTime() + timeToMinutes(startTime) * 60 * 1000
+	);
+
+const isSameUtcDay = (a: Date, b: Date): boolean =>
+	startOfUtcDay(a).getTime() === startOfUtcDay(b).getTime();
+
+export const hasPickupAvailability = (organization: IOrganization): boolean =>
+	(organization.pickupWindows || []).length > 0;
+
+export const isBlackoutDate = (
+	organization: IOrganization,
+	date: Date
+): boolean =>
+	(organization.blackoutDates || []).some((blackout) =>
+		isSameUtcDay(new Date(blackout.date), date)
+	);
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Windows saved without a mode serve both pickups and drop-offs
+const windowMode = (window: IPickupWindow): IPickupWindow["mode"] =>
+	window.mode || "both";
+
+const servesMode = (window: IPickupWindow, mode: "pickup" | "dropoff") =>
+	windowMode(window) === "both" || windowMode(window) === mode;
+
+const windowsForDay = (
+	organization: IOrganization,
+	date: Date,
+	isPickup: boolean
+): IPickupWindow[] =>
+	(organization.pickupWindows || []).filter(
+		(window) =>
+			window.dayOfWeek === date.getUTCDay() &&
+			servesMode(window, isPickup ? "pickup" : "dropoff")
+	);
+
+// Check a set of weekly windows for malformed or overlapping entries. Two
+// windows overlap when they share a day, a mode and some time.
+export const validatePickupWindows = (windows: IPickupWindow[]): void => {
+	windows.forEach((window) => {
+		if (
+			!TIME_PATTERN.test(String(window?.startTime)) ||
+			!TIME_PATTERN.test(String(window?.endTime))
+		) {
+			throw new AppError(
+				`Window on day ${window?.dayOfWeek} must use HH:mm times`,
+				400
+			);
+		}
+		if (timeToMinutes(window.endTime) <= timeToMinutes(window.startTime)) {
+			throw new AppError(
+				`Window on day ${window.dayOfWeek} must end after it starts`,
+				400
+			);
+		}
+	});
+
+	windows.forEach((window, index) => {
+		const overlapping = windows.find(
+			(other, otherIndex) =>
+				otherIndex !== index &&
+				other.dayOfWeek === window.dayOfWeek &&
+				(["pickup", "dropoff"] as const).some(
+					(mode) => servesMode(window, mode) && servesMode(other, mode)
+				) &&
+				timeToMinutes(other.startTime) < timeToMinutes(window.endTime) &&
+				timeToMinutes(window.startTime) < timeToMinutes(other.endTime)
+		);
+		if (overlapping) {
+			throw new AppError(`Overlapping windows on day ${window.dayOfWeek}`, 400);
+		}
+	});
+};
+
+// List every slot on a date together with how many bookings it already holds
+export const getPickupSlots = async (
+	organization: IOrganization,
+	date: Date,
+	isPickup: boolean,
+	excludeDonationId?: string
+): Promise<PickupSlot[]> => {
+	if (isBlackoutDate(organization, date)) {
+		return [];
+	}
+
+	const windows = windowsForDay(organization, date, isPickup);
+	if (windows.length === 0) {
+		return [];
+	}
+
+	const dayStart = startOfUtcDay(date);
+	const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+	const bookingMatch: any = {
+		organization: organization._id,
+		type: { $ne: DonationType.MONEY },
+		status: { $in: SLOT_HOLDING_STATUSES },
+		scheduledDate: { $gte: dayStart, $lt: dayEnd },
+	};
+	if (excludeDonationId) {
+		bookingMatch._id = {
+			$ne: new mongoose.Types.ObjectId(excludeDonationId),
+		};
+	}
+
+	// A window for one mode only holds bookings of that mode; a window for
+	// both shares its capacity between pickups and drop-offs
+	const modes = windows.some((window) => windowMode(window) === "both")
+		? [true, false]
+		: [isPickup];
+	bookingMatch.isPickup = { $in: modes };
+
+	const bookings = await Donation.aggregate([
+		{ $match: bookingMatch },
+		{
+			$group: {
+				_id: { time: "$scheduledTime", isPickup: "$isPickup" },
+				count: { $sum: 1 },
+			},
+		},
+	]);
+	const countBookings = (window: IPickupWindow, startTime: string): number =>
+		bookings
+			.filter(
+				(booking) =>
+					booking._id.time === startTime &&
+					(windowMode(window) === "both" || booking._id.isPickup === isPickup)
+			)
+			.reduce((sum, booking) => sum + booking.count, 0);
+
+	const now = new Date();
+	const slots: PickupSlot[] = [];
+	windows.forEach((window) => {
+		const end = timeToMinutes(window.endTime);
+		for (
+			let start = timeToMinutes(window.startTime);
+			start + window.slotMinutes <= end;
+			start += window.slotMinutes
+		) {
+			const startTime = minutesToTime(start);
+			if (getSlotStart(date, startTime) < now) {
+				continue;
+			}
+			const booked = countBookings(window, startTime);
+			slots.push({
+				startTime,
+				endTime: minutesToTime(start + window.slotMinutes),
+				capacity: window.capacity,
+				booked,
+				remaining: Math.max(0, window.capacity - booked),
+			});
+		}
+	});
+
+	return slots.sort((a, b) => a.startTime.localeCompare(b.startTime));
+};
+
+// Throws an AppError when the requested time is not a bookable slot.
+// Organizations without configured windows accept any future time.
+export const assertPickupSlotAvailable = async (
+	organization: IOrganization,
+	scheduledDate: Date | string,
+	scheduledTime: string,
+	isPickup: boolean,
+	excludeDonationId?: string
+): Promise<void> => {
+	const date = new Date(scheduledDate);
+	if (!hasPickupAvailability(organization)) {
+		if (
+			!isNaN(date.getTime()) &&
+			TIME_PATTERN.test(String(scheduledTime)) &&
+			getSlotStart(date, scheduledTime) < new Date()
+		) {
+			throw new AppError("This time slot has already passed", 400);
+		}
+		return;
+	}
+
+	if (isNaN(date.getTime())) {
+		throw new AppError("Invalid scheduled date", 400);
+	}
+
+	if (getSlotStart(date, scheduledTime) < new Date()) {
+		throw new AppError("This time slot has already passed", 400);
+	}
+
+	if (isBlackoutDate(organization, date)) {
+		throw new AppError(
+			"The organization is not accepting donations on this date",
+			400
+		);
+	}
+
+	const slots = await getPickupSlots(
+		organization,
+		date,
+		isPickup,
+		excludeDonationId
+	);
+	const slot = slots.find((candidate) => candidate.startTime === scheduledTime);
+
+	if (!slot) {
+		throw new AppError(
+			`${scheduledTime} is not an available ${
+				isPickup ? "pickup" : "drop-off"
+			} time on this date`,
+			400
+		);
+	}
+
+	if (slot.remaining <= 0) {
+		throw new AppError("This time slot is fully booked", 409);
+	}
+};
+
+/**
+ * Check that a slot is free and fill it with `book` (which saves the
+ * donation) while no other booking of the same slot can do the same, so a
+ * slot is never filled past its capacity.
+ */
+export const bookPickupSlot = async <T>(
+	organization: IOrganization,
+	scheduledDate: Date | string,
+	scheduledTime: string,
+	isPickup: boolean,
+	book: () => Promise<T>,
+	excludeDonationId?: string
+): Promise<T> => {
+	const date = new Date(scheduledDate);
+	const day = isNaN(date.getTime())
+		? String(scheduledDate)
+		: startOfUtcDay(date).toISOString().split("T")[0];
+
+	return withLock(
+		`pickup-slot:${organization._id}:${day}:${scheduledTime}`,
+		"This time slot is being booked by someone else, please try again",
+		async () => {
+			await assertPickupSlotAvailable(
+				organization,
+				date,
+				scheduledTime,
+				isPickup,
+				excludeDonationId
+			);
+			return book();
+		}
+	);
+};
@@ -0,0 +1,175 @@
+import mongoose from "mongoose";
+import Donation from "../models/donation.model";
+import DonorProfile from "../models/donor.model";
+import { DonationStatus, DonationType } from "../types";
+
+export interface PickupRunStop {
+	sequence: number;
+	donationId: string;
+	status: DonationStatus;
+	scheduledTime: string;
+	type: DonationType;
+	description: string;
+	quantity?: number;
+	unit?: string;
+	donorName: string;
+	contactPhone?: string;
+	contactEmail?: string;
+	address: {
+		street: string;
+		city: string;
+		state: string;
+		zipCode: string;
+		country: string;
+	};
+	cause?: string;
+	notes?: string;
+}
+
+export interface PickupRunGroup {
+	city: string;
+	zipCode: string;
+	stops: PickupRunStop[];
+}
+
+export interface PickupRunDay {
+	date: string; // YYYY-MM-DD
+	totalStops: number;
+	groups: PickupRunGroup[];
+}
+
+export interface PickupRunSheet {
+	organizationId: string;
+	organizationName: string;
+	from: string;
+	to: string;
+	totalStops: number;
+	days: PickupRunDay[];
+}
+
+interface PickupRunOptions {
+	from: Date; // Inclusive, start of day in UTC
+	to: Date; // Inclusive, start of day in UTC
+	includePending?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date): string => date.toISOString().split("T")[0];
+
+const normalize = (value?: string): string => (value || "").trim();
+
+// Stops without a time go last; ties fall back to street so that
+// neighbouring addresses stay next to each other on the sheet
+const compareStops = (a: PickupRunStop, b: PickupRunStop): number =>
+	(a.scheduledTime || "99:99").localeCompare(b.scheduledTime || "99:99") ||
+	a.address.street.localeCompare(b.address.street);
+
+/**
+ * Build a run sheet of scheduled pickups grouped by day, then by city and zip code.
+ */
+export const buildPickupRunSheet = async (
+	organization: { _id: mongoose.Types.ObjectId; name: string },
+	{ from, to, includePending = false }: PickupRunOptions
+): Promise<PickupRunSheet> => {
+	const statuses = includePending
+		? [DonationStatus.PENDING, DonationStatus.APPROVED]
+		: [DonationStatus.APPROVED];
+
+	const donations = await Donation.find({
+		organization: organization._id,
+		type: { $ne: DonationType.MONEY },
+		isPickup: true,
+		"pickupAddress.street": { $exists: true, $ne: "" },
+		status: { $in: statuses },
+		scheduledDate: { $gte: from, $lt: new Date(to.getTime() + DAY_MS) },
+	})
+		.populate("donor", "email")
+		.populate("cause", "title")
+		.lean();
+
+	const profiles = await DonorProfile.find({
+		userId: { $in: donations.map((donation: any) => donation.donor?._id) },
+	}).lean();
+	const namesByUser = new Map<string, string>(
+		profiles.map((profile: any) => [
+			profile.userId.toString(),
+			`${profile.firstName} ${profile.lastName || ""}`.trim(),
+		])
+	);
+
+	const days = new Map<string, Map<string, PickupRunGroup>>();
+
+	donations.forEach((donation: any) => {
+		const dateKey = toDateKey(new Date(donation.scheduledDate));
+		const city = normalize(donation.pickupAddress.city);
+		const zipCode = normalize(donation.pickupAddress.zipCode);
+		const groupKey = `${city.toLowerCase()}|${zipCode}`;
+
+		if (!days.has(dateKey)) {
+			days.set(dateKey, new Map());
+		}
+		const groups = days.get(dateKey);
+		if (!groups.has(groupKey)) {
+			groups.set(groupKey, { city, zipCode, stops: [] });
+		}
+
+		const donorId = donation.donor?._id?.toString();
+		groups.get(groupKey).stops.push({
+			sequence: 0,
+			donationId: donation._id.toString(),
+			status: donation.status,
+			scheduledTime: donation.scheduledTime,
+			type: donation.type,
+			description: donation.description,
+			quantity: donation.quantity,
+			unit: donation.unit,
+			donorName:
+				(donorId && namesByUser.get(donorId)) ||
+				donation.donor?.email ||
+				"Unknown donor",
+			contactPhone: donation.contactPhone,
+			contactEmail: donation.contactEmail || donation.donor?.email,
+			address: {
+				street: normalize(donation.pickupAddress.street),
+				city,
+				state: normalize(donation.pickupAddress.state),
+				zipCode,
+				country: normalize(donation.pickupAddress.country),
+			},
+			cause: donation.cause?.title,
+			notes: donation.notes,
+		});
+	});
+
+	const runDays: PickupRunDay[] = Array.from(days.entries())
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([date, groups]) => {
+			// Visit areas in the order of their earliest stop
+			const sortedGroups = Array.from(groups.values())
+				.map((group) => ({ ...group, stops: group.stops.sort(compareStops) }))
+				.sort(
+					(a, b) =>
+						compareStops(a.stops[0], b.stops[0]) ||
+						a.zipCode.localeCompare(b.zipCode)
+				);
+
+			let sequence = 0;
+			sortedGroups.forEach((group) =>
+				group.stops.forEach((stop) => {
+					stop.sequence = ++sequence;
+				})
+			);
+
+			return { date, totalStops: sequence, groups: sortedGroups };
+		});
+
+	return {
+		organizationId: organization._id.toString(),
+		organizationName: organization.name,
+		from: toDateKey(from),
+		to: toDateKey(to),
+		totalStops: runDays.reduce((sum, day) => sum + day.totalStops, 0),
+		days: runDays,
+	};
+};
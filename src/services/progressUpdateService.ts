@@ -0,0 +1,91 @@
+import { Server } from "socket.io";
+import Campaign from "../models/campaign.model";
+import Donation from "../models/donation.model";
+import DonorProfile from "../models/donor.model";
+import { IProgressUpdate } from "../models/progressUpdate.model";
+import User from "../models/user.model";
+import { DonationStatus } from "../types";
+import { sendProgressUpdateEmail } from "../utils/email";
+import { NotificationService } from "./notificationService";
+
+// Donations that never went through don't make someone a supporter
+const NON_DONOR_STATUSES = [
+	DonationStatus.PENDING,
+	DonationStatus.FAILED,
+	DonationStatus.CANCELLED,
+];
+
+/**
+ * Tell everyone who gave to the update's campaign or cause about it, in app
+ * and by email. One failed delivery does not stop the rest; returns how many
+ * supporters were reached.
+ */
+export const notifyUpdateSupporters = async (
+	io: Server,
+	update: IProgressUpdate,
+	target: { name: string; organizationName: string }
+): Promise<number> => {
+	const targetType = update.campaign ? "campaign" : "cause";
+	const targetId = (update.campaign || update.cause).toString();
+
+	// Campaign supporters are donors to any of its causes, the same set its
+	// totals are built from
+	const causeIds = update.campaign
+		? (await Campaign.findById(update.campaign).select("causes"))?.causes || []
+		: [update.cause];
+	const donorIds = await Donation.distinct("donor", {
+		cause: { $in: causeIds },
+		status: { $nin: NON_DONOR_STATUSES },
+	});
+	if (donorIds.length === 0) {
+		return 0;
+	}
+
+	const [users, profiles] = await Promise.all([
+		User.find({ _id: { $in: donorIds } }).select("email"),
+		DonorProfile.find({ userId: { $in: donorIds } }).select("userId firstName"),
+	]);
+
+	const notificationService = new NotificationService(io);
+	let notified = 0;
+	for (const user of users) {
+		const recipient = user._id.toString();
+		try {
+			await notificationService.createProgressUpdateNotification(recipient, {
+				updateId: update._id.toString(),
+				targetType,
+				targetId,
+				targetName: target.name,
+				organizationName: target.organizationName,
+				title: update.title,
+			});
+			notified += 1;
+		} catch (error) {
+			console.error(
+				` Failed to notify ${recipient} of update ${update._id}:`,
+				error
+			);
+		}
+
+		if (!user.email) {
+			continue;
+		}
+		try {
+			await sendProgressUpdateEmail({
+				to: user.email,
+				updateId: update._id.toString(),
+				recipientName: profiles.find(
+					(profile) => profile.userId.toString() === recipient
+				)?.firstName,
+				organizationName: target.organizationName,
+				targetName: target.name,
+				title: update.title,
+				body: update.body,
+				images: update.images,
+			});
+		} catch (error) {
+			// Already logged by the mailer; the in-app notification still went out
+		}
+	}
+	return notified;
+};
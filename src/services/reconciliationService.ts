@@ -0,0 +1,195 @@
+import mongoose from "mongoose";
+import Donation, { IDonation } from "../models/donation.model";
+import ReconciliationReport, {
+	IReconciliationIssue,
+	IReconciliationReport,
+	ReconciliationIssueType,
+} from "../models/reconciliationReport.model";
+import { DonationStatus, DonationType } from "../types";
+import { PaymentDetails, getPaymentProvider } from "./paymentProvider";
+import { convertFromBase, getBaseCurrency } from "./currencyService";
+
+// Provider and stored amounts are rounded to cents independently
+const AMOUNT_TOLERANCE = 0.01;
+
+const amountsDiffer = (a: number, b: number): boolean =>
+	Math.abs(a - b) > AMOUNT_TOLERANCE;
+
+// Amount and currency of a donation as the donor paid it
+const getPaidAmount = (donation: IDonation) => ({
+	amount: donation.originalAmount ?? donation.amount ?? 0,
+	currency: (donation.currency || getBaseCurrency()).toUpperCase(),
+});
+
+// Compare one captured provider payment with the donations recorded for it
+const checkPayment = (
+	payment: PaymentDetails,
+	donations: IDonation[]
+): IReconciliationIssue | null => {
+	const donationIds = donations.map((donation) => donation._id);
+	const currency = payment.currency.toUpperCase();
+
+	if (donations.length === 0) {
+		return {
+			type: ReconciliationIssueType.MISSING_DONATION,
+			paymentId: payment.id,
+			donationIds,
+			providerAmount: payment.amount,
+			currency,
+			note: payment.metadata?.donorId
+				? `No donation recorded for donor ${payment.metadata.donorId}`
+				: "No donation recorded",
+		};
+	}
+
+	if (donations.length > 1) {
+		return {
+			type: ReconciliationIssueType.DUPLICATE_DONATION,
+			paymentId: payment.id,
+			donationIds,
+			providerAmount: payment.amount,
+			currency,
+			note: `${donations.length} donations recorded for one payment`,
+		};
+	}
+
+	const [donation] = donations;
+	const paid = getPaidAmount(donation);
+
+	if (
+		paid.currency !== currency ||
+		amountsDiffer(paid.amount, payment.amount)
+	) {
+		return {
+			type: ReconciliationIssueType.AMOUNT_MISMATCH,
+			paymentId: payment.id,
+			donationIds,
+			providerAmount: payment.amount,
+			recordedAmount: paid.amount,
+			currency,
+			note:
+				paid.currency !== currency
+					? `Donation recorded in ${paid.currency}`
+					: undefined,
+		};
+	}
+
+	const recordedRefund = convertFromBase(
+		donation.refundedAmount || 0,
+		donation.fxRate
+	);
+	if (amountsDiffer(recordedRefund, payment.amountRefunded)) {
+		return {
+			type: ReconciliationIssueType.REFUND_MISMATCH,
+			paymentId: payment.id,
+			donationIds,
+			providerAmount: payment.amountRefunded,
+			recordedAmount: recordedRefund,
+			currency,
+		};
+	}
+
+	return null;
+};
+
+/**
+ * Compare monetary donations with the payments the provider captured in a
+ * date range and store the discrepancies as a report.
+ */
+export const reconcilePayments = async (params: {
+	from: Date;
+	to: Date;
+	trigger?: "manual" | "scheduled";
+	requestedBy?: string;
+}): Promise<IReconciliationReport> => {
+	const provider = getPaymentProvider();
+
+	const payments = (
+		await provider.listPayments({ from: params.from, to: params.to })
+	).filter((payment) => payment.status === "succeeded");
+	const paymentIds = payments.map((payment) => payment.id);
+
+	// Donations for those payments, wherever they fall in time, plus any
+	// donation in the range that claims a provider payment
+	const donations = await Donation.find({
+		type: DonationType.MONEY,
+		$or: [
+			{ paymentIntentId: { $in: paymentIds } },
+			{
+				paymentIntentId: { $exists: true, $nin: [null, ""] },
+				// Declined or abandoned checkouts never captured a payment
+				status: {
+					$nin: [
+						DonationStatus.PENDING,
+						DonationStatus.FAILED,
+						DonationStatus.CANCELLED,
+					],
+				},
+				createdAt: { $gte: params.from, $lte: params.to },
+			},
+		],
+	});
+
+	const donationsByPayment = new Map<string, IDonation[]>();
+	donations.forEach((donation) => {
+		const list = donationsByPayment.get(donation.paymentIntentId!) || [];
+		list.push(donation);
+		donationsByPayment.set(donation.paymentIntentId!, list);
+	});
+
+	const issues: IReconciliationIssue[] = [];
+	let matchedCount = 0;
+
+	payments.forEach((payment) => {
+		const issue = checkPayment(
+			payment,
+			donationsByPayment.get(payment.id) || []
+		);
+		if (issue) {
+			issues.push(issue);
+		} else {
+			matchedCount++;
+		}
+		donationsByPayment.delete(payment.id);
+	});
+
+	// Remaining donations reference payments outside the listed captures
+	for (const [paymentId, paymentDonations] of donationsByPayment) {
+		const payment = await provider.getPayment(paymentId);
+		if (payment && payment.status === "succeeded") {
+			// Captured just outside the range; check it all the same
+			const issue = checkPayment(payment, paymentDonations);
+			if (issue) {
+				issues.push(issue);
+			} else {
+				matchedCount++;
+			}
+			continue;
+		}
+
+		issues.push({
+			type: ReconciliationIssueType.UNKNOWN_PAYMENT,
+			paymentId,
+			donationIds: paymentDonations.map((donation) => donation._id),
+			recordedAmount: getPaidAmount(paymentDonations[0]).amount,
+			currency: getPaidAmount(paymentDonations[0]).currency,
+			note: payment
+				? `Provider reports the payment as ${payment.status}`
+				: "Provider has no record of this payment",
+		});
+	}
+
+	return ReconciliationReport.create({
+		provider: provider.name,
+		from: params.from,
+		to: params.to,
+		trigger: params.trigger || "manual",
+		requestedBy: params.requestedBy
+			? new mongoose.Types.ObjectId(params.requestedBy)
+			: undefined,
+		paymentsChecked: payments.length,
+		donationsChecked: donations.length,
+		matchedCount,
+		issues,
+	});
+};
@@ -0,0 +1,309 @@
+import { IncomingHttpHeaders } from "http";
+import Stripe from "stripe";
+import { getStripeClient } from "../config/stripe";
+import {
+	CheckoutParams,
+	CheckoutSessionResult,
+	PaymentDetails,
+	PaymentProvider,
+	PaymentWebhookError,
+	PaymentWebhookEvent,
+	RefundDetails,
+	SubscriptionCheckoutParams,
+	SubscriptionDetails,
+} from "./paymentProvider";
+
+// Stripe works in the smallest currency unit (paise, cents, pence)
+const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+const toMajorUnits = (amount: number): number => amount / 100;
+
+const getId = (value: string | { id: string } | null | undefined) =>
+	typeof value === "string" ? value : value?.id;
+
+const toPaymentDetails = (intent: Stripe.PaymentIntent): PaymentDetails => {
+	const charge =
+		typeof intent.latest_charge === "object" ? intent.latest_charge : null;
+
+	let status: PaymentDetails["status"] = "pending";
+	if (intent.status === "succeeded") {
+		status = "succeeded";
+	} else if (intent.status === "canceled") {
+		status = "cancelled";
+	} else if (intent.last_payment_error) {
+		status = "failed";
+	}
+
+	return {
+		id: intent.id,
+		amount: toMajorUnits(intent.amount_received || intent.amount),
+		amountRefunded: toMajorUnits(charge?.amount_refunded || 0),
+		currency: intent.currency.toUpperCase(),
+		status,
+		createdAt: new Date(intent.created * 1000),
+		metadata: intent.metadata || {},
+	};
+};
+
+const toRefundDetails = (refund: Stripe.Refund): RefundDetails => ({
+	id: refund.id,
+	paymentId: getId(refund.payment_intent),
+	amount: toMajorUnits(refund.amount),
+	status: refund.status || "pending",
+	reason: refund.reason || undefined,
+	createdAt: new Date(refund.created * 1000),
+});
+
+export class StripePaymentProvider implements PaymentProvider {
+	readonly name = "stripe" as const;
+
+	private get stripe(): Stripe {
+		return getStripeClient();
+	}
+
+	async createCheckoutSession(
+		params: CheckoutParams
+	): Promise<CheckoutSessionResult> {
+		const session = await this.stripe.checkout.sessions.create({
+			payment_method_types: ["card"],
+			mode: "payment",
+			line_items: [
+				{
+					price_data: {
+						currency: params.currency.toLowerCase(),
+						unit_amount: toMinorUnits(params.amount),
+						product_data: {
+							name: params.productName,
+						},
+					},
+					quantity: 1,
+				},
+			],
+			customer_email: params.customerEmail || undefined,
+			success_url: params.successUrl,
+			cancel_url: params.cancelUrl,
+			metadata: params.metadata,
+			payment_intent_data: { metadata: params.metadata },
+		});
+
+		return { id: session.id, url: session.url };
+	}
+
+	async createSubscriptionCheckoutSession(
+		params: SubscriptionCheckoutParams
+	): Promise<CheckoutSessionResult> {
+		const session = await this.stripe.checkout.sessions.create({
+			payment_method_types: ["card"],
+			mode: "subscription",
+			line_items: [
+				{
+					price_data: {
+						currency: params.currency.toLowerCase(),
+						unit_amount: toMinorUnits(params.amount),
+						recurring: { interval: params.interval },
+						product_data: {
+							name: params.productName,
+						},
+					},
+					quantity: 1,
+				},
+			],
+			customer_email: params.customerEmail || undefined,
+			subscription_data: { metadata: params.metadata },
+			success_url: params.successUrl,
+			cancel_url: params.cancelUrl,
+			metadata: params.metadata,
+		});
+
+		return { id: session.id, url: session.url };
+	}
+
+	constructWebhookEvent(
+		rawBody: Buffer | string,
+		headers: IncomingHttpHeaders
+	): PaymentWebhookEvent {
+		const signature = headers["stripe-signature"];
+		if (!signature) {
+			throw new PaymentWebhookError("Missing stripe-signature header");
+		}
+
+		let event: Stripe.Event;
+		try {
+			event = this.stripe.webhooks.constructEvent(
+				rawBody,
+				signature,
+				process.env.STRIPE_WEBHOOK_SECRET
+			);
+		} catch (error: any) {
+			throw new PaymentWebhookError(
+				error?.message || "Webhook signature verification failed"
+			);
+		}
+
+		switch (event.type) {
+			case "checkout.session.completed": {
+				const session = event.data.object as Stripe.Checkout.Session;
+				return {
+					id: event.id,
+					type: "checkout.completed",
+					mode: session.mode === "subscription" ? "subscription" : "payment",
+					sessionId: session.id,
+					paymentId: getId(session.payment_intent),
+					subscriptionId: getId(session.subscription),
+					customerId: getId(session.customer),
+					amount: toMajorUnits(session.amount_total ?? 0),
+					currency: session.currency?.toUpperCase(),
+					paymentStatus: session.payment_status,
+					customerEmail: session.customer_details?.email || undefined,
+					metadata: session.metadata || {},
+				};
+			}
+			case "checkout.session.expired": {
+				const session = event.data.object as Stripe.Checkout.Session;
+				return {
+					id: event.id,
+					type: "checkout.expired",
+					mode: session.mode === "subscription" ? "subscription" : "payment",
+					sessionId: session.id,
+					metadata: session.metadata || {},
+				};
+			}
+			case "payment_intent.payment_failed": {
+				const intent = event.data.object as Stripe.PaymentIntent;
+				return {
+					id: event.id,
+					type: "payment.failed",
+					paymentId: intent.id,
+					failureReason:
+						intent.last_payment_error?.message ||
+						intent.last_payment_error?.code ||
+						"Payment failed",
+					metadata: intent.metadata || {},
+				};
+			}
+			case "invoice.paid": {
+				const invoice = event.data.object as Stripe.Invoice;
+				return {
+					id: event.id,
+					type: "subscription.payment_succeeded",
+					subscriptionId: getId(invoice.subscription),
+					paymentId: getId(invoice.payment_intent),
+					amount: toMajorUnits(invoice.amount_paid),
+					currency: invoice.currency?.toUpperCase(),
+					paymentStatus: invoice.status || "paid",
+					customerEmail: invoice.customer_email || undefined,
+				};
+			}
+			case "charge.refunded": {
+				const charge = event.data.object as Stripe.Charge;
+				return {
+					id: event.id,
+					type: "payment.refunded",
+					paymentId: getId(charge.payment_intent),
+					chargeId: charge.id,
+					amountRefunded: toMajorUnits(charge.amount_refunded),
+					fullyRefunded: charge.refunded,
+				};
+			}
+			case "customer.subscription.deleted": {
+				const subscription = event.data.object as Stripe.Subscription;
+				return {
+					id: event.id,
+					type: "subscription.cancelled",
+					subscriptionId: subscription.id,
+				};
+			}
+			default:
+				return { id: event.id, type: "ignored", providerType: event.type };
+		}
+	}
+
+	async getPayment(paymentId: string): Promise<PaymentDetails | null> {
+		try {
+			const intent = await this.stripe.paymentIntents.retrieve(paymentId, {
+				expand: ["latest_charge"],
+			});
+			return toPaymentDetails(intent);
+		} catch (error: any) {
+			if (error?.code === "resource_missing") {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	async listPayments(range: {
+		from: Date;
+		to: Date;
+	}): Promise<PaymentDetails[]> {
+		const intents = await this.stripe.paymentIntents
+			.list({
+				created: {
+					gte: Math.floor(range.from.getTime() / 1000),
+					lte: Math.floor(range.to.getTime() / 1000),
+				},
+				expand: ["data.latest_charge"],
+				limit: 100,
+			})
+			.autoPagingToArray({ limit: 10000 });
+
+		return intents.map(toPaymentDetails);
+	}
+
+	async createRefund(params: {
+		paymentId: string;
+		amount: number;
+		metadata?: Record<string, string>;
+	}): Promise<RefundDetails> {
+		const refund = await this.stripe.refunds.create({
+			payment_intent: params.paymentId,
+			amount: toMinorUnits(params.amount),
+			metadata: params.metadata,
+		});
+		return toRefundDetails(refund);
+	}
+
+	async listRefunds(paymentId: string): Promise<RefundDetails[]> {
+		const refunds = await this.stripe.refunds.list({
+			payment_intent: paymentId,
+			limit: 100,
+		});
+		return refunds.data.map(toRefundDetails);
+	}
+
+	async getSubscription(
+		subscriptionId: string
+	): Promise<SubscriptionDetails | null> {
+		try {
+			const subscription =
+				await this.stripe.subscriptions.retrieve(subscriptionId);
+			return {
+				id: subscription.id,
+				customerId: getId(subscription.customer),
+				status: subscription.status,
+				metadata: subscription.metadata || {},
+			};
+		} catch (error: any) {
+			if (error?.code === "resource_missing") {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	// Stripe skips invoices while collection is paused
+	async pauseSubscription(subscriptionId: string): Promise<void> {
+		await this.stripe.subscriptions.update(subscriptionId, {
+			pause_collection: { behavior: "void" },
+		});
+	}
+
+	async resumeSubscription(subscriptionId: string): Promise<void> {
+		await this.stripe.subscriptions.update(subscriptionId, {
+			pause_collection: "",
+		});
+	}
+
+	async cancelSubscription(subscriptionId: string): Promise<void> {
+		await this.stripe.subscriptions.cancel(subscriptionId);
+	}
+}
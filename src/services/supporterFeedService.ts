@@ -0,0 +1,109 @@
+import mongoose from "mongoose";
+import Donation from "../models/donation.model";
+import { DonationStatus, DonationType } from "../types";
+
+export const ANONYMOUS_DONOR_NAME = "Anonymous Donor";
+
+export interface SupporterFeedEntry {
+	id: string;
+	displayName: string;
+	isAnonymous: boolean;
+	type: DonationType;
+	amount: number | null; // null when the donor hid it
+	quantity: number | null;
+	unit: string | null;
+	cause: { id: string; title: string } | null;
+	donatedAt: Date;
+}
+
+// Donations that count towards a cause's progress
+const SUPPORTER_STATUSES = [
+	DonationStatus.APPROVED,
+	DonationStatus.RECEIVED,
+	DonationStatus.CONFIRMED,
+	DonationStatus.PARTIALLY_REFUNDED,
+];
+
+// Show first name and last initial only, e.g. "Priya S."
+export const toPublicName = (profile: any): string => {
+	if (!profile?.firstName) {
+		return "A supporter";
+	}
+	const initial = profile.lastName ? ` ${profile.lastName.charAt(0)}.` : "";
+	return `${profile.firstName}${initial}`;
+};
+
+// Name to show the organization in notifications and donor lists
+export const getDonorNameForOrganization = (
+	donation: { isAnonymous?: boolean },
+	name: string
+): string => (donation.isAnonymous ? ANONYMOUS_DONOR_NAME : name);
+
+/**
+ * Recent supporters of one or more causes, with anonymous donors and
+ * hidden amounts masked.
+ */
+export const getRecentSupporters = async (
+	causeIds: mongoose.Types.ObjectId[],
+	{ page = 1, limit = 10 }: { page?: number; limit?: number }
+): Promise<{ supporters: SupporterFeedEntry[]; total: number }> => {
+	const match = {
+		cause: { $in: causeIds },
+		status: { $in: SUPPORTER_STATUSES },
+	};
+
+	const [donations, total] = await Promise.all([
+		Donation.aggregate([
+			{ $match: match },
+			{ $sort: { createdAt: -1 } },
+			{ $skip: (page - 1) * limit },
+			{ $limit: limit },
+			{
+				$lookup: {
+					from: "donorprofiles",
+					localField: "donor",
+					foreignField: "userId",
+					as: "donorProfile",
+				},
+			},
+			{ $unwind: { path: "$donorProfile", preserveNullAndEmptyArrays: true } },
+			{
+				$lookup: {
+					from: "causes",
+					localField: "cause",
+					foreignField: "_id",
+					as: "causeInfo",
+				},
+			},
+			{ $unwind: { path: "$causeInfo", preserveNullAndEmptyArrays: true } },
+		]),
+		Donation.countDocuments(match),
+	]);
+
+	const supporters = donations.map((donation) => {
+		const isMoney = donation.type === DonationType.MONEY;
+		return {
+			id: donation._id.toString(),
+			displayName: donation.isAnonymous
+				? ANONYMOUS_DONOR_NAME
+				: toPublicName(donation.donorProfile),
+			isAnonymous: Boolean(donation.isAnonymous),
+			type: donation.type,
+			amount:
+				isMoney && !donation.hideAmount
+					? (donation.amount || 0) - (donation.refundedAmount || 0)
+					: null,
+			quantity: !isMoney && !donation.hideAmount ? donation.quantity : null,
+			unit: !isMoney ? donation.unit || null : null,
+			cause: donation.causeInfo
+				? {
+						id: donation.causeInfo._id.toString(),
+						title: donation.causeInfo.title,
+					}
+				: null,
+			donatedAt: donation.createdAt,
+		};
+	});
+
+	return { supporters, total };
+};
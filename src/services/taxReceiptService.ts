@@ -0,0 +1,253 @@
+import mongoose from "mongoose";
+import { TAX_RECEIPT_CONFIG } from "../config/taxReceipt.config";
+import Donation from "../models/donation.model";
+import DonorProfile from "../models/donor.model";
+import Organization from "../models/organization.model";
+import TaxReceipt, {
+	ITaxReceipt,
+	ITaxReceiptLine,
+} from "../models/taxReceipt.model";
+import User from "../models/user.model";
+import { DonationStatus, DonationType } from "../types";
+import { AppError } from "../utils/appError";
+import { generateConsolidatedTaxReceipt } from "../utils/pdfGenerator";
+import { getBaseCurrency, roundMoney } from "./currencyService";
+
+export interface FiscalYear {
+	label: string; // "2024-25", or "2024" for calendar fiscal years
+	start: Date;
+	end: Date; // Exclusive
+}
+
+// Donations still holding money; fully refunded gifts are not deductible
+const ELIGIBLE_STATUSES = [
+	DonationStatus.CONFIRMED,
+	DonationStatus.PARTIALLY_REFUNDED,
+];
+
+const getFiscalYearStart = (year: number): Date =>
+	new Date(
+		Date.UTC(year, TAX_RECEIPT_CONFIG.fiscalYearStartMonth - 1, 1) -
+			TAX_RECEIPT_CONFIG.utcOffsetMinutes * 60 * 1000
+	);
+
+/**
+ * Resolve a fiscal year from its label ("2024-25") or starting year ("2024").
+ * Years that have not started yet are rejected.
+ */
+export const getFiscalYear = (input: string | number): FiscalYear => {
+	const match = String(input)
+		.trim()
+		.match(/^(\d{4})(?:-(\d{2}|\d{4}))?$/);
+	if (!match) {
+		throw new AppError("Fiscal year must look like 2024 or 2024-25", 400);
+	}
+
+	const year = Number(match[1]);
+	const spansTwoYears = TAX_RECEIPT_CONFIG.fiscalYearStartMonth !== 1;
+	if (
+		match[2] &&
+		(!spansTwoYears || Number(match[2]) % 100 !== (year + 1) % 100)
+	) {
+		throw new AppError(`Invalid fiscal year ${input}`, 400);
+	}
+
+	const start = getFiscalYearStart(year);
+	if (start > new Date()) {
+		throw new AppError(`Fiscal year ${input} has not started yet`, 400);
+	}
+
+	return {
+		label: spansTwoYears
+			? `${year}-${String((year + 1) % 100).padStart(2, "0")}`
+			: String(year),
+		start,
+		end: getFiscalYearStart(year + 1),
+	};
+};
+
+// Settled monetary gifts from the donor to the organization in the period
+const getReceiptLines = async (
+	donorId: string,
+	organizationId: string,
+	fiscalYear: FiscalYear
+): Promise<ITaxReceiptLine[]> => {
+	const period = { $gte: fiscalYear.start, $lt: fiscalYear.end };
+	const donations = await Donation.find({
+		donor: donorId,
+		organization: organizationId,
+		type: DonationType.MONEY,
+		status: { $in: ELIGIBLE_STATUSES },
+		$or: [
+			{ confirmationDate: period },
+			{ confirmationDate: { $exists: false }, createdAt: period },
+		],
+	}).sort({ confirmationDate: 1, createdAt: 1 });
+
+	return donations
+		.map((donation) => ({
+			donation: donation._id,
+			date: donation.confirmationDate || donation.createdAt,
+			amount: roundMoney(
+				(donation.amount || 0) - (donation.refundedAmount || 0)
+			),
+			currency: donation.currency,
+			originalAmount: donation.originalAmount,
+			paymentReference: donation.paymentIntentId,
+		}))
+		.filter((line) => line.amount > 0);
+};
+
+const formatAddress = (parts: (string | undefined)[]): string | undefined =>
+	parts.filter(Boolean).join(", ") || undefined;
+
+// Whether a stored receipt still matches what would be issued today
+const isCurrent = (
+	receipt: ITaxReceipt,
+	details: Pick<
+		ITaxReceipt,
+		| "donorName"
+		| "donorTaxId"
+		| "donorAddress"
+		| "organizationPan"
+		| "registration80G"
+		| "totalAmount"
+	>,
+	lines: ITaxReceiptLine[]
+): boolean =>
+	Boolean(receipt.pdfUrl) &&
+	Object.entries(details).every(
+		([key, value]) => (receipt as any)[key] === value
+	) &&
+	receipt.lines.length === lines.length &&
+	receipt.lines.every(
+		(line, index) =>
+			line.donation.toString() === lines[index].donation.toString() &&
+			line.amount === lines[index].amount
+	);
+
+/**
+ * Issue the donor's consolidated receipt for one organization and fiscal
+ * year. Asking again returns the stored receipt unless a refund, late
+ * settlement or profile change altered it, in which case it is regenerated
+ * under the same receipt number.
+ */
+export const issueTaxReceipt = async (
+	donorId: string,
+	organizationId: string,
+	fiscalYearInput: string | number
+): Promise<ITaxReceipt> => {
+	if (
+		!mongoose.Types.ObjectId.isValid(donorId) ||
+		!mongoose.Types.ObjectId.isValid(organizationId)
+	) {
+		throw new AppError("Invalid donor or organization ID", 400);
+	}
+	const fiscalYear = getFiscalYear(fiscalYearInput);
+
+	const [organization, donorProfile, donorUser] = await Promise.all([
+		Organization.findById(organizationId),
+		DonorProfile.findOne({ userId: donorId }),
+		User.findById(donorId),
+	]);
+	if (!organization) {
+		throw new AppError("Organization not found", 404);
+	}
+	if (!donorUser || !donorProfile) {
+		throw new AppError("Donor profile not found", 404);
+	}
+
+	const registration = organization.taxRegistration;
+	if (!registration?.pan || !registration?.registration80G) {
+		throw new AppError(
+			"The organization has not added its PAN and 80G registration number",
+			400
+		);
+	}
+	if (!donorProfile.taxId) {
+		throw new AppError(
+			"Add a PAN or tax ID to the donor profile to get a tax receipt",
+			400
+		);
+	}
+
+	const lines = await getReceiptLines(donorId, organizationId, fiscalYear);
+	if (lines.length === 0) {
+		throw new AppError(
+			`No eligible donations to ${organization.name} in fiscal year ${fiscalYear.label}`,
+			404
+		);
+	}
+
+	const details = {
+		donorName: `${donorProfile.firstName} ${donorProfile.lastName}`,
+		donorTaxId: donorProfile.taxId,
+		donorAddress: formatAddress([
+			donorProfile.address,
+			donorProfile.city,
+			donorProfile.state,
+			donorProfile.country,
+		]),
+		organizationPan: registration.pan,
+		registration80G: registration.registration80G,
+		totalAmount: roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+	};
+
+	let receipt = await TaxReceipt.findOne({
+		donor: donorId,
+		organization: organizationId,
+		fiscalYear: fiscalYear.label,
+	});
+	if (receipt && isCurrent(receipt, details, lines)) {
+		return receipt;
+	}
+
+	if (receipt) {
+		receipt.set({ ...details, lines, revision: receipt.revision + 1 });
+	} else {
+		const _id = new mongoose.Types.ObjectId();
+		receipt = new TaxReceipt({
+			_id,
+			receiptNumber: `TR/${fiscalYear.label}/${_id.toString().slice(-8).toUpperCase()}`,
+			donor: donorId,
+			organization: organizationId,
+			fiscalYear: fiscalYear.label,
+			periodStart: fiscalYear.start,
+			periodEnd: fiscalYear.end,
+			...details,
+			lines,
+		});
+	}
+	receipt.currency = getBaseCurrency();
+	receipt.issuedAt = new Date();
+
+	receipt.pdfUrl = await generateConsolidatedTaxReceipt({
+		receiptNumber: receipt.receiptNumber,
+		revision: receipt.revision,
+		fiscalYear: fiscalYear.label,
+		periodStart: fiscalYear.start,
+		periodEnd: new Date(fiscalYear.end.getTime() - 1),
+		issuedAt: receipt.issuedAt,
+		donorName: details.donorName,
+		donorEmail: donorUser.email,
+		donorTaxId: details.donorTaxId,
+		donorAddress: details.donorAddress,
+		organizationName: organization.name,
+		organizationEmail: organization.email,
+		organizationAddress: formatAddress([
+			organization.address,
+			organization.city,
+			organization.state,
+			organization.country,
+		]),
+		organizationPan: registration.pan,
+		registration80G: registration.registration80G,
+		registration12A: registration.registration12A,
+		registrationValidUntil: registration.validUntil,
+		lines,
+		totalAmount: details.totalAmount,
+	});
+
+	await receipt.save();
+	return receipt;
+};
@@ -0,0 +1,152 @@
+import mongoose from "mongoose";
+import WebhookEvent, {
+	IWebhookEvent,
+	WebhookEventStatus,
+} from "../models/webhookEvent.model";
+import { PAYMENT_CONFIG, PaymentProviderName } from "../config/payment.config";
+import { PaymentWebhookEvent } from "./paymentProvider";
+
+// Events in these states have not been applied and may be processed again
+const RETRYABLE_STATUSES = [
+	WebhookEventStatus.RECEIVED,
+	WebhookEventStatus.FAILED,
+];
+
+// Attempts started before this are presumed dead
+const getLeaseCutoff = (): Date =>
+	new Date(
+		Date.now() - PAYMENT_CONFIG.webhookProcessingLeaseMinutes * 60 * 1000
+	);
+
+// Query for events that may be claimed: never applied, or abandoned mid-run
+const retryableQuery = () => ({
+	$or: [
+		{ status: { $in: RETRYABLE_STATUSES } },
+		{
+			status: WebhookEventStatus.PROCESSING,
+			$or: [
+				{ processingStartedAt: { $lt: getLeaseCutoff() } },
+				{ processingStartedAt: { $exists: false } },
+			],
+		},
+	],
+});
+
+export const isRetryable = (record: IWebhookEvent): boolean =>
+	RETRYABLE_STATUSES.includes(record.status) ||
+	(record.status === WebhookEventStatus.PROCESSING &&
+		(!record.processingStartedAt ||
+			record.processingStartedAt < getLeaseCutoff()));
+
+/**
+ * Persist an incoming event. A redelivered event returns the stored record,
+ * flagged as a duplicate unless it still needs processing.
+ */
+export const storeWebhookEvent = async (
+	provider: PaymentProviderName,
+	event: PaymentWebhookEvent
+): Promise<{ record: IWebhookEvent; isDuplicate: boolean }> => {
+	const existing = await WebhookEvent.findOne({ provider, eventId: event.id });
+	if (existing) {
+		return { record: existing, isDuplicate: !isRetryable(existing) };
+	}
+
+	try {
+		const record = await WebhookEvent.create({
+			provider,
+			eventId: event.id,
+			type: event.type === "ignored" ? event.providerType : event.type,
+			payload: event,
+		});
+		return { record, isDuplicate: false };
+	} catch (error: any) {
+		// Lost a race with a concurrent delivery of the same event
+		if (error?.code === 11000) {
+			const record = await WebhookEvent.findOne({
+				provider,
+				eventId: event.id,
+			});
+			if (record) {
+				return { record, isDuplicate: true };
+			}
+		}
+		throw error;
+	}
+};
+
+/**
+ * Apply a stored event with the given handler and record the outcome.
+ * The event is claimed with a conditional update that takes a processing
+ * lease, so concurrent deliveries never run it twice and an attempt that
+ * died mid-handler can be retried once its lease runs out. If another
+ * attempt holds the lease, the event is returned still PROCESSING.
+ * Never throws for handler errors; the returned record carries the failure.
+ */
+export const runWebhookEvent = async (
+	record: IWebhookEvent,
+	handler: (event: PaymentWebhookEvent) => Promise<void>,
+	replayedBy?: string
+): Promise<IWebhookEvent> => {
+	const claimed = await WebhookEvent.findOneAndUpdate(
+		{ _id: record._id, ...retryableQuery() },
+		{
+			$set: {
+				status: WebhookEventStatus.PROCESSING,
+				processingStartedAt: new Date(),
+				...(replayedBy && {
+					lastReplayedBy: new mongoose.Types.ObjectId(replayedBy),
+				}),
+			},
+			$inc: { attempts: 1 },
+		},
+		{ new: true }
+	);
+	if (!claimed) {
+		return (await WebhookEvent.findById(record._id)) || record;
+	}
+	record = claimed;
+	const event = record.payload as PaymentWebhookEvent;
+
+	try {
+		await handler(event);
+		record.status =
+			event.type === "ignored"
+				? WebhookEventStatus.IGNORED
+				: WebhookEventStatus.PROCESSED;
+		record.processedAt = new Date();
+		record.lastError = undefined;
+	} catch (error: any) {
+		console.error(` Failed to process webhook event ${record.eventId}:`, error);
+		record.status = WebhookEventStatus.FAILED;
+		record.lastError = error?.message || String(error);
+	}
+
+	await record.save();
+	return record;
+};
+
+export const listWebhookEvents = async (filters: {
+	status?: WebhookEventStatus;
+	type?: string;
+	page: number;
+	limit: number;
+}): Promise<{ events: IWebhookEvent[]; total: number }> => {
+	const query: Record<string, any> = {};
+	if (filters.status) {
+		query.status = filters.status;
+	}
+	if (filters.type) {
+		query.type = filters.type;
+	}
+
+	const [events, total] = await Promise.all([
+		WebhookEvent.find(query)
+			.sort({ receivedAt: -1 })
+			.skip((filters.page - 1) * filters.limit)
+			.limit(filters.limit)
+			.lean(),
+		WebhookEvent.countDocuments(query),
+	]);
+
+	return { events: events as IWebhookEvent[], total };
+};
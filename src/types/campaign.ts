@@ -1,5 +1,44 @@
 import mongoose, { Schema, Document } from "mongoose";
-import { DonationType } from "./index";
+import { DonationType, IGoalMilestone } from "./index";
+
+// One donation's draw on a matching pool, recorded with the draw itself so a
+// redelivered webhook can finish matching without drawing again
+export interface IMatchingDraw {
+	donation: mongoose.Types.ObjectId;
+	amount: number;
+}
+
+export interface IMatchingPool {
+	_id?: mongoose.Types.ObjectId;
+	sponsorName: string;
+	sponsorEmail?: string;
+	ratio: number; // Sponsor contribution per unit donated, e.g. 1 for 1:1
+	cap: number;
+	matchedAmount: number;
+	eligibleCauses: mongoose.Types.ObjectId[]; // Empty means every cause in the campaign
+	expiresAt: Date;
+	status: "active" | "paused" | "cancelled";
+	draws: IMatchingDraw[];
+	createdAt?: Date;
+}
+
+export interface IAllocationShare {
+	organization: mongoose.Types.ObjectId;
+	percent: number;
+}
+
+// How money given to a co-hosted campaign is shared between its hosts.
+// "none" leaves it with the organization owning the cause; "percentage"
+// splits every gift by fixed shares; "cause" routes each cause's gifts to
+// one host.
+export interface ICampaignAllocation {
+	mode: "none" | "percentage" | "cause";
+	shares: IAllocationShare[];
+	causeRoutes: {
+		cause: mongoose.Types.ObjectId;
+		organization: mongoose.Types.ObjectId;
+	}[];
+}
 
 export interface ICampaign extends Document {
 	title: string;
@@ -7,12 +46,20 @@ export interface ICampaign extends Document {
 	startDate: Date;
 	endDate: Date;
 	status: "draft" | "active" | "completed" | "cancelled";
+	autoActivate: boolean; // Activate the draft automatically at startDate
+	activatedAt?: Date;
+	completedAt?: Date; // Set when the campaign ends, manually or at endDate
 	causes: mongoose.Types.ObjectId[];
 	organizations: mongoose.Types.ObjectId[];
 	totalTargetAmount: number;
+	milestones: IGoalMilestone[];
+	stretchTarget?: number; // Only set once totalTargetAmount is reached
+	stretchReachedAt?: Date;
 	imageUrl: string;
 	tags: string[];
 	acceptedDonationTypes: DonationType[];
+	matchingPools: IMatchingPool[];
+	allocation: ICampaignAllocation;
 	createdAt: Date;
 	updatedAt: Date;
 }
@@ -1,4 +1,4 @@
-import { DonationType } from "./index";
+import { DonationType, IGoalMilestone } from "./index";
 import mongoose from "mongoose";
 export interface Cause {
 	id: string;
@@ -57,16 +57,34 @@ export interface UpdateCauseBody {
 	status?: "active" | "completed" | "draft";
 }
 
+export type CauseNeedPriority = "low" | "medium" | "high";
+
+// A quantity of one kind of item a cause is asking for, e.g. 200 blankets.
+// fulfilledQuantity counts items actually received.
+export interface ICauseNeed {
+	_id?: mongoose.Types.ObjectId;
+	itemType: DonationType;
+	name: string;
+	targetQuantity: number;
+	fulfilledQuantity: number;
+	unit: string;
+	priority: CauseNeedPriority;
+}
+
 export interface ICause extends Document {
 	title: string;
 	description: string;
 	targetAmount: number;
 	raisedAmount?: number; // Optional field for tracking raised amount
+	milestones: IGoalMilestone[];
+	stretchTarget?: number;
+	stretchReachedAt?: Date;
 	imageUrl: string;
 	tags: string[];
 	organizationId: mongoose.Types.ObjectId;
 	acceptanceType: "money" | "items" | "both";
 	donationItems: string[];
+	needs: ICauseNeed[];
 	acceptedDonationTypes: DonationType[];
 	createdAt: Date;
 	updatedAt: Date;
@@ -15,6 +15,14 @@ export interface DonationStats {
 	averageDonation: number;
 }
 
+export interface FeeStats {
+	grossAmount: number;
+	processingFees: number;
+	platformFees: number;
+	netAmount: number;
+	coveredByDonorCount: number;
+}
+
 export interface CampaignStats {
 	totalCampaigns: number;
 	activeCampaigns: number;
@@ -25,10 +25,25 @@ export interface IDonorProfile {
 	country?: string;
 	profileImage?: string;
 	bio?: string;
+	taxId?: string; // PAN or other tax ID
 	createdAt?: Date;
 	updatedAt?: Date;
 }
 
+// Share of a goal to celebrate, set when first crossed
+export interface IGoalMilestone {
+	percent: number; // Of the primary target, 1-100
+	reachedAt?: Date;
+}
+
+// Registration numbers printed on donors' tax receipts
+export interface ITaxRegistration {
+	pan?: string;
+	registration80G?: string;
+	registration12A?: string;
+	validUntil?: Date; // Expiry of the 80G approval
+}
+
 export interface IOrganizationProfile {
 	userId: string;
 	name: string;
@@ -43,6 +58,7 @@ export interface IOrganizationProfile {
 	logo?: string;
 	documents?: string[];
 	verified: boolean;
+	taxRegistration?: ITaxRegistration;
 	createdAt?: Date;
 	updatedAt?: Date;
 }
@@ -77,6 +93,9 @@ export enum DonationStatus {
 	RECEIVED = "RECEIVED",
 	CONFIRMED = "CONFIRMED",
 	CANCELLED = "CANCELLED",
+	FAILED = "FAILED", // Payment attempt declined; the checkout may still be retried
+	PARTIALLY_REFUNDED = "PARTIALLY_REFUNDED",
+	REFUNDED = "REFUNDED",
 }
 
 // Core address interface
@@ -10,8 +10,14 @@ export interface AuthRequest extends Request {
 export enum NotificationType {
 	DONATION_RECEIVED = "DONATION_RECEIVED",
 	DONATION_STATUS_UPDATED = "DONATION_STATUS_UPDATED",
+	DONATION_CANCELLED = "DONATION_CANCELLED",
+	DONATION_RESCHEDULE = "DONATION_RESCHEDULE",
 	CAMPAIGN_CREATED = "CAMPAIGN_CREATED",
 	CAMPAIGN_UPDATED = "CAMPAIGN_UPDATED",
+	CAMPAIGN_STARTED = "CAMPAIGN_STARTED",
+	CAMPAIGN_COMPLETED = "CAMPAIGN_COMPLETED",
+	MILESTONE_REACHED = "MILESTONE_REACHED",
+	PROGRESS_UPDATE = "PROGRESS_UPDATE",
 	FEEDBACK_RECEIVED = "FEEDBACK_RECEIVED",
 	FEEDBACK_RESPONSE = "FEEDBACK_RESPONSE",
 	SYSTEM_NOTIFICATION = "SYSTEM_NOTIFICATION",
@@ -20,6 +20,7 @@ export interface OrganizationResponse {
 export interface DonorResponse {
 	id: string;
 	name: string;
+	isAnonymous: boolean;
 	email: string;
 	phoneNumber: string | null;
 	address: {
@@ -47,7 +48,9 @@ export interface CampaignResponse {
 	endDate: string;
 	status: string;
 	totalTargetAmount: number;
-	totalRaisedAmount: number;
+	totalRaisedAmount: number; // Donor gifts plus sponsor matches
+	donorRaisedAmount: number;
+	totalMatchedAmount: number;
 	totalSupporters: number;
 	imageUrl: string;
 	tags: string[];
@@ -1,5 +1,6 @@
 import { Resend } from "resend";
 import { DonationStatus } from "../types";
+import { formatMoney } from "../services/currencyService";
 
 // Initialize Resend with your API key
 const resend = new Resend(process.env.RESEND_API_KEY);
@@ -13,7 +14,8 @@ export const sendEmail = async (
 	quantity?: number,
 	unit?: string,
 	photoUrl?: string,
-	pdfReceiptUrl?: string
+	pdfReceiptUrl?: string,
+	currency?: string // Currency of amount; defaults to the base currency
 ) => {
 	try {
 		// Validate input
@@ -22,6 +24,9 @@ export const sendEmail = async (
 		}
 
 		const subject = `Donation Status Update: ${status}`;
+		const isRefund =
+			status === DonationStatus.REFUNDED ||
+			status === DonationStatus.PARTIALLY_REFUNDED;
 
 		// Create different email content based on status
 		let statusSpecificContent = "";
@@ -91,6 +96,18 @@ export const sendEmail = async (
 					<li>Contact the donor if you need more information</li>
 				</ul>
 			`;
+		} else if (isRefund) {
+			statusSpecificContent = `
+				<div style="background-color: #f8fafc; border: 1px solid #64748b; border-radius: 8px; padding: 16px; margin: 16px 0;">
+					<h3 style="color: #334155; margin: 0 0 8px 0;">↩️ Donation ${
+						status === DonationStatus.REFUNDED
+							? "Refunded"
+							: "Partially Refunded"
+					}</h3>
+					<p style="margin: 0; color: #334155;">A refund has been issued to your original payment method.</p>
+				</div>
+				<p>Refunds usually take 5-10 business days to appear on your statement, depending on your bank.</p>
+			`;
 		} else if (status === "PAYMENT_CONFIRMED") {
 			statusSpecificContent = `
 				<div style="background-color: #f0fdf4; border: 1px solid #22c55e; border-radius: 8px; padding: 16px; margin: 16px 0;">
@@ -119,7 +136,9 @@ export const sendEmail = async (
 				? "New Donation Notification"
 				: status === "PAYMENT_CONFIRMED"
 					? "Payment Confirmation"
-					: "Donation Status Update";
+					: isRefund
+						? "Refund Issued"
+						: "Donation Status Update";
 
 		const html = `
       <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px; margin: 0 auto; border: 1px solid #ddd; border-radius: 8px;">
@@ -128,7 +147,7 @@ export const sendEmail = async (
         ${statusSpecificContent}
         ${
 					amount
-						? `<p>Amount: <strong>₹${amount.toFixed(2)}</strong></p>`
+						? `<p>${isRefund ? "Refunded amount" : "Amount"}: <strong>${formatMoney(amount, currency)}</strong></p>`
 						: quantity
 							? `<p>Quantity: <strong>${quantity} ${unit || ""}</strong></p>`
 							: ""
@@ -154,3 +173,125 @@ export const sendEmail = async (
 		throw new Error("Failed to send notification email");
 	}
 };
+
+// Donor-written text going into HTML
+const escapeHtml = (text: string): string =>
+	text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+
+// Resend reports a rejected message in the response instead of throwing
+const sendOrThrow = async (
+	message: Parameters<typeof resend.emails.send>[0]
+) => {
+	const response = await resend.emails.send(message);
+	if (response.error) {
+		throw new Error(response.error.message);
+	}
+	return response;
+};
+
+// E-card telling the recipient a gift was made in memory or honour of someone
+export const sendTributeCard = async (data: {
+	to: string;
+	donationId: string;
+	recipientName?: string;
+	honoreeName: string;
+	inMemory: boolean;
+	donorName: string; // "A donor" for anonymous gifts
+	organizationName: string;
+	causeTitle?: string;
+	message?: string;
+}) => {
+	try {
+		const dedication = data.inMemory ? "in loving memory of" : "in honour of";
+		const honoreeName = escapeHtml(data.honoreeName);
+		const subject = `A gift has been made ${dedication} ${data.honoreeName}`;
+
+		const html = `
+      <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px; margin: 0 auto; border: 1px solid #ddd; border-radius: 8px;">
+        <div style="background-color: ${data.inMemory ? "#f8fafc" : "#f0fdf4"}; border-radius: 8px; padding: 24px; text-align: center;">
+          <p style="margin: 0; color: #6b7280;">A donation has been made</p>
+          <h2 style="margin: 8px 0; color: #0d9488;">${dedication} ${honoreeName}</h2>
+          <p style="margin: 0; color: #374151;">to ${escapeHtml(data.organizationName)}${
+						data.causeTitle ? ` for ${escapeHtml(data.causeTitle)}` : ""
+					}</p>
+        </div>
+        <p>${data.recipientName ? `Dear ${escapeHtml(data.recipientName)},` : "Hello,"}</p>
+        <p>${escapeHtml(data.donorName)} has chosen to give ${dedication} <strong>${honoreeName}</strong> and wanted you to know.</p>
+        ${
+					data.message
+						? `<blockquote style="border-left: 4px solid #0d9488; margin: 16px 0; padding: 8px 16px; color: #374151; font-style: italic;">${escapeHtml(data.message)}</blockquote>`
+						: ""
+				}
+        <p>Best regards,<br>${escapeHtml(data.organizationName)}</p>
+      </div>
+    `;
+
+		return await sendOrThrow({
+			from: "Donations <onboarding@resend.dev>",
+			to: data.to,
+			subject,
+			html,
+		});
+	} catch (error) {
+		console.error(
+			`Failed to send tribute card to ${data.to} for donation ${data.donationId}:`,
+			error
+		);
+		throw new Error("Failed to send tribute card");
+	}
+};
+
+// Progress update from an organization to someone who supported the campaign
+// or cause
+export const sendProgressUpdateEmail = async (data: {
+	to: string;
+	updateId: string;
+	recipientName?: string;
+	organizationName: string;
+	targetName: string;
+	title: string;
+	body: string;
+	images: string[];
+}) => {
+	try {
+		const subject = `${data.organizationName}: ${data.title}`;
+		const paragraphs = escapeHtml(data.body)
+			.split(/\n{2,}/)
+			.map((paragraph) => `<p>${paragraph.replace(/\n/g, "<br>")}</p>`)
+			.join("");
+
+		const html = `
+      <div style="font-family: Arial, sans-serif; padding: 20px; max-width: 600px; margin: 0 auto; border: 1px solid #ddd; border-radius: 8px;">
+        <p style="margin: 0; color: #6b7280;">An update on ${escapeHtml(data.targetName)}</p>
+        <h2 style="margin: 8px 0 16px; color: #0d9488;">${escapeHtml(data.title)}</h2>
+        <p>${data.recipientName ? `Dear ${escapeHtml(data.recipientName)},` : "Hello,"}</p>
+        ${paragraphs}
+        ${data.images
+					.map(
+						(url) =>
+							`<div style="margin: 16px 0;"><img src="${escapeHtml(url)}" alt="" style="max-width: 100%; border-radius: 4px;"></div>`
+					)
+					.join("")}
+        <p>Thank you for being part of this.</p>
+        <p>Best regards,<br>${escapeHtml(data.organizationName)}</p>
+      </div>
+    `;
+
+		return await sendOrThrow({
+			from: "Donations <onboarding@resend.dev>",
+			to: data.to,
+			subject,
+			html,
+		});
+	} catch (error) {
+		console.error(
+			`Failed to send update ${data.updateId} to ${data.to}:`,
+			error
+		);
+		throw new Error("Failed to send update email");
+	}
+};
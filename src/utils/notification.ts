@@ -20,6 +20,9 @@ export const sendDonationStatusNotification = async (
 		case DonationStatus.CANCELLED:
 			message += `Your donation (ID: ${donationId}) has been cancelled.`;
 			break;
+		case DonationStatus.FAILED:
+			message += `The payment for your donation (ID: ${donationId}) did not go through.`;
+			break;
 		default:
 			message += `The status of your donation (ID: ${donationId}) has been updated to ${status}.`;
 	}
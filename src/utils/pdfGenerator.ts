@@ -1,5 +1,13 @@
 import PDFDocument from "pdfkit";
 import { uploadBufferToCloudinary } from "../middleware/cloudinary.middleware";
+import { PickupRunSheet } from "../services/pickupRunService";
+import { formatMoney, getBaseCurrency } from "../services/currencyService";
+import {
+	IDonationFees,
+	IDonationTribute,
+	TributeType,
+} from "../models/donation.model";
+import { ITaxReceiptLine } from "../models/taxReceipt.model";
 
 interface DonationData {
 	donationId: string;
@@ -7,15 +15,68 @@ interface DonationData {
 	donorEmail: string;
 	organizationName: string;
 	organizationEmail: string;
-	amount?: number;
+	amount?: number; // In the base currency
+	currency?: string;
+	originalAmount?: number;
+	fxRate?: number;
+	fees?: IDonationFees;
+	tribute?: IDonationTribute;
 	quantity?: number;
 	unit?: string;
 	type: string;
 	description: string;
 	receivedDate: Date;
 	cause?: string;
+	lineItems?: {
+		type: string;
+		quantity: number;
+		unit: string;
+		condition?: string;
+	}[];
 }
 
+// Fee split of the gift, in the base currency
+const getFeeLines = (fees?: IDonationFees): string[] => {
+	if (!fees || fees.grossAmount === undefined) {
+		return [];
+	}
+	return [
+		`Processing fee: ${formatMoney(fees.processingFee)}`,
+		`Platform fee: ${formatMoney(fees.platformFee)}`,
+		`Net to organization: ${formatMoney(fees.netAmount)}${fees.coveredByDonor ? " (fees covered by donor)" : ""}`,
+	];
+};
+
+const getTributeLines = (tribute?: IDonationTribute): string[] => {
+	if (!tribute?.honoreeName) {
+		return [];
+	}
+	return [
+		`${tribute.type === TributeType.IN_MEMORY ? "In memory of" : "In honour of"}: ${tribute.honoreeName}`,
+		...(tribute.message ? [`Message: ${tribute.message}`] : []),
+	];
+};
+
+// Amount in the donor's currency, plus the base-currency equivalent when they
+// differ, followed by the fee breakdown
+const getAmountLines = (donationData: DonationData): string[] => {
+	const baseCurrency = getBaseCurrency();
+	const currency = donationData.currency || baseCurrency;
+	const baseAmount = donationData.amount || 0;
+
+	if (currency === baseCurrency) {
+		return [
+			`Amount: ${formatMoney(baseAmount, currency)}`,
+			...getFeeLines(donationData.fees),
+		];
+	}
+	return [
+		`Amount: ${formatMoney(donationData.originalAmount ?? baseAmount, currency)}`,
+		`Equivalent: ${formatMoney(baseAmount, baseCurrency)} (1 ${currency} = ${donationData.fxRate} ${baseCurrency})`,
+		...getFeeLines(donationData.fees),
+	];
+};
+
 export const generateDonationReceipt = async (
 	donationData: DonationData
 ): Promise<string> => {
@@ -126,13 +187,23 @@ export const generateDonationReceipt = async (
 			doc.fontSize(11);
 
 			if (donationData.type === "MONEY") {
-				doc
-					.text(`Type: Monetary Donation`, 70, yPosition)
-					.text(
-						`Amount: ₹${donationData.amount?.toFixed(2) || "0.00"}`,
-						70,
-						yPosition + 15
+				doc.text(`Type: Monetary Donation`, 70, yPosition);
+				getAmountLines(donationData).forEach((line, index) => {
+					doc.text(line, 70, yPosition + 15 * (index + 1));
+				});
+				yPosition += 15 * (getAmountLines(donationData).length - 1);
+			} else if (donationData.lineItems?.length > 1) {
+				doc.text(`Type: Item Donation`, 70, yPosition);
+				donationData.lineItems.forEach((line, index) => {
+					doc.text(
+						`${line.type}: ${line.quantity} ${line.unit}${
+							line.condition ? ` (${line.condition})` : ""
+						}`,
+						85,
+						yPosition + 15 * (index + 1)
 					);
+				});
+				yPosition += 15 * (donationData.lineItems.length - 1);
 			} else {
 				doc
 					.text(`Type: ${donationData.type} Donation`, 70, yPosition)
@@ -150,6 +221,11 @@ export const generateDonationReceipt = async (
 				yPosition += 20;
 			}
 
+			getTributeLines(donationData.tribute).forEach((line) => {
+				doc.text(line, 70, yPosition, { width: 450 });
+				yPosition = doc.y + 5;
+			});
+
 			if (donationData.description) {
 				doc.text(`Description: ${donationData.description}`, 70, yPosition, {
 					width: 450,
@@ -157,8 +233,8 @@ export const generateDonationReceipt = async (
 				});
 			}
 
-			// Thank you message
-			yPosition = 450;
+			// Thank you message, below any tribute or description text
+			yPosition = Math.max(450, doc.y + 30);
 			doc
 				.fontSize(14)
 				.fillColor("#059669")
@@ -191,7 +267,7 @@ export const generateDonationReceipt = async (
 				);
 
 			// Footer
-			yPosition = 550;
+			yPosition += 70;
 			doc
 				.fontSize(10)
 				.fillColor("#9ca3af")
@@ -333,13 +409,23 @@ export const generateDonationConfirmationReceipt = async (
 			doc.fontSize(11);
 
 			if (donationData.type === "MONEY") {
-				doc
-					.text(`Type: Monetary Donation`, 70, yPosition)
-					.text(
-						`Amount: ₹${donationData.amount?.toFixed(2) || "0.00"}`,
-						70,
-						yPosition + 15
+				doc.text(`Type: Monetary Donation`, 70, yPosition);
+				getAmountLines(donationData).forEach((line, index) => {
+					doc.text(line, 70, yPosition + 15 * (index + 1));
+				});
+				yPosition += 15 * (getAmountLines(donationData).length - 1);
+			} else if (donationData.lineItems?.length > 1) {
+				doc.text(`Type: Item Donation`, 70, yPosition);
+				donationData.lineItems.forEach((line, index) => {
+					doc.text(
+						`${line.type}: ${line.quantity} ${line.unit}${
+							line.condition ? ` (${line.condition})` : ""
+						}`,
+						85,
+						yPosition + 15 * (index + 1)
 					);
+				});
+				yPosition += 15 * (donationData.lineItems.length - 1);
 			} else {
 				doc
 					.text(`Type: ${donationData.type} Donation`, 70, yPosition)
@@ -357,6 +443,11 @@ export const generateDonationConfirmationReceipt = async (
 				yPosition += 20;
 			}
 
+			getTributeLines(donationData.tribute).forEach((line) => {
+				doc.text(line, 70, yPosition, { width: 450 });
+				yPosition = doc.y + 5;
+			});
+
 			if (donationData.description) {
 				doc.text(`Description: ${donationData.description}`, 70, yPosition, {
 					width: 450,
@@ -364,8 +455,8 @@ export const generateDonationConfirmationReceipt = async (
 				});
 			}
 
-			// Thank you message
-			yPosition = 500;
+			// Thank you message, below any tribute or description text
+			yPosition = Math.max(500, doc.y + 30);
 			doc
 				.fontSize(16)
 				.fillColor("#7c3aed")
@@ -398,7 +489,7 @@ export const generateDonationConfirmationReceipt = async (
 				);
 
 			// Footer
-			yPosition = 600;
+			yPosition += 70;
 			doc
 				.fontSize(10)
 				.fillColor("#9ca3af")
@@ -419,3 +510,327 @@ export const generateDonationConfirmationReceipt = async (
 		}
 	});
 };
+
+interface TaxReceiptData {
+	receiptNumber: string;
+	revision: number;
+	fiscalYear: string;
+	periodStart: Date;
+	periodEnd: Date;
+	issuedAt: Date;
+	donorName: string;
+	donorEmail: string;
+	donorTaxId: string;
+	donorAddress?: string;
+	organizationName: string;
+	organizationEmail: string;
+	organizationAddress?: string;
+	organizationPan: string;
+	registration80G: string;
+	registration12A?: string;
+	registrationValidUntil?: Date;
+	lines: ITaxReceiptLine[];
+	totalAmount: number; // In the base currency
+}
+
+const formatReceiptDate = (date: Date) =>
+	new Date(date).toLocaleDateString("en-IN", {
+		day: "numeric",
+		month: "short",
+		year: "numeric",
+		timeZone: "Asia/Kolkata",
+	});
+
+// One statement of every eligible gift a donor made to an organization in a
+// fiscal year, with the registration details needed for an 80G deduction
+export const generateConsolidatedTaxReceipt = async (
+	receipt: TaxReceiptData
+): Promise<string> => {
+	return new Promise((resolve, reject) => {
+		try {
+			const timestamp = Date.now();
+
+			const doc = new PDFDocument({ margin: 50 });
+
+			const chunks: Buffer[] = [];
+			doc.on("data", (chunk) => chunks.push(chunk));
+			doc.on("end", async () => {
+				try {
+					const pdfBuffer = Buffer.concat(chunks);
+
+					const cloudinaryResult = await uploadBufferToCloudinary(
+						pdfBuffer,
+						"tax-receipts",
+						{
+							resource_type: "raw",
+							format: "pdf",
+							public_id: `tax-receipt-${receipt.receiptNumber.replace(/\//g, "-")}-${timestamp}`,
+						}
+					);
+
+					resolve(cloudinaryResult.secure_url);
+				} catch (uploadError) {
+					reject(uploadError);
+				}
+			});
+
+			doc.on("error", (error) => {
+				reject(error);
+			});
+
+			// Header
+			doc
+				.fontSize(20)
+				.fillColor("#0d9488")
+				.text("CONSOLIDATED DONATION RECEIPT", { align: "center" })
+				.fontSize(11)
+				.fillColor("#6b7280")
+				.text("For deduction under section 80G of the Income Tax Act, 1961", {
+					align: "center",
+				})
+				.text(
+					`Fiscal year ${receipt.fiscalYear} (${formatReceiptDate(
+						receipt.periodStart
+					)} to ${formatReceiptDate(receipt.periodEnd)})`,
+					{ align: "center" }
+				);
+
+			doc
+				.moveDown()
+				.fontSize(11)
+				.fillColor("#1f2937")
+				.text(
+					`Receipt No: ${receipt.receiptNumber}${
+						receipt.revision > 1 ? ` (revision ${receipt.revision})` : ""
+					}`
+				)
+				.text(`Issued: ${formatReceiptDate(receipt.issuedAt)}`);
+
+			// Organization
+			doc
+				.moveDown()
+				.fontSize(13)
+				.fillColor("#0d9488")
+				.text("Issued by", { underline: true })
+				.fontSize(11)
+				.fillColor("#1f2937")
+				.text(receipt.organizationName);
+			if (receipt.organizationAddress) {
+				doc.text(receipt.organizationAddress);
+			}
+			doc
+				.text(`Email: ${receipt.organizationEmail}`)
+				.text(`PAN: ${receipt.organizationPan}`)
+				.text(
+					`80G registration: ${receipt.registration80G}${
+						receipt.registrationValidUntil
+							? ` (valid until ${formatReceiptDate(
+									receipt.registrationValidUntil
+								)})`
+							: ""
+					}`
+				);
+			if (receipt.registration12A) {
+				doc.text(`12A registration: ${receipt.registration12A}`);
+			}
+
+			// Donor
+			doc
+				.moveDown()
+				.fontSize(13)
+				.fillColor("#0d9488")
+				.text("Donor", { underline: true })
+				.fontSize(11)
+				.fillColor("#1f2937")
+				.text(receipt.donorName);
+			if (receipt.donorAddress) {
+				doc.text(receipt.donorAddress);
+			}
+			doc
+				.text(`Email: ${receipt.donorEmail}`)
+				.text(`PAN / Tax ID: ${receipt.donorTaxId}`);
+
+			// Donations
+			doc
+				.moveDown()
+				.fontSize(13)
+				.fillColor("#0d9488")
+				.text("Donations received", { underline: true })
+				.fontSize(10)
+				.fillColor("#1f2937");
+
+			receipt.lines.forEach((line, index) => {
+				const paid =
+					line.currency && line.currency !== getBaseCurrency()
+						? ` (paid ${formatMoney(line.originalAmount, line.currency)})`
+						: "";
+				doc.text(
+					`${index + 1}. ${formatReceiptDate(line.date)}  ${formatMoney(
+						line.amount
+					)}${paid}  |  Online, ref ${
+						line.paymentReference || line.donation.toString()
+					}`
+				);
+			});
+
+			doc
+				.moveDown()
+				.fontSize(12)
+				.text(
+					`Total eligible amount: ${formatMoney(receipt.totalAmount)} across ${
+						receipt.lines.length
+					} donation${receipt.lines.length === 1 ? "" : "s"}`
+				)
+				.fontSize(10)
+				.fillColor("#6b7280")
+				.text(
+					"Amounts are net of refunds. Item donations are not eligible for deduction and are not listed."
+				);
+
+			// Footer
+			doc
+				.moveDown(2)
+				.fontSize(10)
+				.fillColor("#9ca3af")
+				.text(
+					"This is an automatically generated receipt and does not require a signature.",
+					{ align: "center" }
+				)
+				.text(
+					"This receipt supersedes any earlier statement with the same number.",
+					{ align: "center" }
+				);
+
+			doc.end();
+		} catch (error) {
+			reject(error);
+		}
+	});
+};
+
+// Run sheets list donors' names, addresses and phone numbers, so they are
+// returned to the caller rather than uploaded to a public URL
+export const generatePickupRunSheet = async (
+	runSheet: PickupRunSheet
+): Promise<Buffer> => {
+	return new Promise((resolve, reject) => {
+		try {
+			const doc = new PDFDocument({ margin: 50 });
+
+			const chunks: Buffer[] = [];
+			doc.on("data", (chunk) => chunks.push(chunk));
+			doc.on("end", () => {
+				resolve(Buffer.concat(chunks));
+			});
+
+			doc.on("error", (error) => {
+				reject(error);
+			});
+
+			// Header
+			doc
+				.fontSize(22)
+				.fillColor("#0d9488")
+				.text("PICKUP RUN SHEET", { align: "center" })
+				.fontSize(14)
+				.fillColor("#2c5625")
+				.text(runSheet.organizationName, { align: "center" })
+				.fontSize(11)
+				.fillColor("#6b7280")
+				.text(
+					runSheet.from === runSheet.to
+						? runSheet.from
+						: `${runSheet.from} to ${runSheet.to}`,
+					{ align: "center" }
+				)
+				.text(`Total stops: ${runSheet.totalStops}`, { align: "center" });
+
+			if (runSheet.days.length === 0) {
+				doc
+					.moveDown(2)
+					.fontSize(12)
+					.fillColor("#1f2937")
+					.text("No pickups are scheduled for this period.", {
+						align: "center",
+					});
+			}
+
+			runSheet.days.forEach((day, dayIndex) => {
+				// Each day starts on its own page so volunteers can take just their run
+				if (dayIndex > 0) {
+					doc.addPage();
+				} else {
+					doc.moveDown(2);
+				}
+
+				doc
+					.fontSize(16)
+					.fillColor("#1f2937")
+					.text(
+						`${new Date(day.date).toLocaleDateString("en-IN", {
+							weekday: "long",
+							day: "numeric",
+							month: "long",
+							year: "numeric",
+							timeZone: "UTC",
+						})} (${day.totalStops} stops)`,
+						{ underline: true }
+					);
+
+				day.groups.forEach((group) => {
+					doc
+						.moveDown()
+						.fontSize(13)
+						.fillColor("#0d9488")
+						.text(
+							`${group.city || "Unknown city"}${
+								group.zipCode ? ` - ${group.zipCode}` : ""
+							}`
+						);
+
+					group.stops.forEach((stop) => {
+						doc
+							.moveDown(0.5)
+							.fontSize(11)
+							.fillColor("#1f2937")
+							.text(
+								`${stop.sequence}. ${stop.scheduledTime || "Any time"}  ${
+									stop.address.street
+								}, ${stop.address.city} ${stop.address.zipCode}`
+							)
+							.fontSize(10)
+							.fillColor("#4b5563")
+							.text(
+								`Donor: ${stop.donorName}${
+									stop.contactPhone ? `  |  Phone: ${stop.contactPhone}` : ""
+								}`,
+								{ indent: 15 }
+							)
+							.text(
+								`Items: ${stop.type} - ${stop.quantity || 0} ${
+									stop.unit || ""
+								}  |  ${stop.description}`,
+								{ indent: 15 }
+							);
+
+						if (stop.status === "PENDING") {
+							doc.fillColor("#b45309").text("Not yet approved", {
+								indent: 15,
+							});
+						}
+
+						if (stop.notes) {
+							doc
+								.fillColor("#6b7280")
+								.text(`Notes: ${stop.notes}`, { indent: 15 });
+						}
+					});
+				});
+			});
+
+			doc.end();
+		} catch (error) {
+			reject(error);
+		}
+	});
+};